@@ -0,0 +1,263 @@
+/* --------------------------------------------------------------------------------------------
+ * Code regions: the `( ... )` blocks evaluated as a whole, each opened at the start of a line.
+ * ------------------------------------------------------------------------------------------ */
+
+import {
+	CodeLens,
+	CodeLensProvider,
+	Disposable,
+	Event,
+	EventEmitter,
+	Position,
+	Range,
+	TextDocument,
+	workspace
+} from 'vscode';
+
+/** Why the region at the cursor cannot be evaluated, and where. */
+export interface RegionError {
+	message: string;
+	position: Position;
+}
+
+interface Token {
+	/** A bracket or `;`, other code is `code` and literals are `literal`. */
+	value: string;
+	start: number;
+	/** True for the first token on its line. */
+	lineStart: boolean;
+}
+
+interface BracketPair {
+	open: Token;
+	close?: Token;
+	/** The token after the closing bracket. */
+	next?: Token;
+	/** Number of brackets enclosing the pair. */
+	depth: number;
+}
+
+interface Problem {
+	kind: 'unexpected' | 'unclosed';
+	message: string;
+	offset: number;
+}
+
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Reads the tokens that matter for regions, following the rules of the language server lexer for
+ * comments (block comments nest), strings, quoted symbols and character literals, so that the
+ * brackets inside them are not counted.
+ */
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let lineStart = true;
+	let pos = 0;
+	const push = (value: string, start: number) => {
+		tokens.push({ value, start, lineStart });
+		lineStart = false;
+	};
+	while (pos < text.length) {
+		const ch = text[pos];
+		const start = pos;
+		if (ch === '\n' || ch === '\r') {
+			lineStart = true;
+			pos++;
+		} else if (ch === ' ' || ch === '\t' || ch === '\f' || ch === '\v') {
+			pos++;
+		} else if (ch === '/' && text.charAt(pos + 1) === '/') {
+			while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') {
+				pos++;
+			}
+		} else if (ch === '/' && text.charAt(pos + 1) === '*') {
+			let depth = 0;
+			while (pos < text.length) {
+				if (text[pos] === '/' && text.charAt(pos + 1) === '*') {
+					depth++;
+					pos += 2;
+				} else if (text[pos] === '*' && text.charAt(pos + 1) === '/') {
+					depth--;
+					pos += 2;
+					if (depth === 0) {
+						break;
+					}
+				} else {
+					pos++;
+				}
+			}
+		} else if (ch === '"' || ch === '\'') {
+			pos++;
+			while (pos < text.length && text[pos] !== ch) {
+				pos += text[pos] === '\\' ? 2 : 1;
+			}
+			pos++;
+			push('literal', start);
+		} else if (ch === '$') {
+			// $( and $\( are characters
+			pos += text.charAt(pos + 1) === '\\' ? 3 : 2;
+			push('literal', start);
+		} else {
+			pos++;
+			push('()[]{};'.includes(ch) ? ch : 'code', start);
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Matches the brackets of the tokens. A closing bracket that does not match the innermost open
+ * one closes the nearest matching one, leaving the brackets it skips unclosed, or is reported as
+ * unexpected when none matches.
+ */
+function matchBrackets(tokens: Token[]): { pairs: BracketPair[]; problems: Problem[] } {
+	const pairs: BracketPair[] = [];
+	const problems: Problem[] = [];
+	const open: BracketPair[] = [];
+	const notClosed = (pair: BracketPair) => problems.push({ kind: 'unclosed', message: `'${pair.open.value}' is not closed`, offset: pair.open.start });
+	for (const [index, token] of tokens.entries()) {
+		if ('([{'.includes(token.value)) {
+			const pair = { open: token, depth: open.length };
+			pairs.push(pair);
+			open.push(pair);
+			continue;
+		}
+		const opener = CLOSERS[token.value];
+		if (!opener) {
+			continue;
+		}
+		const matching = open.map(pair => pair.open.value).lastIndexOf(opener);
+		if (matching < 0) {
+			problems.push({ kind: 'unexpected', message: `Unexpected '${token.value}'`, offset: token.start });
+			continue;
+		}
+		open.splice(matching + 1).forEach(notClosed);
+		const pair = open.pop()!;
+		pair.close = token;
+		pair.next = tokens[index + 1];
+	}
+	open.forEach(notClosed);
+	problems.sort((a, b) => a.offset - b.offset);
+	return { pairs, problems };
+}
+
+// A region is a parenthesis opening a line, closed by one followed by a new line, ';', or the
+// end of the document. When it is followed by '.', as in `(...).play`, it is not a region.
+function isRegion(pair: BracketPair): boolean {
+	if (pair.open.value !== '(' || !pair.open.lineStart) {
+		return false;
+	}
+	return !pair.close || !pair.next || pair.next.lineStart || pair.next.value === ';';
+}
+
+/**
+ * Finds the innermost region containing the position, or the current line when there is none.
+ * The cursor can also be on the line of the closing parenthesis. A region with unbalanced
+ * brackets is not evaluated, the error gives the first unexpected closing bracket in it, which
+ * also leaves the brackets before it unclosed, or else the first unclosed bracket.
+ */
+export function findCodeBlock(document: TextDocument, position: Position): Range | RegionError {
+	const text = document.getText();
+	const offset = document.offsetAt(position);
+	const { pairs, problems } = matchBrackets(tokenize(text));
+
+	const region = pairs.filter(pair => pair.open.start <= offset && isRegion(pair) &&
+		(!pair.close || pair.close.start >= offset || document.positionAt(pair.close.start).line === position.line)).pop();
+	if (!region) {
+		return document.lineAt(position.line).range;
+	}
+	const end = region.close?.start ?? text.length;
+	const inRegion = problems.filter(problem => problem.offset >= region.open.start && problem.offset <= end);
+	const problem = inRegion.find(problem => problem.kind === 'unexpected') ?? inRegion[0];
+	if (problem) {
+		return { message: problem.message, position: document.positionAt(problem.offset) };
+	}
+	return new Range(document.positionAt(region.open.start), document.positionAt(region.close!.start + 1));
+}
+
+/** Offsets of a stretch of code, from its first character to after its last. */
+export interface CodeSpan {
+	start: number;
+	end: number;
+	/** True for a balanced top-level region, false for the code between regions. */
+	region: boolean;
+}
+
+/**
+ * Splits a text into its balanced top-level regions and the code between them, in order, as
+ * sclang would run them one after the other. Stretches of blank lines and comments are left out.
+ */
+export function splitRegions(text: string): CodeSpan[] {
+	const tokens = tokenize(text);
+	const { pairs, problems } = matchBrackets(tokens);
+	const regions = pairs.filter(pair => pair.depth === 0 && pair.close && isRegion(pair) &&
+		!problems.some(problem => problem.offset >= pair.open.start && problem.offset <= pair.close!.start));
+	const spans: CodeSpan[] = [];
+	let offset = 0;
+	for (const pair of [...regions, undefined]) {
+		const end = pair?.open.start ?? text.length;
+		const code = tokens.find(token => token.start >= offset && token.start < end);
+		if (code) {
+			spans.push({ start: code.start, end: code.start + text.substring(code.start, end).trimEnd().length, region: false });
+		}
+		if (pair) {
+			offset = pair.close!.start + 1;
+			spans.push({ start: pair.open.start, end: offset, region: true });
+		}
+	}
+	return spans;
+}
+
+/** Finds the balanced top-level regions of a document, in order. */
+export function findRegions(document: TextDocument): Range[] {
+	return splitRegions(document.getText())
+		.filter(span => span.region)
+		.map(span => new Range(document.positionAt(span.start), document.positionAt(span.end)));
+}
+
+/**
+ * Wraps code in a function whose value is posted. The parentheses of a region become the braces
+ * of the function, so that its variable declarations stay at the start of a block and errors keep
+ * their positions. The closing brace goes on a line of its own, out of reach of a line comment.
+ */
+export function wrapForPost(code: string): string {
+	const tokens = tokenize(code);
+	const outer = matchBrackets(tokens).pairs[0];
+	if (tokens[0]?.value === '(' && outer?.close && outer.close === tokens[tokens.length - 1]) {
+		return `${code.slice(0, outer.open.start)}{${code.slice(outer.open.start + 1, outer.close.start)}\n}.value.postln`;
+	}
+	return `{${code}\n}.value.postln`;
+}
+
+/** Shows a "▶ Run" lens above each top-level region. */
+export class RegionCodeLensProvider implements CodeLensProvider, Disposable {
+	private readonly changeEmitter = new EventEmitter<void>();
+	private readonly disposables: Disposable[] = [];
+
+	readonly onDidChangeCodeLenses: Event<void> = this.changeEmitter.event;
+
+	constructor() {
+		this.disposables.push(workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('supercollider.evaluation.codeLens')) {
+				this.changeEmitter.fire();
+			}
+		}));
+	}
+
+	provideCodeLenses(document: TextDocument): CodeLens[] {
+		if (!workspace.getConfiguration('supercollider.evaluation', document).get<boolean>('codeLens', true)) {
+			return [];
+		}
+		return findRegions(document).map(range => new CodeLens(range, {
+			title: '▶ Run',
+			tooltip: 'Evaluate this region',
+			command: 'supercollider.executeRange',
+			arguments: [document.uri, range]
+		}));
+	}
+
+	dispose(): void {
+		this.changeEmitter.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+}
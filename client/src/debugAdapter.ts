@@ -0,0 +1,334 @@
+/* --------------------------------------------------------------------------------------------
+ * Debug adapter for the `supercollider` debug type: runs a file in an sclang of its own, posts
+ * its output to the Debug Console, which evaluates code in it, and shows its errors as stack frames.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as path from 'path';
+import {
+	DebugAdapter,
+	DebugConfiguration,
+	DebugConfigurationProvider,
+	DebugProtocolMessage,
+	Disposable,
+	Event,
+	EventEmitter,
+	OutputChannel,
+	Position,
+	Uri,
+	window,
+	workspace,
+	WorkspaceFolder
+} from 'vscode';
+import { splitRegions } from './codeRegions';
+import { Sclang } from './sclang';
+import { parseSclangErrors, SclangError } from './sclangErrors';
+
+export interface SclangLaunchConfiguration extends DebugConfiguration {
+	/** The `.scd` file to run, relative paths start from the workspace folder. */
+	program: string;
+	/** The `supercollider.sclangPath` setting when not set. */
+	sclangPath?: string;
+	/** Flags for sclang, such as `-l` and a language configuration file. */
+	args?: string[];
+	/** The directory of the program when not set, relative paths start from the workspace folder. */
+	cwd?: string;
+	/** Quit the audio server with `s.quit` before stopping sclang, the default. */
+	quitServer?: boolean;
+}
+
+interface Request {
+	seq: number;
+	type: 'request';
+	command: string;
+	arguments?: Record<string, unknown>;
+}
+
+interface StackFrame {
+	name: string;
+	/** The file of the frame, when it is known. */
+	file?: string;
+	line: number;
+	column: number;
+}
+
+/** sclang runs everything on one thread, as far as the debugger is concerned. */
+const THREAD_ID = 1;
+const QUIT_TIMEOUT = 2000;
+
+/**
+ * Frames of an error in the code evaluated from `start`, innermost first. A parse error has its
+ * position in that code, or in a class file. Runtime errors only have the call stack: sclang does
+ * not tell where in the code its functions are, they point at the start of the code.
+ */
+function getStackFrames(error: SclangError, program: string, start: Position): StackFrame[] {
+	if (error.location?.file) {
+		const { file, line, character } = error.location;
+		return [{ name: error.message, file, line: line + 1, column: character + 1 }];
+	}
+	if (error.location) {
+		// Columns of the first line count from the start of the evaluated code
+		const { line, character } = error.location;
+		return [{ name: error.message, file: program, line: start.line + line + 1, column: (line === 0 ? start.character : 0) + character + 1 }];
+	}
+	return error.stack.map(frame => /^a FunctionDef\b/.test(frame)
+		? { name: frame, file: program, line: start.line + 1, column: start.character + 1 }
+		: { name: frame, line: 0, column: 0 });
+}
+
+function quote(text: string): string {
+	return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Speaks the Debug Adapter Protocol inside the extension. The program runs once the configuration
+ * is done, one region at a time, and an error it posts stops the session on an exception until it
+ * is continued with the next region. sclang keeps running, with whatever the program started,
+ * until the session is stopped. It does not stop at breakpoints or step through code.
+ */
+export class SclangDebugAdapter implements DebugAdapter {
+	private readonly messageEmitter = new EventEmitter<DebugProtocolMessage>();
+	readonly onDidSendMessage: Event<DebugProtocolMessage> = this.messageEmitter.event;
+
+	private sclang: Sclang | undefined;
+	private configuration: SclangLaunchConfiguration | undefined;
+	private nextSeq = 1;
+	private terminated = false;
+	/** The error the program stopped on, until execution continues. */
+	private exception: { error: SclangError; frames: StackFrame[] } | undefined;
+	/** Runs the rest of the program after an exception. */
+	private resume: (() => void) | undefined;
+	private readonly disposables: Disposable[] = [];
+	private resolveConfigurationDone!: () => void;
+	private readonly configurationDone = new Promise<void>(resolve => this.resolveConfigurationDone = resolve);
+
+	constructor(private readonly log: OutputChannel) { }
+
+	handleMessage(message: DebugProtocolMessage): void {
+		const request = message as Request;
+		if (request.type === 'request') {
+			this.handleRequest(request).catch(err => this.respond(request, undefined, err instanceof Error ? err.message : String(err)));
+		}
+	}
+
+	dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.sclang?.dispose();
+		this.messageEmitter.dispose();
+	}
+
+	private async handleRequest(request: Request): Promise<void> {
+		switch (request.command) {
+			case 'initialize':
+				this.respond(request, {
+					supportsConfigurationDoneRequest: true,
+					supportsTerminateRequest: true,
+					supportsExceptionInfoRequest: true
+				});
+				this.sendEvent('initialized');
+				break;
+			case 'launch':
+				await this.launch(request);
+				break;
+			case 'configurationDone':
+				this.resolveConfigurationDone();
+				this.respond(request);
+				break;
+			case 'threads':
+				this.respond(request, { threads: [{ id: THREAD_ID, name: 'sclang' }] });
+				break;
+			case 'stackTrace': {
+				const frames = this.exception?.frames ?? [];
+				this.respond(request, {
+					stackFrames: frames.map((frame, index) => ({
+						id: index + 1,
+						name: frame.name,
+						source: frame.file ? { name: path.basename(frame.file), path: frame.file } : undefined,
+						line: frame.line,
+						column: frame.column,
+						presentationHint: frame.file ? 'normal' : 'subtle'
+					})),
+					totalFrames: frames.length
+				});
+				break;
+			}
+			case 'scopes':
+				this.respond(request, { scopes: [] });
+				break;
+			case 'exceptionInfo':
+				this.respond(request, {
+					exceptionId: 'ERROR',
+					description: this.exception?.error.message,
+					breakMode: 'always',
+					details: this.exception && { message: this.exception.error.message, stackTrace: this.exception.error.stack.join('\n') }
+				});
+				break;
+			case 'continue':
+				this.exception = undefined;
+				this.respond(request, { allThreadsContinued: true });
+				this.resume?.();
+				break;
+			case 'setBreakpoints': {
+				// Sent for every file of the language, sclang has no breakpoints to set
+				const { breakpoints = [] } = request.arguments as { breakpoints?: { line: number }[] };
+				this.respond(request, {
+					breakpoints: breakpoints.map(breakpoint => ({ verified: false, line: breakpoint.line, message: 'sclang does not stop at breakpoints' }))
+				});
+				break;
+			}
+			case 'setExceptionBreakpoints':
+				this.respond(request);
+				break;
+			case 'loadedSources':
+				this.respond(request, { sources: [] });
+				break;
+			case 'pause':
+				// Sent by the pause button whether it is supported or not
+				this.respond(request, undefined, 'sclang cannot be paused');
+				break;
+			case 'evaluate':
+				await this.evaluate(request);
+				break;
+			case 'terminate':
+			case 'disconnect':
+				await this.shutdown();
+				this.respond(request);
+				break;
+			default:
+				throw new Error(`The SuperCollider debugger does not support '${request.command}'`);
+		}
+	}
+
+	/** Starts sclang, and runs the program once it is ready and the configuration is done. */
+	private async launch(request: Request): Promise<void> {
+		const configuration = request.arguments as SclangLaunchConfiguration;
+		if (!configuration.program) {
+			throw new Error('Set the .scd file to run as "program" in the launch configuration');
+		}
+		// The configuration provider resolves relative paths against the workspace folder, without one they mean nothing
+		for (const [name, value] of [['program', configuration.program], ['cwd', configuration.cwd]]) {
+			if (value && !path.isAbsolute(value)) {
+				throw new Error(`Set "${name}" to an absolute path, such as "\${workspaceFolder}/${value}", outside a workspace folder`);
+			}
+		}
+		const program = path.normalize(configuration.program);
+		const document = await workspace.openTextDocument(Uri.file(program)).then(document => document, () => {
+			throw new Error(`Cannot open ${program}`);
+		});
+		const sclang = new Sclang(this.log, { sclangPath: configuration.sclangPath, args: configuration.args ?? [], cwd: configuration.cwd ?? path.dirname(program) });
+		this.configuration = configuration;
+		this.sclang = sclang;
+		this.disposables.push(
+			sclang.onDidOutput(text => this.sendEvent('output', { category: 'stdout', output: text })),
+			sclang.onDidFail(failure => this.sendEvent('output', { category: 'stderr', output: `${failure.message}\n${failure.details ? `${failure.details}\n` : ''}` })),
+			sclang.onDidChangeState(state => {
+				if ((state === 'stopped' || state === 'crashed') && !sclang.isRunning) {
+					this.sendTerminated();
+				}
+			})
+		);
+		sclang.start();
+		this.respond(request);
+
+		await this.configurationDone;
+		// Paths in the program resolve from its file, as when sclang loads it
+		sclang.evaluate(`thisProcess.nowExecutingPath = ${quote(program)};`);
+		// Regions run one after the other, as when they are evaluated in turn in the editor
+		const text = document.getText();
+		for (const span of splitRegions(text)) {
+			const evaluation = await sclang.evaluate(text.substring(span.start, span.end));
+			if (!evaluation) {
+				// The class library failed to compile, or sclang exited
+				await this.shutdown();
+				return;
+			}
+			const [error] = parseSclangErrors(evaluation.output);
+			if (error) {
+				this.exception = { error, frames: getStackFrames(error, program, document.positionAt(span.start)) };
+				this.sendEvent('stopped', { reason: 'exception', description: error.message, text: error.message, threadId: THREAD_ID, allThreadsStopped: true });
+				await new Promise<void>(resolve => this.resume = resolve);
+				this.resume = undefined;
+				if (this.terminated) {
+					return;
+				}
+			}
+		}
+	}
+
+	/** Evaluates code typed in the Debug Console, watch expressions could have side effects. */
+	private async evaluate(request: Request): Promise<void> {
+		const { expression, context } = request.arguments as { expression: string; context?: string };
+		if (context !== 'repl' || !this.sclang?.isRunning) {
+			throw new Error(this.sclang?.isRunning ? 'Code is only evaluated in the Debug Console' : 'sclang is not running');
+		}
+		const evaluation = await this.sclang.evaluate(expression);
+		if (!evaluation) {
+			throw new Error('sclang stopped before evaluating the code');
+		}
+		const [error] = parseSclangErrors(evaluation.output);
+		if (error) {
+			throw new Error(error.message);
+		}
+		this.respond(request, { result: evaluation.result ?? '', variablesReference: 0 });
+	}
+
+	/** Quits the audio server unless the configuration says otherwise, then sclang, and ends the session. */
+	private async shutdown(): Promise<void> {
+		const sclang = this.sclang;
+		if (sclang?.isRunning) {
+			if (this.configuration?.quitServer !== false && sclang.state === 'ready') {
+				let timer: ReturnType<typeof setTimeout> | undefined;
+				await Promise.race([sclang.evaluate('s.quit;'), new Promise(resolve => timer = setTimeout(resolve, QUIT_TIMEOUT))]);
+				clearTimeout(timer);
+			}
+			await sclang.stop();
+		}
+		this.sendTerminated();
+	}
+
+	private sendTerminated(): void {
+		if (!this.terminated) {
+			this.terminated = true;
+			this.sendEvent('terminated');
+		}
+		this.resume?.();
+	}
+
+	private respond(request: Request, body?: unknown, message?: string): void {
+		this.send({ type: 'response', request_seq: request.seq, command: request.command, success: !message, message, body });
+	}
+
+	private sendEvent(event: string, body?: unknown): void {
+		this.send({ type: 'event', event, body });
+	}
+
+	private send(message: Record<string, unknown>): void {
+		this.messageEmitter.fire({ seq: this.nextSeq++, ...message });
+	}
+}
+
+/**
+ * Runs the active `.scd` file without a launch configuration, or with one that does not name a file.
+ * Relative paths of the configuration start from its workspace folder.
+ */
+export class SclangDebugConfigurationProvider implements DebugConfigurationProvider {
+	resolveDebugConfiguration(folder: WorkspaceFolder | undefined, configuration: DebugConfiguration): DebugConfiguration | undefined {
+		const document = window.activeTextEditor?.document;
+		if (!configuration.type && !configuration.request && !configuration.name) {
+			configuration = { type: 'supercollider', request: 'launch', name: 'Run SuperCollider File' };
+		}
+		if (!configuration.program) {
+			if (document?.languageId !== 'supercollider' || document.isUntitled) {
+				window.showErrorMessage('Open a saved .scd file to run it, or set "program" in the launch configuration.');
+				return undefined;
+			}
+			configuration.program = document.fileName;
+		}
+		if (folder) {
+			configuration.program = path.resolve(folder.uri.fsPath, configuration.program);
+			if (configuration.cwd) {
+				configuration.cwd = path.resolve(folder.uri.fsPath, configuration.cwd);
+			}
+		}
+		return configuration;
+	}
+}
@@ -0,0 +1,159 @@
+/* --------------------------------------------------------------------------------------------
+ * Evaluation feedback in the editor: a flash of the code that was sent and its result after it.
+ * ------------------------------------------------------------------------------------------ */
+
+import {
+	DecorationOptions,
+	Disposable,
+	MarkdownString,
+	Range,
+	TextDocument,
+	TextEditor,
+	TextEditorDecorationType,
+	ThemeColor,
+	window,
+	workspace
+} from 'vscode';
+
+export type ResultDisplay = 'off' | 'inline' | 'hover' | 'both';
+
+interface EvaluationSettings {
+	flashDuration: number;
+	showResults: ResultDisplay;
+	resultDuration: number;
+}
+
+interface ShownResult {
+	range: Range;
+	result: string;
+	display: ResultDisplay;
+	timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Longest result shown after the code, the hover has all of it. */
+const MAX_INLINE_LENGTH = 120;
+
+function getSettings(document: TextDocument): EvaluationSettings {
+	const config = workspace.getConfiguration('supercollider.evaluation', document);
+	return {
+		flashDuration: config.get<number>('flashDuration', 300),
+		showResults: config.get<ResultDisplay>('showResults', 'both'),
+		resultDuration: config.get<number>('resultDuration', 0)
+	};
+}
+
+function formatInline(result: string): string {
+	const text = result.replace(/\s*\n\s*/g, ' ⏎ ');
+	return text.length > MAX_INLINE_LENGTH ? text.substring(0, MAX_INLINE_LENGTH - 1) + '…' : text;
+}
+
+export class EvaluationDecorations implements Disposable {
+	private readonly flashType: TextEditorDecorationType = window.createTextEditorDecorationType({
+		backgroundColor: new ThemeColor('editor.findMatchHighlightBackground')
+	});
+	private readonly resultType: TextEditorDecorationType = window.createTextEditorDecorationType({
+		after: {
+			margin: '0 0 0 1em',
+			color: new ThemeColor('editorCodeLens.foreground'),
+			fontStyle: 'italic'
+		}
+	});
+	private readonly hoverType: TextEditorDecorationType = window.createTextEditorDecorationType({});
+	/** Results shown in each document, by URI. */
+	private readonly results = new Map<string, ShownResult[]>();
+	private readonly disposables: Disposable[] = [];
+
+	constructor() {
+		this.disposables.push(
+			// Results go away when their code is edited or moved
+			workspace.onDidChangeTextDocument(event => {
+				this.removeResults(event.document, shown => event.contentChanges.some(change => change.range.start.line <= shown.range.end.line));
+			}),
+			workspace.onDidCloseTextDocument(document => this.clearResults(document)),
+			window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.render(editor)))
+		);
+	}
+
+	/** Highlights `range` briefly, as it is sent to sclang. */
+	flash(document: TextDocument, range: Range): void {
+		const { flashDuration } = getSettings(document);
+		if (flashDuration <= 0) {
+			return;
+		}
+		const editors = this.getEditors(document);
+		editors.forEach(editor => editor.setDecorations(this.flashType, [range]));
+		setTimeout(() => editors.forEach(editor => editor.setDecorations(this.flashType, [])), flashDuration);
+	}
+
+	/** Shows the result of the code in `range`, replacing the results of code it overlaps. */
+	showResult(document: TextDocument, range: Range, result: string): void {
+		const { showResults, resultDuration } = getSettings(document);
+		this.clearResults(document, [range]);
+		if (showResults === 'off') {
+			return;
+		}
+		const shown: ShownResult = { range, result, display: showResults };
+		if (resultDuration > 0) {
+			shown.timer = setTimeout(() => this.removeResults(document, other => other === shown), resultDuration);
+		}
+		const key = document.uri.toString();
+		this.results.set(key, [...this.results.get(key) ?? [], shown]);
+		this.getEditors(document).forEach(editor => this.render(editor));
+	}
+
+	dispose(): void {
+		this.results.forEach(results => results.forEach(shown => clearTimeout(shown.timer)));
+		this.results.clear();
+		this.flashType.dispose();
+		this.resultType.dispose();
+		this.hoverType.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private getEditors(document: TextDocument): TextEditor[] {
+		return window.visibleTextEditors.filter(editor => editor.document === document);
+	}
+
+	/** Removes the results of code that `ranges` touch, or all results of the document. */
+	private clearResults(document: TextDocument, ranges?: Range[]): void {
+		this.removeResults(document, shown => !ranges || ranges.some(range =>
+			range.start.line <= shown.range.end.line && shown.range.start.line <= range.end.line));
+	}
+
+	private removeResults(document: TextDocument, predicate: (shown: ShownResult) => boolean): void {
+		const key = document.uri.toString();
+		const results = this.results.get(key) ?? [];
+		const removed = results.filter(predicate);
+		if (removed.length === 0) {
+			return;
+		}
+		removed.forEach(shown => clearTimeout(shown.timer));
+		const kept = results.filter(shown => !removed.includes(shown));
+		if (kept.length > 0) {
+			this.results.set(key, kept);
+		} else {
+			this.results.delete(key);
+		}
+		this.getEditors(document).forEach(editor => this.render(editor));
+	}
+
+	private render(editor: TextEditor): void {
+		const results = this.results.get(editor.document.uri.toString()) ?? [];
+		const inline: DecorationOptions[] = [];
+		const hovers: DecorationOptions[] = [];
+		for (const shown of results) {
+			if (shown.display === 'inline' || shown.display === 'both') {
+				const end = editor.document.lineAt(shown.range.end.line).range.end;
+				inline.push({
+					range: new Range(end, end),
+					renderOptions: { after: { contentText: `→ ${formatInline(shown.result)}` } }
+				});
+			}
+			if (shown.display === 'hover' || shown.display === 'both') {
+				hovers.push({ range: shown.range, hoverMessage: new MarkdownString().appendCodeblock(shown.result, 'supercollider') });
+			}
+		}
+		editor.setDecorations(this.resultType, inline);
+		editor.setDecorations(this.hoverType, hovers);
+	}
+}
@@ -0,0 +1,239 @@
+/* --------------------------------------------------------------------------------------------
+ * Evaluation history: every evaluation with its source location, result or error, kept in the
+ * workspace state and shown as a tree of sessions.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as path from 'path';
+import {
+	commands,
+	Disposable,
+	Event,
+	EventEmitter,
+	MarkdownString,
+	Memento,
+	ProviderResult,
+	Range,
+	Selection,
+	TextDocumentContentProvider,
+	TextEditorRevealType,
+	ThemeColor,
+	ThemeIcon,
+	TreeDataProvider,
+	TreeItem,
+	TreeItemCollapsibleState,
+	Uri,
+	window,
+	workspace
+} from 'vscode';
+
+export interface HistoryEntry {
+	id: number;
+	/** Start of the VS Code session the code was evaluated in. */
+	session: number;
+	timestamp: number;
+	code: string;
+	uri?: string;
+	range?: { start: { line: number; character: number }; end: { line: number; character: number } };
+	result?: string;
+	error?: string;
+}
+
+export type HistoryElement =
+	| { kind: 'session'; session: number; entries: HistoryEntry[] }
+	| { kind: 'entry'; entry: HistoryEntry };
+
+const STATE_KEY = 'supercollider.evaluationHistory';
+/** Scheme of the evaluated and current code shown side by side by the diff command. */
+const DIFF_SCHEME = 'supercollider-history';
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+function formatDate(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatTime(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function toRange(range: NonNullable<HistoryEntry['range']>): Range {
+	return new Range(range.start.line, range.start.character, range.end.line, range.end.character);
+}
+
+function getLocation(entry: HistoryEntry): string | undefined {
+	return entry.uri && entry.range ? `${path.basename(Uri.parse(entry.uri).fsPath)}:${entry.range.start.line + 1}` : undefined;
+}
+
+export class EvaluationHistory implements TreeDataProvider<HistoryElement>, TextDocumentContentProvider, Disposable {
+	private entries: HistoryEntry[];
+	private readonly session = Date.now();
+	private readonly changeEmitter = new EventEmitter<HistoryElement | undefined>();
+	private readonly disposables: Disposable[] = [];
+
+	readonly onDidChangeTreeData: Event<HistoryElement | undefined> = this.changeEmitter.event;
+
+	constructor(private readonly state: Memento) {
+		this.entries = state.get<HistoryEntry[]>(STATE_KEY, []);
+		this.disposables.push(
+			window.createTreeView('supercollider.evaluationHistory', { treeDataProvider: this }),
+			workspace.registerTextDocumentContentProvider(DIFF_SCHEME, this)
+		);
+	}
+
+	/** Records an evaluation, the oldest entries go beyond `supercollider.history.maxEntries`. */
+	add(entry: Omit<HistoryEntry, 'id' | 'session' | 'timestamp'>, timestamp = Date.now()): void {
+		const id = (this.entries[this.entries.length - 1]?.id ?? 0) + 1;
+		const maxEntries = Math.max(1, workspace.getConfiguration('supercollider.history').get<number>('maxEntries', 1000));
+		this.entries = [...this.entries, { ...entry, id, session: this.session, timestamp }].slice(-maxEntries);
+		this.save();
+	}
+
+	async clear(): Promise<void> {
+		const answer = await window.showWarningMessage('Clear the evaluation history of all sessions?', { modal: true }, 'Clear');
+		if (answer === 'Clear') {
+			this.entries = [];
+			this.save();
+		}
+	}
+
+	/** Opens the document of an entry with its code selected. */
+	async reveal(entry: HistoryEntry): Promise<void> {
+		if (!entry.uri || !entry.range) {
+			window.showInformationMessage('This evaluation was not sent from a document.');
+			return;
+		}
+		const range = toRange(entry.range);
+		const editor = await window.showTextDocument(Uri.parse(entry.uri), { preview: false });
+		editor.selection = new Selection(range.start, range.end);
+		editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
+	}
+
+	/** Compares the evaluated code with the text now at its location. */
+	async diff(entry: HistoryEntry): Promise<void> {
+		if (!entry.uri || !entry.range) {
+			window.showInformationMessage('This evaluation was not sent from a document.');
+			return;
+		}
+		const name = path.basename(Uri.parse(entry.uri).fsPath);
+		const evaluated = Uri.from({ scheme: DIFF_SCHEME, path: `/${entry.id}/${name}`, query: 'evaluated' });
+		const current = Uri.from({ scheme: DIFF_SCHEME, path: `/${entry.id}/${name}`, query: 'current' });
+		await commands.executeCommand('vscode.diff', evaluated, current, `${name} (evaluated ${formatTime(entry.timestamp)}) ↔ Current`);
+	}
+
+	/** Saves the evaluations of a session as `.scd` code, each with its time, location and result. */
+	async export(element?: HistoryElement): Promise<void> {
+		let session = element?.kind === 'session' ? element.session : element?.entry.session;
+		if (session === undefined) {
+			const sessions = this.getSessions();
+			if (sessions.length === 0) {
+				window.showInformationMessage('There are no evaluations to export.');
+				return;
+			}
+			const picked = await window.showQuickPick(sessions.map(({ session, entries }) => ({
+				label: `${formatDate(session)} ${formatTime(session)}`,
+				description: `${entries.length} evaluations`,
+				session
+			})), { placeHolder: 'Session to export' });
+			session = picked?.session;
+		}
+		if (session === undefined) {
+			return;
+		}
+		const entries = this.entries.filter(entry => entry.session === session);
+		const name = `session-${formatDate(session)}-${formatTime(session).replace(/:/g, '')}.scd`;
+		const folder = workspace.workspaceFolders?.[0]?.uri;
+		const uri = await window.showSaveDialog({
+			defaultUri: folder ? Uri.joinPath(folder, name) : undefined,
+			filters: { SuperCollider: ['scd'] }
+		});
+		if (!uri) {
+			return;
+		}
+		const log = [
+			`// SuperCollider session of ${formatDate(session)} ${formatTime(session)}, ${entries.length} evaluations`,
+			...entries.map(entry => [
+				'',
+				`// ${formatDate(entry.timestamp)} ${formatTime(entry.timestamp)}${getLocation(entry) ? ` ${getLocation(entry)}` : ''}`,
+				entry.code,
+				...(entry.error ? [`// ERROR: ${entry.error}`] : entry.result !== undefined ? entry.result.split('\n').map((line, index) => `// ${index === 0 ? '-> ' : ''}${line}`) : [])
+			].join('\n'))
+		].join('\n') + '\n';
+		await workspace.fs.writeFile(uri, Buffer.from(log, 'utf8'));
+		window.showInformationMessage(`Exported ${entries.length} evaluations to ${path.basename(uri.fsPath)}.`);
+	}
+
+	provideTextDocumentContent(uri: Uri): ProviderResult<string> {
+		const entry = this.entries.find(entry => entry.id === Number(uri.path.split('/')[1]));
+		if (!entry) {
+			return '';
+		}
+		if (uri.query === 'evaluated' || !entry.uri || !entry.range) {
+			return entry.code;
+		}
+		const document = workspace.textDocuments.find(document => document.uri.toString() === entry.uri);
+		if (document) {
+			return document.getText(document.validateRange(toRange(entry.range)));
+		}
+		return workspace.openTextDocument(Uri.parse(entry.uri)).then(
+			document => document.getText(document.validateRange(toRange(entry.range!))),
+			() => '');
+	}
+
+	getTreeItem(element: HistoryElement): TreeItem {
+		if (element.kind === 'session') {
+			const current = element.session === this.session;
+			const item = new TreeItem(`${formatDate(element.session)} ${formatTime(element.session)}`,
+				current ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.Collapsed);
+			item.id = `session-${element.session}`;
+			item.description = `${current ? 'current, ' : ''}${element.entries.length} evaluations`;
+			item.iconPath = new ThemeIcon('history');
+			item.contextValue = 'session';
+			return item;
+		}
+		const { entry } = element;
+		const firstLine = entry.code.split('\n').find(line => line.trim() && line.trim() !== '(')?.trim() ?? entry.code.trim();
+		const item = new TreeItem(firstLine, TreeItemCollapsibleState.None);
+		item.id = `entry-${entry.id}`;
+		item.description = [formatTime(entry.timestamp), getLocation(entry)].filter(part => part).join(' ');
+		item.iconPath = entry.error ? new ThemeIcon('error', new ThemeColor('errorForeground')) : new ThemeIcon('play');
+		item.tooltip = new MarkdownString().appendCodeblock(entry.code, 'supercollider');
+		if (entry.error) {
+			item.tooltip.appendMarkdown('**ERROR:** ').appendText(entry.error);
+		} else if (entry.result !== undefined) {
+			item.tooltip.appendMarkdown('**Result:**').appendCodeblock(entry.result, 'supercollider');
+		}
+		item.contextValue = entry.uri ? 'entry.located' : 'entry';
+		item.command = { command: 'supercollider.history.reveal', title: 'Go to Location', arguments: [element] };
+		return item;
+	}
+
+	getChildren(element?: HistoryElement): HistoryElement[] {
+		if (!element) {
+			return this.getSessions().map(({ session, entries }) => ({ kind: 'session', session, entries }));
+		}
+		return element.kind === 'session' ? [...element.entries].reverse().map(entry => ({ kind: 'entry', entry })) : [];
+	}
+
+	dispose(): void {
+		this.changeEmitter.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	/** Sessions with their entries, newest first. */
+	private getSessions(): { session: number; entries: HistoryEntry[] }[] {
+		const sessions = new Map<number, HistoryEntry[]>();
+		for (const entry of this.entries) {
+			sessions.set(entry.session, [...sessions.get(entry.session) ?? [], entry]);
+		}
+		return [...sessions].map(([session, entries]) => ({ session, entries })).sort((a, b) => b.session - a.session);
+	}
+
+	private save(): void {
+		this.state.update(STATE_KEY, this.entries);
+		this.changeEmitter.fire(undefined);
+	}
+}
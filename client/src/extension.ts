@@ -4,7 +4,6 @@
  * ------------------------------------------------------------------------------------------ */
 
 import * as path from 'path';
-import { spawn, ChildProcess } from 'child_process';
 import {
 	ExtensionContext,
 	window,
@@ -12,9 +11,18 @@ import {
 	workspace,
 	TextEditor,
 	TextDocument,
-	Position,
 	Range,
-	OutputChannel
+	Selection,
+	TextEditorRevealType,
+	Uri,
+	languages,
+	OutputChannel,
+	MarkdownString,
+	StatusBarAlignment,
+	StatusBarItem,
+	ThemeColor,
+	debug,
+	DebugAdapterInlineImplementation
 } from 'vscode';
 
 import {
@@ -22,260 +30,240 @@ import {
 	LanguageClientOptions,
 	ServerOptions,
 	TransportKind
-} from 'vscode-languageclient';
+} from 'vscode-languageclient/node';
+import { findCodeBlock, findRegions, RegionCodeLensProvider, RegionError, splitRegions, wrapForPost } from './codeRegions';
+import { SclangDebugAdapter, SclangDebugConfigurationProvider } from './debugAdapter';
+import { EvaluationDecorations } from './evaluationDecorations';
+import { EvaluationHistory, HistoryElement, HistoryEntry } from './evaluationHistory';
+import { HelpBrowser } from './helpBrowser';
+import { NodeTreeElement, NodeTreeProvider } from './nodeTree';
+import { PostWindow } from './postWindow';
+import { Sclang, SclangFailure, SclangState } from './sclang';
+import { getBridgeAddress, getBridgeSettings } from './sclangBridge';
+import { getServerSettings, ScsynthClient, ServerStatus } from './scsynth';
+import { EvaluatedCode, EvaluationDiagnostics, parseSclangErrors } from './sclangErrors';
 
 let client: LanguageClient;
-let sclangProcess: ChildProcess | null = null;
+let sclang: Sclang;
 let sclangOutput: OutputChannel;
-let postWindowOutput: OutputChannel;
-
-// Get sclang path from configuration
-function getSclangPath(): string {
-	const config = workspace.getConfiguration('supercollider');
-	return config.get<string>('sclangPath') || 'sclang';
+let postWindow: PostWindow;
+let sclangStatus: StatusBarItem;
+let evaluationDiagnostics: EvaluationDiagnostics;
+let evaluationDecorations: EvaluationDecorations;
+let evaluationHistory: EvaluationHistory;
+let scsynth: ScsynthClient;
+let serverStatus: StatusBarItem;
+
+const STATE_LABELS: Record<SclangState, string> = {
+	stopped: '$(debug-stop) sclang',
+	starting: '$(loading~spin) sclang',
+	compiling: '$(loading~spin) sclang compiling',
+	ready: '$(check) sclang',
+	crashed: '$(error) sclang'
+};
+
+const STATE_TOOLTIPS: Record<SclangState, string> = {
+	stopped: 'sclang is not running, click to start it',
+	starting: 'sclang is starting',
+	compiling: 'sclang is compiling the class library',
+	ready: 'sclang is ready, click to show the post window',
+	crashed: 'sclang crashed or its class library failed to compile, click to restart it'
+};
+
+// Show the interpreter state in the status bar
+function updateSclangStatus(state: SclangState): void {
+	sclangStatus.text = STATE_LABELS[state];
+	const connection = workspace.getConfiguration('supercollider.connection');
+	sclangStatus.tooltip = connection.get<string>('mode') === 'attach'
+		? `${STATE_TOOLTIPS[state]} (attached through ${getBridgeAddress(getBridgeSettings())})`
+		: STATE_TOOLTIPS[state];
+	sclangStatus.backgroundColor = state === 'crashed' ? new ThemeColor('statusBarItem.errorBackground') : undefined;
+	sclangStatus.command = state === 'stopped' ? 'supercollider.startSclang' : state === 'crashed' ? 'supercollider.restartSclang' : 'supercollider.showPostWindow';
 }
 
-// Start sclang process
-function startSclang(fallbackToExe: boolean = true): boolean {
-	if (sclangProcess && !sclangProcess.killed) {
-		sclangOutput.appendLine('[SuperCollider] sclang already running');
-		return true;
+// Report start and class library compile failures
+async function showSclangFailure(failure: SclangFailure): Promise<void> {
+	if (failure.details) {
+		sclangOutput.appendLine(`[SuperCollider] ${failure.message}:\n${failure.details}`);
 	}
-
-	let sclangPath = getSclangPath();
-    // If we are retrying with .exe
-    if (fallbackToExe && sclangPath === 'sclang' && process.platform === 'linux' && !sclangProcess) {
-       // We will try the default path first, but if it fails, the error handler will trigger the fallback
-       // actually, it's easier to handle this inside the error handler of the first attempt?
-       // Let's stick to the configuration path first.
-    }
-
-	sclangOutput.appendLine(`[SuperCollider] Starting sclang: ${sclangPath}`);
-
-	try {
-        const spawnProcess = (path: string) => {
-            const proc = spawn(path, ['-i', 'vscode'], {
-                stdio: ['pipe', 'pipe', 'pipe']
-            });
-
-            proc.on('error', (err) => {
-                sclangOutput.appendLine(`[SuperCollider] Error spawning ${path}: ${err.message}`);
-
-                // Fallback logic: if failed on 'sclang' and on linux/WSL, try 'sclang.exe'
-                if (path === 'sclang' && fallbackToExe && (process.platform === 'linux' || process.platform === 'win32')) {
-                    sclangOutput.appendLine('[SuperCollider] Attempting fallback to sclang.exe...');
-                    sclangProcess = spawnProcess('sclang.exe');
-                    return;
-                }
-
-                window.showErrorMessage(`Failed to start sclang (${path}): ${err.message}. Check supercollider.sclangPath setting.`);
-                sclangProcess = null;
-            });
-
-            proc.stdout?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                postWindowOutput.append(text);
-                // If we get output, it started successfully
-            });
-
-            proc.stderr?.on('data', (data: Buffer) => {
-                const text = data.toString();
-                postWindowOutput.append(text);
-            });
-
-            proc.on('exit', (code) => {
-                sclangOutput.appendLine(`[SuperCollider] sclang exited with code ${code}`);
-                sclangProcess = null;
-            });
-
-            return proc;
-        };
-
-		sclangProcess = spawnProcess(sclangPath);
-
-        // We can't guarantee success immediately due to async error reporting of spawn,
-        // but we can assume it's "starting".
-		sclangOutput.appendLine('[SuperCollider] sclang process spawned, waiting for output...');
-		postWindowOutput.show(true);
-		return true;
-	} catch (err) {
-		sclangOutput.appendLine(`[SuperCollider] Failed to start sclang: ${err}`);
-		window.showErrorMessage(`Failed to start sclang. Make sure SuperCollider is installed and sclangPath is configured.`);
-		return false;
+	const firstError = failure.details?.split('\n')[0];
+	const message = firstError ? `${failure.message}: ${firstError}` : failure.message;
+	const action = await window.showErrorMessage(message, ...(failure.details ? ['Show Post Window', 'Recompile'] : []));
+	if (action === 'Show Post Window') {
+		postWindow.show();
+	} else if (action === 'Recompile') {
+		sclang.recompile();
 	}
 }
 
-// Stop sclang process
-function stopSclang(): void {
-	if (sclangProcess && !sclangProcess.killed) {
-		sclangOutput.appendLine('[SuperCollider] Stopping sclang...');
-		sclangProcess.kill();
-		sclangProcess = null;
-		sclangOutput.appendLine('[SuperCollider] sclang stopped');
+// Send code to sclang, it runs once the class library is compiled. Errors of code from a
+// document are shown on it. With post, its value is also printed in the post window.
+async function executeCode(code: string, document?: TextDocument, range?: Range, post = false): Promise<void> {
+	// Clean up the code
+	const cleanCode = code.trim();
+	if (!cleanCode) {
+		return;
 	}
-}
 
-// Send code to sclang for execution
-function executeCode(code: string): void {
-	if (!sclangProcess || sclangProcess.killed) {
-		if (!startSclang()) {
-			return;
+	postWindow.appendEcho(cleanCode);
+	if (sclang.state === 'stopped') {
+		postWindow.show();
+	}
+	let source: EvaluatedCode | undefined;
+	if (document && range) {
+		const start = document.offsetAt(range.start) + code.length - code.trimStart().length;
+		source = { document, range: new Range(document.positionAt(start), document.positionAt(start + cleanCode.length)) };
+		evaluationDecorations.flash(document, source.range);
+	}
+	const timestamp = Date.now();
+	const evaluation = await sclang.evaluate(post ? wrapForPost(cleanCode) : cleanCode);
+	const errors = evaluation ? parseSclangErrors(evaluation.output) : [];
+	evaluationHistory.add({
+		code: cleanCode,
+		uri: source?.document.uri.toString(),
+		range: source && {
+			start: { line: source.range.start.line, character: source.range.start.character },
+			end: { line: source.range.end.line, character: source.range.end.character }
+		},
+		result: evaluation?.result,
+		error: evaluation ? errors[0]?.message : 'sclang stopped before evaluating the code'
+	}, timestamp);
+	if (evaluation && source) {
+		evaluationDiagnostics.update(source, errors);
+		if (evaluation.result !== undefined) {
+			evaluationDecorations.showResult(source.document, source.range, evaluation.result);
 		}
-		// Wait a bit for sclang to initialize
-		setTimeout(() => {
-			sendCode(code);
-		}, 1000);
+	}
+}
+
+// Evaluate a history entry again, from its document when the code is still there
+async function rerunHistoryEntry(entry: HistoryEntry): Promise<void> {
+	const document = entry.uri ? workspace.textDocuments.find(document => document.uri.toString() === entry.uri) : undefined;
+	const range = document && entry.range && document.validateRange(new Range(
+		entry.range.start.line, entry.range.start.character, entry.range.end.line, entry.range.end.character));
+	if (document && range && document.getText(range) === entry.code) {
+		await executeCode(entry.code, document, range);
 	} else {
-		sendCode(code);
+		await executeCode(entry.code);
 	}
 }
 
-function sendCode(code: string): void {
-	if (!sclangProcess || !sclangProcess.stdin) {
-		window.showErrorMessage('sclang is not running');
-		return;
+// The selection, or the region or line at the cursor. An unbalanced region is reported instead.
+function getBlockRange(editor: TextEditor): Range | undefined {
+	const document = editor.document;
+	const selection = editor.selection;
+
+	if (!selection.isEmpty) {
+		// Execute selected text
+		sclangOutput.appendLine(`[DEBUG] Selected text: "${document.getText(selection)}"`);
+		return selection;
 	}
 
-	// Clean up the code
-	const cleanCode = code.trim();
-	if (!cleanCode) {
-		return;
+	// Find enclosing block or current line
+	sclangOutput.appendLine(`[DEBUG] Cursor at line ${selection.active.line}, char ${selection.active.character}`);
+	const block = findCodeBlock(document, selection.active);
+	if (block instanceof Range) {
+		sclangOutput.appendLine(`[DEBUG] Block found: "${document.getText(block)}"`);
+		return block;
 	}
+	showRegionError(document, block);
+	return undefined;
+}
 
-	postWindowOutput.appendLine(`\n-> ${cleanCode.split('\n')[0]}${cleanCode.includes('\n') ? '...' : ''}`);
+// Report a region that cannot be evaluated, offering to go to the bracket at fault
+async function showRegionError(document: TextDocument, error: RegionError): Promise<void> {
+	const { line, character } = error.position;
+	const action = await window.showErrorMessage(`Unbalanced region: ${error.message} at line ${line + 1}, column ${character + 1}.`, 'Go to Bracket');
+	if (action === 'Go to Bracket') {
+		const editor = await window.showTextDocument(document);
+		editor.selection = new Selection(error.position, error.position);
+		editor.revealRange(new Range(error.position, error.position), TextEditorRevealType.InCenterIfOutsideViewport);
+	}
+}
 
-	// Send code followed by 0x1b (escape) to execute
-	sclangProcess.stdin.write(cleanCode + '\x1b');
+// Execute block command
+function executeBlockCommand(editor: TextEditor): void {
+	const range = getBlockRange(editor);
+	if (range) {
+		executeCode(editor.document.getText(range), editor.document, range);
+	}
 }
 
-// Find the code block containing the cursor
-function findCodeBlock(document: TextDocument, position: Position): string | null {
-	const text = document.getText();
-	const offset = document.offsetAt(position);
-
-    // Helper to check if the character is at the start of the line (ignoring whitespace)
-    const isStartOfLine = (index: number): boolean => {
-        for (let j = index - 1; j >= 0; j--) {
-            const char = text[j];
-			if (char === '\n' || char === '\r') {
-				return true;
-			}
-            if (char === ' ' || char === '\t') {
-				continue;
-			}
-            return false;
-        }
-        return true;
-    };
-
-    // Helper to find matching closing parenthesis for a given start
-    const findMatchingClosing = (startIndex: number): number => {
-        let depth = 0;
-        for (let i = startIndex; i < text.length; i++) {
-            const char = text[i];
-            if (char === '(') {
-                depth++;
-            } else if (char === ')') {
-                depth--;
-                if (depth === 0) {
-                    return i;
-                }
-            }
-        }
-        return -1;
-    };
-
-    // Helper to check if the closing parenthesis is a valid Region End
-    // Must be followed by whitespace, newline, ';', or EOF.
-    // If it is followed by '.', it is NOT a region end.
-    const isValidRegionEnd = (endIndex: number): boolean => {
-        for (let i = endIndex + 1; i < text.length; i++) {
-            const char = text[i];
-            if (char === ' ' || char === '\t') {
-                continue;
-            }
-            if (char === '\n' || char === '\r' || char === ';') {
-                return true;
-            }
-            // Found something else (like '.') on the same line
-            return false;
-        }
-        // EOF
-        return true;
-    };
-
-	// Scan backwards for potential block starts
-    let depth = 0;
-	for (let i = offset; i >= 0; i--) {
-		const char = text[i];
-		if (char === ')') {
-			depth++;
-		} else if (char === '(') {
-			depth--;
-
-            // A 'start' candidate must be at start of line
-			if (isStartOfLine(i)) {
-                // And it must enclose us (depth < 0) OR be the block we are closing (depth == 0 if we were at the end)
-                if (depth <= 0) {
-                     // Potential Candidate found.
-                     // Verify it has a valid End.
-                     const closeIndex = findMatchingClosing(i);
-                     if (closeIndex !== -1) {
-                         // We found the closing paren.
-
-                         // Check 1: Is it a valid Region End?
-                         if (!isValidRegionEnd(closeIndex)) {
-                             // Not a valid region end (e.g. (..).postln). Continue searching.
-                             continue;
-                         }
-
-                         // Check 2: Does it contain the cursor?
-                         // It contains the cursor if closeIndex >= offset
-                         // OR if we allow the cursor to be strictly on the SAME LINE as the closing paren.
-                         // (User scenario: cursor is at the end of the line containing ')')
-                         const closePos = document.positionAt(closeIndex);
-                         const isCursorInsideOrOnEndLine = (closeIndex >= offset) || (closePos.line === position.line);
-
-                         if (isCursorInsideOrOnEndLine) {
-                             // Success!
-                             return text.substring(i, closeIndex + 1);
-                         }
-                     }
-                }
-            }
-		}
+// Execute the block and post its value
+function executeAndPostCommand(editor: TextEditor): void {
+	const range = getBlockRange(editor);
+	if (range) {
+		executeCode(editor.document.getText(range), editor.document, range, true);
 	}
+}
 
-	// No block found, return current line
-	const line = document.lineAt(position.line);
-	return line.text.trim();
+// Execute the selection, or the current line even inside a region
+function executeLineCommand(editor: TextEditor): void {
+	const range = editor.selection.isEmpty ? editor.document.lineAt(editor.selection.active.line).range : editor.selection;
+	executeCode(editor.document.getText(range), editor.document, range);
 }
 
-// Execute block command
-function executeBlockCommand(editor: TextEditor): void {
+// Execute the whole document a region at a time, sclang takes one `( var ... )` block per evaluation
+function executeFileCommand(editor: TextEditor): void {
 	const document = editor.document;
-	const selection = editor.selection;
+	for (const span of splitRegions(document.getText())) {
+		const range = new Range(document.positionAt(span.start), document.positionAt(span.end));
+		executeCode(document.getText(range), document, range);
+	}
+}
 
-	let code: string;
+// Execute the region above or below the one at the cursor, and move the cursor to it so that
+// repeating the command steps through the document
+function executeAdjacentRegion(editor: TextEditor, direction: 'above' | 'below'): void {
+	const regions = findRegions(editor.document);
+	const cursor = editor.selection.active;
+	const region = direction === 'above'
+		? [...regions].reverse().find(region => region.end.isBefore(cursor) && !region.contains(cursor))
+		: regions.find(region => region.start.isAfter(cursor));
+	if (!region) {
+		window.showInformationMessage(`No region ${direction} the cursor.`);
+		return;
+	}
+	editor.selection = new Selection(region.start, region.start);
+	editor.revealRange(region, TextEditorRevealType.InCenterIfOutsideViewport);
+	executeCode(editor.document.getText(region), editor.document, region);
+}
 
-	if (!selection.isEmpty) {
-		// Execute selected text
-		code = document.getText(selection);
-		sclangOutput.appendLine(`[DEBUG] Selected text: "${code}"`);
-	} else {
-		// Find enclosing block or current line
-		sclangOutput.appendLine(`[DEBUG] Cursor at line ${selection.active.line}, char ${selection.active.character}`);
-		const blockCode = findCodeBlock(document, selection.active);
-		if (blockCode) {
-			code = blockCode;
-			sclangOutput.appendLine(`[DEBUG] Block found: "${code}"`);
+// Execute every top-level region of the document in order
+function executeAllRegionsCommand(editor: TextEditor): void {
+	const regions = findRegions(editor.document);
+	if (regions.length === 0) {
+		window.showInformationMessage('No regions in this document.');
+		return;
+	}
+	regions.forEach(region => executeCode(editor.document.getText(region), editor.document, region));
+}
+
+// Execute a range of a document, from the region code lenses
+async function executeRange(uri: Uri, range: Range): Promise<void> {
+	const document = await workspace.openTextDocument(uri);
+	await executeCode(document.getText(range), document, range);
+}
+
+// Open the help browser on a topic, the code under the cursor or a search
+async function openHelp(topic?: string): Promise<void> {
+	const editor = window.activeTextEditor;
+	if (typeof topic !== 'string' && editor && editor.document.languageId === 'supercollider') {
+		if (!editor.selection.isEmpty) {
+			topic = editor.document.getText(editor.selection).trim();
 		} else {
-			code = document.lineAt(selection.active.line).text;
-			sclangOutput.appendLine(`[DEBUG] No block, using line: "${code}"`);
+			const params = client.code2ProtocolConverter.asTextDocumentPositionParams(editor.document, editor.selection.active);
+			topic = await client.sendRequest<string | null>('supercollider/helpTopic', params) ?? undefined;
 		}
 	}
-
-	executeCode(code);
+	if (typeof topic !== 'string' || !topic) {
+		const query = await window.showInputBox({ prompt: 'Search SuperCollider help' });
+		if (!query) {
+			return;
+		}
+		topic = `search:${query}`;
+	}
+	HelpBrowser.open(client, topic);
 }
 
 // Boot SuperCollider server
@@ -298,10 +286,121 @@ function stopAllSounds(): void {
 	executeCode('CmdPeriod.run;');
 }
 
+// Set the server volume in dB
+async function setServerVolume(): Promise<void> {
+	const volume = await window.showInputBox({
+		prompt: 'Server volume in dB',
+		placeHolder: '0',
+		validateInput: value => Number.isFinite(Number(value)) && value.trim() !== '' ? undefined : 'Enter a number of dB, such as -6'
+	});
+	if (volume !== undefined) {
+		executeCode(`s.volume = ${Number(volume)};`);
+	}
+}
+
+// Server actions offered by the server status bar item
+async function showServerMenu(): Promise<void> {
+	const running = !!scsynth.status;
+	const items = [
+		{ label: '$(play) Boot Server', run: bootServer, show: !running },
+		{ label: '$(debug-restart) Reboot Server', run: rebootServer, show: running },
+		{ label: '$(debug-stop) Quit Server', run: killServer, show: running },
+		{ label: '$(unmute) Set Volume...', run: setServerVolume, show: true }
+	];
+	const item = await window.showQuickPick(items.filter(item => item.show), { placeHolder: `scsynth at ${scsynth.address}` });
+	await item?.run();
+}
+
+// Show the server load in the status bar, in red while it is down
+function updateServerStatus(status: ServerStatus | undefined): void {
+	if (!status) {
+		serverStatus.text = '$(circle-slash) scsynth';
+		serverStatus.tooltip = `scsynth is not running at ${scsynth.address}`;
+		serverStatus.backgroundColor = new ThemeColor('statusBarItem.errorBackground');
+		return;
+	}
+	const sampleRate = `${+(status.nominalSampleRate / 1000).toFixed(1)} kHz`;
+	serverStatus.text = `$(pulse) ${status.averageCPU.toFixed(1)}% ${status.peakCPU.toFixed(1)}% ${status.ugens}u ${status.synths}s ${status.groups}g ${status.synthDefs}d ${sampleRate}`;
+	serverStatus.tooltip = new MarkdownString([
+		`**scsynth** at ${scsynth.address}`,
+		'',
+		'| | |',
+		'| --- | --- |',
+		`| Average CPU | ${status.averageCPU.toFixed(2)}% |`,
+		`| Peak CPU | ${status.peakCPU.toFixed(2)}% |`,
+		`| UGens | ${status.ugens} |`,
+		`| Synths | ${status.synths} |`,
+		`| Groups | ${status.groups} |`,
+		`| SynthDefs | ${status.synthDefs} |`,
+		`| Sample rate | ${status.nominalSampleRate} Hz (actual ${status.actualSampleRate.toFixed(2)} Hz) |`
+	].join('\n'));
+	serverStatus.backgroundColor = undefined;
+}
+
 export function activate(context: ExtensionContext) {
 	// Create output channels
 	sclangOutput = window.createOutputChannel('SuperCollider');
-	postWindowOutput = window.createOutputChannel('SuperCollider Post Window');
+	postWindow = new PostWindow();
+
+	// The interpreter, its output goes to the post window
+	sclang = new Sclang(sclangOutput);
+	evaluationDiagnostics = new EvaluationDiagnostics();
+	evaluationDecorations = new EvaluationDecorations();
+	evaluationHistory = new EvaluationHistory(context.workspaceState);
+	sclangStatus = window.createStatusBarItem('supercollider.sclang', StatusBarAlignment.Left, 10);
+	sclangStatus.name = 'SuperCollider Interpreter';
+	updateSclangStatus(sclang.state);
+	sclangStatus.show();
+	context.subscriptions.push(
+		sclang,
+		sclangStatus,
+		evaluationDiagnostics,
+		evaluationDecorations,
+		evaluationHistory,
+		sclang.onDidChangeState(updateSclangStatus),
+		postWindow,
+		sclang.onDidOutput(text => postWindow.append(text)),
+		sclang.onDidFail(showSclangFailure),
+		commands.registerCommand('supercollider.history.rerun', (element: HistoryElement) => element.kind === 'entry' && rerunHistoryEntry(element.entry)),
+		commands.registerCommand('supercollider.history.reveal', (element: HistoryElement) => element.kind === 'entry' && evaluationHistory.reveal(element.entry)),
+		commands.registerCommand('supercollider.history.diff', (element: HistoryElement) => element.kind === 'entry' && evaluationHistory.diff(element.entry)),
+		commands.registerCommand('supercollider.history.export', (element?: HistoryElement) => evaluationHistory.export(element)),
+		commands.registerCommand('supercollider.history.clear', () => evaluationHistory.clear())
+	);
+
+	// The audio server, polled for its status
+	scsynth = new ScsynthClient(getServerSettings());
+	serverStatus = window.createStatusBarItem('supercollider.scsynth', StatusBarAlignment.Left, 9);
+	serverStatus.name = 'SuperCollider Server';
+	serverStatus.command = 'supercollider.serverMenu';
+	updateServerStatus(scsynth.status);
+	serverStatus.show();
+	scsynth.start();
+	const nodeTree = new NodeTreeProvider(scsynth);
+	context.subscriptions.push(
+		scsynth,
+		serverStatus,
+		nodeTree,
+		scsynth.onDidChangeStatus(updateServerStatus),
+		workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('supercollider.server')) {
+				scsynth.configure(getServerSettings());
+			}
+		}),
+		commands.registerCommand('supercollider.nodeTree.refresh', () => nodeTree.refresh()),
+		commands.registerCommand('supercollider.nodeTree.free', (element: NodeTreeElement) => nodeTree.free(element)),
+		commands.registerCommand('supercollider.nodeTree.pause', (element: NodeTreeElement) => nodeTree.setRunning(element, false)),
+		commands.registerCommand('supercollider.nodeTree.run', (element: NodeTreeElement) => nodeTree.setRunning(element, true)),
+		commands.registerCommand('supercollider.nodeTree.setControl', (element: NodeTreeElement) => nodeTree.setControl(element))
+	);
+
+	// Running files under the debugger, each session in an interpreter of its own
+	context.subscriptions.push(
+		debug.registerDebugConfigurationProvider('supercollider', new SclangDebugConfigurationProvider()),
+		debug.registerDebugAdapterDescriptorFactory('supercollider', {
+			createDebugAdapterDescriptor: () => new DebugAdapterInlineImplementation(new SclangDebugAdapter(sclangOutput))
+		})
+	);
 
 	// The server is implemented in node
 	const serverModule = context.asAbsolutePath(
@@ -318,7 +417,16 @@ export function activate(context: ExtensionContext) {
 
 	const clientOptions: LanguageClientOptions = {
 		documentSelector: [{ scheme: 'file', language: 'supercollider' }],
-		outputChannel: sclangOutput
+		outputChannel: sclangOutput,
+		synchronize: {
+			// Settings changes trigger a rescan, code file changes an incremental update
+			configurationSection: 'supercollider',
+			fileEvents: workspace.createFileSystemWatcher('**/*.{sc,scd}')
+		},
+		// Hovers link to the help browser
+		markdown: {
+			isTrusted: { enabledCommands: ['supercollider.openHelp'] }
+		}
 	};
 
 	client = new LanguageClient(
@@ -330,27 +438,47 @@ export function activate(context: ExtensionContext) {
 
 	client.start();
 
-	// Register commands
+	// Register commands, with "▶ Run" lenses above regions
+	const regionCodeLenses = new RegionCodeLensProvider();
 	context.subscriptions.push(
 		commands.registerTextEditorCommand('supercollider.executeBlock', executeBlockCommand),
+		commands.registerTextEditorCommand('supercollider.executeLine', executeLineCommand),
+		commands.registerTextEditorCommand('supercollider.executeFile', executeFileCommand),
+		commands.registerTextEditorCommand('supercollider.executeRegionAbove', editor => executeAdjacentRegion(editor, 'above')),
+		commands.registerTextEditorCommand('supercollider.executeRegionBelow', editor => executeAdjacentRegion(editor, 'below')),
+		commands.registerTextEditorCommand('supercollider.executeAndPost', executeAndPostCommand),
+		commands.registerTextEditorCommand('supercollider.executeAllRegions', executeAllRegionsCommand),
+		commands.registerCommand('supercollider.executeRange', executeRange),
+		regionCodeLenses,
+		languages.registerCodeLensProvider({ language: 'supercollider' }, regionCodeLenses),
 		commands.registerCommand('supercollider.bootServer', bootServer),
 		commands.registerCommand('supercollider.rebootServer', rebootServer),
 		commands.registerCommand('supercollider.killServer', killServer),
 		commands.registerCommand('supercollider.stopAllSounds', stopAllSounds),
+		commands.registerCommand('supercollider.serverMenu', showServerMenu),
+		commands.registerCommand('supercollider.setServerVolume', setServerVolume),
 		commands.registerCommand('supercollider.startSclang', () => {
-			startSclang();
-			postWindowOutput.show(true);
+			sclang.start();
+			postWindow.show();
+		}),
+		commands.registerCommand('supercollider.stopSclang', () => sclang.stop()),
+		commands.registerCommand('supercollider.restartSclang', () => {
+			postWindow.show();
+			return sclang.restart();
 		}),
-		commands.registerCommand('supercollider.stopSclang', stopSclang)
+		commands.registerCommand('supercollider.recompileClassLibrary', () => {
+			postWindow.show();
+			sclang.recompile();
+		}),
+		commands.registerCommand('supercollider.showPostWindow', () => postWindow.show(false)),
+		commands.registerCommand('supercollider.clearPostWindow', () => postWindow.clear()),
+		commands.registerCommand('supercollider.openHelp', openHelp)
 	);
 
 	sclangOutput.appendLine('[SuperCollider] Extension activated');
 }
 
-export function deactivate(): Thenable<void> | undefined {
-	stopSclang();
-	if (!client) {
-		return undefined;
-	}
-	return client.stop();
+export async function deactivate(): Promise<void> {
+	await sclang?.stop();
+	await client?.stop();
 }
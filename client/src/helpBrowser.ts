@@ -0,0 +1,162 @@
+/* --------------------------------------------------------------------------------------------
+ * Help browser: renders the SCDoc help served by the language server in a webview.
+ * ------------------------------------------------------------------------------------------ */
+
+import { randomBytes } from 'crypto';
+import { commands, Disposable, ViewColumn, WebviewPanel, window } from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/node';
+
+interface HelpPage {
+	key: string;
+	title: string;
+	markdown: string;
+}
+
+interface HelpSummary {
+	key: string;
+	title: string;
+	summary: string;
+	categories: string[];
+}
+
+type HelpMessage =
+	| { type: 'search'; query: string }
+	| { type: 'back' };
+
+function helpLink(key: string): string {
+	return `command:supercollider.openHelp?${encodeURIComponent(JSON.stringify([key]))}`;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/[&<>"]/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[ch]!));
+}
+
+export class HelpBrowser {
+	private static current: HelpBrowser | undefined;
+
+	private readonly history: string[] = [];
+	private readonly disposables: Disposable[] = [];
+
+	private constructor(private readonly panel: WebviewPanel, private readonly client: LanguageClient) {
+		this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+		this.panel.webview.onDidReceiveMessage((message: HelpMessage) => {
+			if (message.type === 'search') {
+				this.show(`search:${message.query}`);
+			} else if (message.type === 'back' && this.history.length > 1) {
+				this.history.pop();
+				this.render(this.history[this.history.length - 1]);
+			}
+		}, null, this.disposables);
+	}
+
+	/** Opens `topic`, a help key such as `Classes/SinOsc`, a class name or `search:<query>`. */
+	static open(client: LanguageClient, topic: string): void {
+		if (!HelpBrowser.current) {
+			const panel = window.createWebviewPanel('supercolliderHelp', 'SuperCollider Help', ViewColumn.Beside, {
+				enableScripts: true,
+				enableCommandUris: ['supercollider.openHelp'],
+				enableFindWidget: true,
+				retainContextWhenHidden: true
+			});
+			HelpBrowser.current = new HelpBrowser(panel, client);
+		}
+		HelpBrowser.current.panel.reveal(ViewColumn.Beside, true);
+		HelpBrowser.current.show(topic);
+	}
+
+	private show(topic: string): void {
+		if (this.history[this.history.length - 1] !== topic) {
+			this.history.push(topic);
+		}
+		this.render(topic);
+	}
+
+	private render(topic: string): void {
+		this.renderPage(topic).catch(err => window.showErrorMessage(`Cannot show help for ${topic}: ${err instanceof Error ? err.message : String(err)}`));
+	}
+
+	/** Shows `topic`, or why it cannot be shown when the language server does not answer. */
+	private async renderPage(topic: string): Promise<void> {
+		let title: string;
+		let markdown: string;
+		try {
+			if (topic.startsWith('search:')) {
+				title = 'Search';
+				markdown = await this.searchPage(topic.substring('search:'.length));
+			} else {
+				const page = await this.client.sendRequest<HelpPage | null>('supercollider/helpPage', { topic });
+				if (page) {
+					title = page.title;
+					markdown = page.markdown;
+				} else {
+					title = topic;
+					markdown = `No help found for **${topic}**.\n\n` + await this.searchPage(topic, false);
+				}
+			}
+		} catch (err) {
+			title = topic;
+			markdown = `Cannot show help for **${topic}**: ${err instanceof Error ? err.message : String(err)}`;
+		}
+		const body = await commands.executeCommand<string>('markdown.api.render', markdown);
+		this.panel.title = `SuperCollider Help: ${title}`;
+		this.panel.webview.html = this.getHtml(body, topic.startsWith('search:') ? topic.substring('search:'.length) : '');
+	}
+
+	private async searchPage(query: string, withHeading = true): Promise<string> {
+		const results = await this.client.sendRequest<HelpSummary[]>('supercollider/helpSearch', { query });
+		const heading = withHeading ? `# Search results for "${query}"\n\n` : '';
+		if (results.length === 0) {
+			return heading + 'No matching help documents. Help files are read from the HelpSource directories of the ' +
+				'SuperCollider installation and the `supercollider.help.paths` setting.';
+		}
+		return heading + results
+			.map(result => `- [${result.title}](${helpLink(result.key)})${result.summary ? ` - ${result.summary}` : ''} \`${result.key}\``)
+			.join('\n');
+	}
+
+	private getHtml(body: string, query: string): string {
+		const nonce = randomBytes(16).toString('base64');
+		const csp = `default-src 'none'; img-src ${this.panel.webview.cspSource} https: data:; ` +
+			`style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="${csp}">
+	<style>
+		body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; line-height: 1.5; }
+		nav { position: sticky; top: 0; display: flex; gap: 6px; padding: 8px 0; background: var(--vscode-editor-background); }
+		nav input { flex: 1; padding: 4px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+		nav button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+		a { color: var(--vscode-textLink-foreground); }
+		code { font-family: var(--vscode-editor-font-family); }
+		pre { padding: 8px; overflow-x: auto; background: var(--vscode-textCodeBlock-background); }
+		blockquote { margin: 0; padding: 4px 12px; border-left: 4px solid var(--vscode-textBlockQuote-border); background: var(--vscode-textBlockQuote-background); }
+		table { border-collapse: collapse; }
+		th, td { padding: 2px 8px; border: 1px solid var(--vscode-panel-border); }
+	</style>
+</head>
+<body>
+	<nav>
+		<button id="back" title="Back">&larr;</button>
+		<input id="search" type="search" placeholder="Search help" value="${escapeHtml(query)}">
+	</nav>
+	<main>${body}</main>
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		document.getElementById('back').addEventListener('click', () => vscode.postMessage({ type: 'back' }));
+		document.getElementById('search').addEventListener('keydown', event => {
+			if (event.key === 'Enter' && event.target.value.trim()) {
+				vscode.postMessage({ type: 'search', query: event.target.value.trim() });
+			}
+		});
+	</script>
+</body>
+</html>`;
+	}
+
+	private dispose(): void {
+		HelpBrowser.current = undefined;
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+}
@@ -0,0 +1,241 @@
+/* --------------------------------------------------------------------------------------------
+ * Node tree view: the groups and synths running on scsynth, from `/g_queryTree`.
+ * ------------------------------------------------------------------------------------------ */
+
+import {
+	Disposable,
+	Event,
+	EventEmitter,
+	ThemeIcon,
+	TreeDataProvider,
+	TreeItem,
+	TreeItemCollapsibleState,
+	TreeView,
+	window,
+	workspace
+} from 'vscode';
+import { OscValue } from './osc';
+import { ScsynthClient } from './scsynth';
+
+export interface NodeControl {
+	name: string;
+	/** A bus mapping such as `c1` or `a2` when the control is mapped. */
+	value: number | string;
+}
+
+export interface ServerNode {
+	id: number;
+	kind: 'group' | 'synth';
+	defName?: string;
+	controls: NodeControl[];
+	children: ServerNode[];
+}
+
+export type NodeTreeElement =
+	| { kind: 'node'; node: ServerNode }
+	| { kind: 'control'; node: ServerNode; control: NodeControl };
+
+/**
+ * Reads a `/g_queryTree.reply`: a flag telling whether controls are included, then each node
+ * depth first as its ID and child count, -1 for synths which follow with their SynthDef name and
+ * controls.
+ */
+export function parseQueryTree(args: OscValue[]): ServerNode | undefined {
+	let index = 0;
+	const next = () => args[index++];
+	const withControls = next() === 1;
+	const readNode = (): ServerNode => {
+		const id = Number(next());
+		const childCount = Number(next());
+		if (childCount < 0) {
+			const defName = String(next());
+			const controls: NodeControl[] = [];
+			const controlCount = withControls ? Number(next()) : 0;
+			for (let i = 0; i < controlCount; i++) {
+				const name = String(next());
+				const value = next();
+				controls.push({ name, value: typeof value === 'number' ? value : String(value) });
+			}
+			return { id, kind: 'synth', defName, controls, children: [] };
+		}
+		const children: ServerNode[] = [];
+		for (let i = 0; i < childCount; i++) {
+			children.push(readNode());
+		}
+		return { id, kind: 'group', controls: [], children };
+	};
+	try {
+		const root = readNode();
+		return index <= args.length ? root : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function formatValue(value: number | string): string {
+	return typeof value === 'number' ? String(+value.toFixed(4)) : value;
+}
+
+export class NodeTreeProvider implements TreeDataProvider<NodeTreeElement>, Disposable {
+	private root: ServerNode | undefined;
+	private timer: ReturnType<typeof setInterval> | undefined;
+	private refreshing = false;
+	/** Nodes paused from the view, scsynth does not report it. */
+	private readonly paused = new Set<number>();
+	private readonly changeEmitter = new EventEmitter<NodeTreeElement | undefined>();
+	private readonly disposables: Disposable[] = [];
+	private readonly view: TreeView<NodeTreeElement>;
+
+	readonly onDidChangeTreeData: Event<NodeTreeElement | undefined> = this.changeEmitter.event;
+
+	constructor(private readonly scsynth: ScsynthClient) {
+		this.view = window.createTreeView('supercollider.nodeTree', { treeDataProvider: this });
+		this.disposables.push(
+			this.view,
+			// Only polls while the view is shown
+			this.view.onDidChangeVisibility(() => this.updateTimer()),
+			workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('supercollider.nodeTree')) {
+					this.updateTimer();
+				}
+			}),
+			scsynth.onDidChangeStatus(status => {
+				if (!status && this.root) {
+					this.setRoot(undefined);
+				}
+			})
+		);
+		this.updateTimer();
+	}
+
+	async refresh(): Promise<void> {
+		if (this.refreshing) {
+			return;
+		}
+		this.refreshing = true;
+		try {
+			const reply = this.scsynth.status ? await this.scsynth.request('/g_queryTree.reply', '/g_queryTree', 0, 1) : undefined;
+			this.setRoot(reply && parseQueryTree(reply.args));
+		} finally {
+			this.refreshing = false;
+		}
+	}
+
+	free(element: NodeTreeElement): void {
+		this.scsynth.send('/n_free', element.node.id);
+		this.refresh();
+	}
+
+	setRunning(element: NodeTreeElement, running: boolean): void {
+		this.scsynth.send('/n_run', element.node.id, running ? 1 : 0);
+		if (running) {
+			this.paused.delete(element.node.id);
+		} else {
+			this.paused.add(element.node.id);
+		}
+		this.changeEmitter.fire(undefined);
+	}
+
+	/** Sets a control of a synth, asking for the control when given the synth. */
+	async setControl(element: NodeTreeElement): Promise<void> {
+		let control = element.kind === 'control' ? element.control : undefined;
+		if (!control) {
+			const picked = await window.showQuickPick(element.node.controls.map(control => ({
+				label: control.name,
+				description: formatValue(control.value),
+				control
+			})), { placeHolder: `Control of ${element.node.defName ?? 'node'} ${element.node.id}` });
+			control = picked?.control;
+		}
+		if (!control) {
+			return;
+		}
+		const value = await window.showInputBox({
+			prompt: `${control.name} of node ${element.node.id}`,
+			value: formatValue(control.value),
+			validateInput: value => Number.isFinite(Number(value)) && value.trim() !== '' ? undefined : 'Enter a number'
+		});
+		if (value === undefined) {
+			return;
+		}
+		this.scsynth.send('/n_set', element.node.id, control.name, { type: 'f', value: Number(value) });
+		this.refresh();
+	}
+
+	getTreeItem(element: NodeTreeElement): TreeItem {
+		if (element.kind === 'control') {
+			const item = new TreeItem(element.control.name, TreeItemCollapsibleState.None);
+			item.id = `${element.node.id}/${element.control.name}`;
+			item.description = formatValue(element.control.value);
+			item.contextValue = 'control';
+			return item;
+		}
+		const { node } = element;
+		const paused = this.paused.has(node.id) ? ' (paused)' : '';
+		if (node.kind === 'group') {
+			const item = new TreeItem(`Group ${node.id}`, node.children.length > 0 ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.None);
+			item.id = String(node.id);
+			item.description = (node.id === 1 ? 'default group' : '') + paused;
+			item.iconPath = new ThemeIcon('folder');
+			item.contextValue = 'group';
+			return item;
+		}
+		const item = new TreeItem(node.defName ?? 'synth', node.controls.length > 0 ? TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None);
+		item.id = String(node.id);
+		item.description = `${node.id}${paused}`;
+		item.iconPath = new ThemeIcon(paused ? 'debug-pause' : 'pulse');
+		item.contextValue = 'synth';
+		return item;
+	}
+
+	getChildren(element?: NodeTreeElement): NodeTreeElement[] {
+		if (!element) {
+			return this.root ? this.root.children.map(node => ({ kind: 'node', node })) : [];
+		}
+		if (element.kind === 'control') {
+			return [];
+		}
+		return [
+			...element.node.controls.map(control => ({ kind: 'control' as const, node: element.node, control })),
+			...element.node.children.map(node => ({ kind: 'node' as const, node }))
+		];
+	}
+
+	dispose(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+		}
+		this.changeEmitter.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private setRoot(root: ServerNode | undefined): void {
+		this.root = root;
+		const ids = new Set<number>();
+		const collect = (node: ServerNode) => {
+			ids.add(node.id);
+			node.children.forEach(collect);
+		};
+		if (root) {
+			collect(root);
+		}
+		// Freed nodes are not paused anymore, and their IDs get reused
+		[...this.paused].filter(id => !ids.has(id)).forEach(id => this.paused.delete(id));
+		this.view.message = this.scsynth.status ? undefined : `scsynth is not running at ${this.scsynth.address}`;
+		this.changeEmitter.fire(undefined);
+	}
+
+	private updateTimer(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+		const interval = workspace.getConfiguration('supercollider.nodeTree').get<number>('refreshInterval', 1000);
+		if (this.view.visible) {
+			this.refresh();
+			if (interval > 0) {
+				this.timer = setInterval(() => this.refresh(), Math.max(100, interval));
+			}
+		}
+	}
+}
@@ -0,0 +1,138 @@
+/* --------------------------------------------------------------------------------------------
+ * OSC 1.0 messages: encodes the messages sent to scsynth and decodes its replies.
+ * ------------------------------------------------------------------------------------------ */
+
+/** Integers are sent as `i` and other numbers as `f`, unless their type is given. */
+export type OscArgument = number | string | Buffer | { type: 'i' | 'f' | 'd'; value: number };
+
+export type OscValue = number | string | Buffer | boolean | null;
+
+export interface OscMessage {
+	address: string;
+	args: OscValue[];
+}
+
+function pad(length: number): number {
+	return (length + 4) & ~3;
+}
+
+function encodeString(value: string): Buffer {
+	const bytes = Buffer.from(value, 'utf8');
+	const buffer = Buffer.alloc(pad(bytes.length));
+	bytes.copy(buffer);
+	return buffer;
+}
+
+function encodeBlob(value: Buffer): Buffer {
+	const buffer = Buffer.alloc(4 + ((value.length + 3) & ~3));
+	buffer.writeInt32BE(value.length, 0);
+	value.copy(buffer, 4);
+	return buffer;
+}
+
+function encodeArgument(arg: OscArgument): [string, Buffer] {
+	if (typeof arg === 'string') {
+		return ['s', encodeString(arg)];
+	}
+	if (Buffer.isBuffer(arg)) {
+		return ['b', encodeBlob(arg)];
+	}
+	const { type, value } = typeof arg === 'number' ? { type: Number.isInteger(arg) ? 'i' : 'f', value: arg } : arg;
+	const buffer = Buffer.alloc(type === 'd' ? 8 : 4);
+	if (type === 'i') {
+		buffer.writeInt32BE(value, 0);
+	} else if (type === 'f') {
+		buffer.writeFloatBE(value, 0);
+	} else {
+		buffer.writeDoubleBE(value, 0);
+	}
+	return [type, buffer];
+}
+
+export function encodeMessage(address: string, args: OscArgument[] = []): Buffer {
+	const encoded = args.map(encodeArgument);
+	return Buffer.concat([
+		encodeString(address),
+		encodeString(',' + encoded.map(([type]) => type).join('')),
+		...encoded.map(([, buffer]) => buffer)
+	]);
+}
+
+function readString(buffer: Buffer, offset: number): [string, number] {
+	const end = buffer.indexOf(0, offset);
+	if (end < 0) {
+		throw new Error('Unterminated OSC string');
+	}
+	return [buffer.toString('utf8', offset, end), pad(end - offset) + offset];
+}
+
+function decodeMessage(buffer: Buffer): OscMessage {
+	const [address, typesOffset] = readString(buffer, 0);
+	if (typesOffset >= buffer.length) {
+		return { address, args: [] };
+	}
+	const [types, argsOffset] = readString(buffer, typesOffset);
+	const args: OscValue[] = [];
+	let offset = argsOffset;
+	for (const type of types.substring(1)) {
+		switch (type) {
+			case 'i':
+				args.push(buffer.readInt32BE(offset));
+				offset += 4;
+				break;
+			case 'f':
+				args.push(buffer.readFloatBE(offset));
+				offset += 4;
+				break;
+			case 'd':
+				args.push(buffer.readDoubleBE(offset));
+				offset += 8;
+				break;
+			case 'h':
+			case 't':
+				args.push(Number(buffer.readBigInt64BE(offset)));
+				offset += 8;
+				break;
+			case 's':
+			case 'S': {
+				const [value, next] = readString(buffer, offset);
+				args.push(value);
+				offset = next;
+				break;
+			}
+			case 'b': {
+				const length = buffer.readInt32BE(offset);
+				args.push(buffer.subarray(offset + 4, offset + 4 + length));
+				offset += 4 + ((length + 3) & ~3);
+				break;
+			}
+			case 'T':
+			case 'F':
+				args.push(type === 'T');
+				break;
+			case 'N':
+			case 'I':
+				args.push(null);
+				break;
+			default:
+				throw new Error(`Unsupported OSC type tag '${type}'`);
+		}
+	}
+	return { address, args };
+}
+
+/** Decodes a message, or the messages of a bundle and the bundles it contains. */
+export function decodePacket(buffer: Buffer): OscMessage[] {
+	if (buffer.toString('utf8', 0, 8) !== '#bundle\0') {
+		return [decodeMessage(buffer)];
+	}
+	const messages: OscMessage[] = [];
+	// Skips the time tag
+	let offset = 16;
+	while (offset + 4 <= buffer.length) {
+		const size = buffer.readInt32BE(offset);
+		messages.push(...decodePacket(buffer.subarray(offset + 4, offset + 4 + size)));
+		offset += 4 + size;
+	}
+	return messages;
+}
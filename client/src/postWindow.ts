@@ -0,0 +1,382 @@
+/* --------------------------------------------------------------------------------------------
+ * Post window: a webview of sclang output with colored errors and warnings, collapsible call
+ * stacks, file links, filtering and a scrollback limit.
+ * ------------------------------------------------------------------------------------------ */
+
+import { randomBytes } from 'crypto';
+import { Disposable, Position, Range, Uri, ViewColumn, WebviewPanel, window, workspace } from 'vscode';
+
+export type PostLineKind = 'post' | 'result' | 'echo' | 'error' | 'warning';
+
+export interface PostLink {
+	start: number;
+	end: number;
+	file: string;
+	/** Zero-based. */
+	line?: number;
+	character?: number;
+}
+
+export interface PostLine {
+	kind: PostLineKind;
+	text: string;
+	/** Lines of the same error or warning report share a block. */
+	block?: number;
+	/** Call stack headers collapse the frames that follow them. */
+	stack?: 'header' | 'frame';
+	links?: PostLink[];
+}
+
+type PostWindowMessage =
+	| { type: 'ready' }
+	| { type: 'clear' }
+	| { type: 'open'; file: string; line?: number; character?: number };
+
+/** Output of a line without a newline is shown after this delay. */
+const PARTIAL_LINE_DELAY = 200;
+/** Lines are sent to the webview in batches. */
+const FLUSH_DELAY = 50;
+
+const FILE_PATTERN = /(?:^|[\s'"(])((?:[A-Za-z]:)?[\\/][^\s'"():]*\.(?:scd|sc|schelp))(?::(\d+)(?::(\d+))?)?/g;
+const REPORT_PATTERN = /^(ERROR|WARNING):/;
+const CONTINUATION_PATTERN = /^(?:\s|$|-{10,}$|\^\^ |(?:RECEIVER|ARGS|PATH|KEYWORD ARGUMENTS):)/;
+const STACK_PATTERN = /^(?:PROTECTED )?CALL STACK:/;
+
+function getScrollback(): number {
+	return Math.max(100, workspace.getConfiguration('supercollider.postWindow').get<number>('scrollback', 5000));
+}
+
+/** Sorts posted lines into reports, call stacks, results and plain posts, and finds file links. */
+class PostClassifier {
+	private block: { id: number; kind: 'error' | 'warning'; file?: string; inStack: boolean; ending: boolean; closed: boolean } | undefined;
+	private nextBlock = 1;
+
+	classify(text: string): PostLine {
+		const report = REPORT_PATTERN.exec(text);
+		if (report) {
+			this.block = { id: this.nextBlock++, kind: report[1] === 'ERROR' ? 'error' : 'warning', inStack: false, ending: false, closed: false };
+		} else if (this.block && !this.continuesBlock(text)) {
+			this.block = undefined;
+		}
+		const line: PostLine = { kind: this.block?.kind ?? (text.startsWith('-> ') ? 'result' : 'post'), text };
+		const links = this.findLinks(text);
+		if (links.length > 0) {
+			line.links = links;
+		}
+		if (!this.block) {
+			return line;
+		}
+		line.block = this.block.id;
+		if (STACK_PATTERN.test(text)) {
+			this.block.inStack = true;
+			line.stack = 'header';
+		} else if (this.block.inStack && text.startsWith('\t')) {
+			line.stack = 'frame';
+		} else {
+			this.block.inStack = false;
+		}
+		return line;
+	}
+
+	private continuesBlock(text: string): boolean {
+		if (!this.block || this.block.closed) {
+			return false;
+		}
+		// The dump closes with `^^ ERROR: ...` and the receiver on the following line
+		if (this.block.ending) {
+			this.block.closed = true;
+			return text.startsWith('RECEIVER:');
+		}
+		if (text.startsWith('^^ ')) {
+			this.block.ending = text.includes('ERROR:');
+			return true;
+		}
+		return CONTINUATION_PATTERN.test(text) || STACK_PATTERN.test(text);
+	}
+
+	private findLinks(text: string): PostLink[] {
+		const links: PostLink[] = [];
+		for (const match of text.matchAll(FILE_PATTERN)) {
+			const start = match.index! + match[0].indexOf(match[1]);
+			const end = start + match[0].length - match[0].indexOf(match[1]);
+			links.push({
+				start,
+				end,
+				file: match[1],
+				line: match[2] ? Number(match[2]) - 1 : undefined,
+				character: match[3] ? Number(match[3]) - 1 : undefined
+			});
+			if (this.block && /in file\s*'$/.test(text.substring(0, start))) {
+				this.block.file = match[1];
+			}
+		}
+		// Parse errors give the file and the position on separate lines
+		const position = /line (\d+) char (\d+)/.exec(text);
+		if (this.block?.file && position) {
+			links.push({
+				start: position.index,
+				end: position.index + position[0].length,
+				file: this.block.file,
+				line: Number(position[1]) - 1,
+				character: Math.max(0, Number(position[2]) - 1)
+			});
+		}
+		return links.sort((a, b) => a.start - b.start);
+	}
+}
+
+export class PostWindow implements Disposable {
+	private panel: WebviewPanel | undefined;
+	private lines: PostLine[] = [];
+	private pending: PostLine[] = [];
+	private partialLine = '';
+	private partialTimer: ReturnType<typeof setTimeout> | undefined;
+	private flushTimer: ReturnType<typeof setTimeout> | undefined;
+	private scrollback = getScrollback();
+	private readonly classifier = new PostClassifier();
+	private readonly disposables: Disposable[] = [];
+
+	constructor() {
+		this.disposables.push(workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('supercollider.postWindow.scrollback')) {
+				this.scrollback = getScrollback();
+				this.trim();
+				this.panel?.webview.postMessage({ type: 'settings', scrollback: this.scrollback });
+			}
+		}));
+	}
+
+	/** Posts output of sclang, lines without a newline after a short delay. */
+	append(text: string): void {
+		if (this.partialTimer) {
+			clearTimeout(this.partialTimer);
+			this.partialTimer = undefined;
+		}
+		const lines = (this.partialLine + text).split(/\r?\n/);
+		this.partialLine = lines.pop() ?? '';
+		lines.forEach(line => this.add(this.classifier.classify(line)));
+		if (this.partialLine) {
+			this.partialTimer = setTimeout(() => {
+				this.partialTimer = undefined;
+				this.add(this.classifier.classify(this.partialLine));
+				this.partialLine = '';
+			}, PARTIAL_LINE_DELAY);
+		}
+	}
+
+	/** Posts code that is being evaluated. */
+	appendEcho(code: string): void {
+		this.add({ kind: 'echo', text: `-> ${code.split('\n')[0]}${code.includes('\n') ? '...' : ''}` });
+	}
+
+	clear(): void {
+		this.lines = [];
+		this.pending = [];
+		this.panel?.webview.postMessage({ type: 'clear' });
+	}
+
+	show(preserveFocus = true): void {
+		if (this.panel) {
+			this.panel.reveal(undefined, preserveFocus);
+			return;
+		}
+		this.panel = window.createWebviewPanel('supercolliderPostWindow', 'SuperCollider Post Window', { viewColumn: ViewColumn.Beside, preserveFocus }, {
+			enableScripts: true,
+			enableFindWidget: true,
+			retainContextWhenHidden: true
+		});
+		this.panel.webview.onDidReceiveMessage((message: PostWindowMessage) => this.handleMessage(message), null, this.disposables);
+		this.panel.onDidDispose(() => {
+			this.panel = undefined;
+		}, null, this.disposables);
+		this.panel.webview.html = this.getHtml();
+	}
+
+	dispose(): void {
+		clearTimeout(this.partialTimer);
+		clearTimeout(this.flushTimer);
+		this.panel?.dispose();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private add(line: PostLine): void {
+		this.lines.push(line);
+		this.pending.push(line);
+		this.trim();
+		this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_DELAY);
+	}
+
+	private trim(): void {
+		// Some slack, so long output is not copied on every line
+		if (this.lines.length > this.scrollback * 1.1) {
+			this.lines = this.lines.slice(-this.scrollback);
+		}
+		if (this.pending.length > this.scrollback) {
+			this.pending = this.pending.slice(-this.scrollback);
+		}
+	}
+
+	private flush(): void {
+		this.flushTimer = undefined;
+		if (this.pending.length > 0) {
+			this.panel?.webview.postMessage({ type: 'append', lines: this.pending });
+			this.pending = [];
+		}
+	}
+
+	private async handleMessage(message: PostWindowMessage): Promise<void> {
+		switch (message.type) {
+			case 'ready':
+				// A new webview, or one that was reloaded
+				this.pending = [];
+				this.panel?.webview.postMessage({ type: 'append', lines: this.lines.slice(-this.scrollback) });
+				break;
+			case 'clear':
+				this.clear();
+				break;
+			case 'open': {
+				const position = new Position(message.line ?? 0, message.character ?? 0);
+				await window.showTextDocument(Uri.file(message.file), { viewColumn: ViewColumn.One, selection: new Range(position, position) });
+				break;
+			}
+		}
+	}
+
+	private getHtml(): string {
+		const nonce = randomBytes(16).toString('base64');
+		const csp = `default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="${csp}">
+	<style>
+		body { margin: 0; padding: 0; color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+		nav { position: sticky; top: 0; z-index: 1; display: flex; gap: 6px; padding: 6px 8px; background: var(--vscode-editor-background); border-bottom: 1px solid var(--vscode-panel-border); }
+		nav input { flex: 1; padding: 3px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+		nav button { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); border: none; padding: 3px 10px; cursor: pointer; }
+		nav button[aria-pressed="true"] { color: var(--vscode-button-foreground); background: var(--vscode-button-background); }
+		#output { padding: 4px 8px; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); white-space: pre-wrap; word-break: break-word; }
+		.echo { color: var(--vscode-descriptionForeground); font-style: italic; margin-top: 0.5em; }
+		.result { color: var(--vscode-terminal-ansiGreen); }
+		.error, .warning { padding-left: 6px; border-left: 3px solid; }
+		.error { color: var(--vscode-errorForeground); border-color: var(--vscode-errorForeground); background: var(--vscode-inputValidation-errorBackground); }
+		.warning { color: var(--vscode-editorWarning-foreground); border-color: var(--vscode-editorWarning-foreground); background: var(--vscode-inputValidation-warningBackground); }
+		details > .line { padding-left: 1em; }
+		summary { cursor: pointer; }
+		summary > .line { display: inline; border: none; padding: 0; background: none; }
+		a { color: var(--vscode-textLink-foreground); cursor: pointer; }
+		[hidden] { display: none !important; }
+	</style>
+</head>
+<body>
+	<nav>
+		<input id="filter" type="search" placeholder="Filter">
+		<button id="echo" aria-pressed="false" title="Hide the code sent to sclang">Hide Echo</button>
+		<button id="scroll" aria-pressed="false" title="Stop scrolling to new output">Scroll Lock</button>
+		<button id="clear" title="Clear the post window">Clear</button>
+	</nav>
+	<div id="output"></div>
+	<script nonce="${nonce}">
+		const vscode = acquireVsCodeApi();
+		const output = document.getElementById('output');
+		const stacks = new Map();
+		let scrollback = ${this.scrollback};
+		let filter = '';
+		let hideEcho = false;
+		let scrollLock = false;
+
+		function renderLine(line) {
+			const element = document.createElement('div');
+			element.className = 'line ' + line.kind;
+			let offset = 0;
+			for (const link of line.links || []) {
+				element.append(line.text.substring(offset, link.start));
+				const anchor = document.createElement('a');
+				anchor.textContent = line.text.substring(link.start, link.end);
+				anchor.title = 'Open ' + link.file;
+				anchor.addEventListener('click', () => vscode.postMessage({ type: 'open', file: link.file, line: link.line, character: link.character }));
+				element.append(anchor);
+				offset = link.end;
+			}
+			element.append(line.text.substring(offset));
+			return element;
+		}
+
+		function render(line) {
+			const element = renderLine(line);
+			if (line.stack === 'header') {
+				const details = document.createElement('details');
+				const summary = document.createElement('summary');
+				details.className = line.kind;
+				summary.append(element);
+				details.append(summary);
+				stacks.set(line.block, details);
+				return details;
+			}
+			const details = line.stack === 'frame' && stacks.get(line.block);
+			if (details) {
+				details.append(element);
+				return undefined;
+			}
+			return element;
+		}
+
+		function applyFilter(element) {
+			element.hidden = (hideEcho && element.classList.contains('echo')) ||
+				(filter !== '' && !element.textContent.toLowerCase().includes(filter));
+		}
+
+		function trim() {
+			while (output.childElementCount > scrollback) {
+				const first = output.firstElementChild;
+				if (first.tagName === 'DETAILS') {
+					stacks.forEach((details, block) => details === first && stacks.delete(block));
+				}
+				first.remove();
+			}
+		}
+
+		window.addEventListener('message', event => {
+			const message = event.data;
+			if (message.type === 'append') {
+				for (const line of message.lines) {
+					const element = render(line);
+					if (element) {
+						applyFilter(element);
+						output.append(element);
+					}
+				}
+				trim();
+				if (!scrollLock) {
+					window.scrollTo(0, document.body.scrollHeight);
+				}
+			} else if (message.type === 'clear') {
+				output.replaceChildren();
+				stacks.clear();
+			} else if (message.type === 'settings') {
+				scrollback = message.scrollback;
+				trim();
+			}
+		});
+
+		document.getElementById('filter').addEventListener('input', event => {
+			filter = event.target.value.trim().toLowerCase();
+			Array.from(output.children).forEach(applyFilter);
+		});
+		document.getElementById('echo').addEventListener('click', event => {
+			hideEcho = !hideEcho;
+			event.target.setAttribute('aria-pressed', String(hideEcho));
+			Array.from(output.children).forEach(applyFilter);
+		});
+		document.getElementById('scroll').addEventListener('click', event => {
+			scrollLock = !scrollLock;
+			event.target.setAttribute('aria-pressed', String(scrollLock));
+		});
+		document.getElementById('clear').addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+		vscode.postMessage({ type: 'ready' });
+	</script>
+</body>
+</html>`;
+	}
+}
@@ -0,0 +1,497 @@
+/* --------------------------------------------------------------------------------------------
+ * sclang process: starts the interpreter or attaches to a running one, follows its state from its
+ * output and queues code until the class library is compiled.
+ * ------------------------------------------------------------------------------------------ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { Disposable, Event, EventEmitter, OutputChannel, workspace } from 'vscode';
+import { BridgeSettings, getBridgeSettings, SclangBridge } from './sclangBridge';
+
+/**
+ * `starting` until sclang prints anything, `compiling` while the class library compiles, `ready`
+ * once it has run its startup files. `crashed` after an unexpected exit or a failed compile.
+ */
+export type SclangState = 'stopped' | 'starting' | 'compiling' | 'ready' | 'crashed';
+
+export interface SclangFailure {
+	message: string;
+	/** Error text posted by sclang, if any. */
+	details?: string;
+}
+
+/** Control characters sclang reads on stdin in `-i` mode. */
+const INTERPRET = '\x1b';
+const INTERPRET_PRINT = '\x0c';
+const RECOMPILE = '\x18';
+
+const COMPILING_PATTERN = /^compiling class library/;
+const READY_PATTERN = /^\*\*\* Welcome to SuperCollider/;
+const COMPILE_FAILED_PATTERN = /^Library has not been compiled successfully|compil\w* failed/i;
+const ERROR_PATTERN = /^\s*ERROR:/;
+
+/** Posted before and after each evaluation, so its output can be told apart from the rest. */
+const MARKER_PREFIX = '[vscode-eval ';
+const MARKER_PATTERN = /^\[vscode-eval (\d+) (begin|end)\]$/;
+const RESULT_PATTERN = /^\[vscode-eval result\](.*)$/;
+/** Posted by an interpreter that was attached to, once it has the result hook. */
+const ATTACHED_MARKER = '[vscode-eval attached]';
+
+/**
+ * Installed once the class library is compiled. The interpreter calls `codeDump` with the result
+ * of code it prints, which posts it on one line tagged as a result. The hook is kept in the
+ * `Library` to replace the one of an earlier connection.
+ */
+const RESULT_HOOK = 'var hook = { |code, result| ' +
+	'("[vscode-eval result]" ++ result.asString.replace("\\\\", "\\\\\\\\").replace("\\n", "\\\\n")).postln }; ' +
+	'thisProcess.interpreter.codeDump = thisProcess.interpreter.codeDump.removeFunc(Library.at(\\vscode, \\resultHook)).addFunc(hook); ' +
+	'Library.put(\\vscode, \\resultHook, hook)';
+
+export interface EvaluationResult {
+	/** Lines posted while the code ran. */
+	output: string[];
+	/** What the code returned, as posted after `->`, unless it failed. */
+	result?: string;
+}
+
+/** Crashes within this window count towards the auto-restart limit. */
+const RESTART_WINDOW = 60000;
+const MAX_RESTARTS = 3;
+const STOP_TIMEOUT = 3000;
+
+/** How an interpreter of its own is started, such as the one of a debug session, instead of from the settings. */
+export interface SclangLaunchOptions {
+	/** The `supercollider.sclangPath` setting when not set. */
+	sclangPath?: string;
+	/** Flags passed to sclang before `-i vscode`. */
+	args: string[];
+	cwd?: string;
+}
+
+interface Evaluation {
+	id: number;
+	code: string;
+	output: string[];
+	result?: string;
+	resolve(result: EvaluationResult | undefined): void;
+}
+
+export class Sclang implements Disposable {
+	/** The child process, or the bridge to an interpreter that was already running. */
+	private connection: ChildProcess | SclangBridge | undefined;
+	private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+	private currentState: SclangState = 'stopped';
+	private stopping = false;
+	private partialLine = '';
+	private partialEmitted = 0;
+	private nextEvaluationId = 1;
+	private currentEvaluation: Evaluation | undefined;
+	/** Evaluations waiting for sclang to be ready, and those sent to it that have not finished. */
+	private readonly queue: Evaluation[] = [];
+	private readonly sent: Evaluation[] = [];
+	private readonly compileErrors: string[] = [];
+	private readonly crashes: number[] = [];
+
+	private readonly stateEmitter = new EventEmitter<SclangState>();
+	private readonly outputEmitter = new EventEmitter<string>();
+	private readonly failureEmitter = new EventEmitter<SclangFailure>();
+
+	/** Fires on every state change. */
+	readonly onDidChangeState: Event<SclangState> = this.stateEmitter.event;
+	/** Fires with everything sclang writes to stdout and stderr or the bridge, apart from evaluation markers. */
+	readonly onDidOutput: Event<string> = this.outputEmitter.event;
+	/** Fires when sclang cannot be started or its class library fails to compile. */
+	readonly onDidFail: Event<SclangFailure> = this.failureEmitter.event;
+
+	/** Without launch options sclang is started or attached to as the settings say, and restarted after crashes if they ask for it. */
+	constructor(private readonly log: OutputChannel, private readonly launch?: SclangLaunchOptions) { }
+
+	get state(): SclangState {
+		return this.currentState;
+	}
+
+	get isRunning(): boolean {
+		return !!this.connection;
+	}
+
+	/** Starts sclang, or attaches to a running one when `supercollider.connection.mode` is `attach`. */
+	start(): void {
+		if (this.connection || this.reconnectTimer) {
+			this.log.appendLine('[SuperCollider] sclang already running');
+			return;
+		}
+		this.stopping = false;
+		this.setState('starting');
+		if (!this.launch && getConnectionMode() === 'attach') {
+			this.attach(getBridgeSettings(), true);
+		} else {
+			this.spawnCandidate(this.launch?.sclangPath ? [this.launch.sclangPath] : getSclangCandidates(), 0);
+		}
+	}
+
+	/** Stops sclang, killing it when it does not exit in time. An attached one is left running. */
+	stop(): Promise<void> {
+		const proc = this.connection;
+		this.dropQueue('sclang stopped');
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = undefined;
+		}
+		if (!proc) {
+			this.setState('stopped');
+			return Promise.resolve();
+		}
+		if (proc instanceof SclangBridge) {
+			proc.dispose();
+			this.connection = undefined;
+			this.resetOutput();
+			this.cancelSent();
+			this.setState('stopped');
+			this.log.appendLine(`[SuperCollider] Detached from sclang at ${proc.address}`);
+			return Promise.resolve();
+		}
+		this.log.appendLine('[SuperCollider] Stopping sclang...');
+		this.stopping = true;
+		return new Promise(resolve => {
+			const timer = setTimeout(() => proc.kill('SIGKILL'), STOP_TIMEOUT);
+			const done = () => {
+				clearTimeout(timer);
+				resolve();
+			};
+			proc.once('exit', done);
+			proc.once('error', done);
+			proc.kill();
+		});
+	}
+
+	async restart(): Promise<void> {
+		await this.stop();
+		this.crashes.length = 0;
+		this.start();
+	}
+
+	/** Recompiles the class library in the running interpreter, or starts one. */
+	recompile(): void {
+		if (!this.connection) {
+			this.start();
+			return;
+		}
+		this.log.appendLine('[SuperCollider] Recompiling class library...');
+		this.compileErrors.length = 0;
+		this.setState('compiling');
+		this.write(RECOMPILE);
+	}
+
+	/**
+	 * Runs `code` now when sclang is ready, otherwise once it is, starting it if needed. Resolves
+	 * with what it posted and returned, or `undefined` when sclang stopped before running it.
+	 */
+	evaluate(code: string): Promise<EvaluationResult | undefined> {
+		const promise = new Promise<EvaluationResult | undefined>(resolve => {
+			const evaluation = { id: this.nextEvaluationId++, code, output: [], resolve };
+			if (this.currentState === 'ready' && this.connection) {
+				this.send(evaluation);
+			} else {
+				this.queue.push(evaluation);
+			}
+		});
+		if (this.currentState === 'ready') {
+			return promise;
+		}
+		if (!this.connection && !this.reconnectTimer) {
+			this.start();
+		} else if (this.currentState === 'crashed') {
+			this.log.appendLine('[SuperCollider] The class library is not compiled, code runs after a successful recompile');
+		}
+		return promise;
+	}
+
+	dispose(): void {
+		this.stopping = true;
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+		}
+		if (this.connection instanceof SclangBridge) {
+			this.connection.dispose();
+		} else {
+			this.connection?.kill();
+		}
+		this.connection = undefined;
+		this.stateEmitter.dispose();
+		this.outputEmitter.dispose();
+		this.failureEmitter.dispose();
+	}
+
+	/** Tries each executable in turn, `sclang.exe` after `sclang` under WSL. */
+	private spawnCandidate(candidates: string[], index: number): void {
+		const sclangPath = candidates[index];
+		this.log.appendLine(`[SuperCollider] Starting sclang: ${sclangPath}`);
+		let proc: ChildProcess;
+		try {
+			proc = spawn(sclangPath, [...this.launch?.args ?? [], '-i', 'vscode'], { stdio: ['pipe', 'pipe', 'pipe'], cwd: this.launch?.cwd });
+		} catch (err) {
+			this.failStart(sclangPath, err instanceof Error ? err.message : String(err));
+			return;
+		}
+		this.connection = proc;
+		let spawned = false;
+
+		proc.on('spawn', () => {
+			spawned = true;
+			this.log.appendLine('[SuperCollider] sclang process spawned, waiting for output...');
+		});
+		proc.on('error', err => {
+			this.log.appendLine(`[SuperCollider] Error spawning ${sclangPath}: ${err.message}`);
+			if (spawned || proc !== this.connection) {
+				return;
+			}
+			this.connection = undefined;
+			if (index + 1 < candidates.length && !this.stopping) {
+				this.log.appendLine(`[SuperCollider] Attempting fallback to ${candidates[index + 1]}...`);
+				this.spawnCandidate(candidates, index + 1);
+			} else {
+				this.failStart(sclangPath, err.message);
+			}
+		});
+		proc.stdout?.on('data', (data: Buffer) => this.handleOutput(proc, data.toString()));
+		proc.stderr?.on('data', (data: Buffer) => this.handleOutput(proc, data.toString()));
+		proc.on('exit', (code, signal) => {
+			if (!spawned || proc !== this.connection) {
+				return;
+			}
+			this.connection = undefined;
+			this.log.appendLine(`[SuperCollider] sclang exited with ${signal ? `signal ${signal}` : `code ${code}`}`);
+			this.handleExit(code === 0 && !signal);
+		});
+	}
+
+	/** Connects to a running interpreter through a bridge, `notify` reports a failure to connect. */
+	private attach(settings: BridgeSettings, notify: boolean): void {
+		this.reconnectTimer = undefined;
+		let connected = false;
+		const bridge: SclangBridge = new SclangBridge(settings, {
+			onConnect: () => {
+				connected = true;
+				this.log.appendLine(`[SuperCollider] Attached to sclang at ${bridge.address}`);
+				// The interpreter is past its startup, it answers once it has the result hook
+				this.write(RESULT_HOOK + INTERPRET + `"${ATTACHED_MARKER}".postln;` + INTERPRET);
+			},
+			onData: text => this.handleOutput(bridge, text),
+			onClose: error => this.handleDisconnect(bridge, connected, notify, error)
+		});
+		this.log.appendLine(`[SuperCollider] Attaching to sclang at ${bridge.address}...`);
+		this.connection = bridge;
+		bridge.connect();
+	}
+
+	/** Connects again after the interval, code sent in the meantime waits for the connection. */
+	private handleDisconnect(bridge: SclangBridge, connected: boolean, notify: boolean, error?: Error): void {
+		if (bridge !== this.connection) {
+			return;
+		}
+		this.connection = undefined;
+		this.resetOutput();
+		this.cancelSent();
+		const reason = error ? `: ${error.message}` : '';
+		this.log.appendLine(`[SuperCollider] ${connected ? 'Lost the connection to' : 'Cannot connect to'} sclang at ${bridge.address}${reason}`);
+		const interval = bridge.settings.reconnectInterval;
+		if (!connected && notify) {
+			this.failureEmitter.fire({
+				message: `Cannot connect to sclang at ${bridge.address}${reason}${interval > 0 ? ', retrying' : ''}. Check the supercollider.connection settings and the bridge.`
+			});
+		}
+		if (interval > 0) {
+			this.setState('starting');
+			this.reconnectTimer = setTimeout(() => this.attach(bridge.settings, false), interval);
+		} else {
+			this.dropQueue('the connection to sclang was lost');
+			this.setState(connected ? 'crashed' : 'stopped');
+		}
+	}
+
+	private failStart(sclangPath: string, message: string): void {
+		this.dropQueue('sclang failed to start');
+		this.failureEmitter.fire({ message: `Failed to start sclang (${sclangPath}): ${message}. Check the ${this.launch?.sclangPath ? 'sclangPath of the launch configuration' : 'supercollider.sclangPath setting'}.` });
+		this.setState('stopped');
+	}
+
+	private handleExit(clean: boolean): void {
+		this.resetOutput();
+		this.cancelSent();
+		if (this.stopping || clean) {
+			this.stopping = false;
+			this.dropQueue('sclang stopped');
+			this.setState('stopped');
+			this.log.appendLine('[SuperCollider] sclang stopped');
+			return;
+		}
+		this.setState('crashed');
+		const now = Date.now();
+		this.crashes.push(now);
+		while (this.crashes.length > 0 && now - this.crashes[0] > RESTART_WINDOW) {
+			this.crashes.shift();
+		}
+		const autoRestart = !this.launch && workspace.getConfiguration('supercollider').get<boolean>('sclang.autoRestart', false);
+		if (autoRestart && this.crashes.length <= MAX_RESTARTS) {
+			// Queued code waits for the restarted interpreter
+			this.log.appendLine('[SuperCollider] Restarting sclang after a crash...');
+			this.start();
+		} else {
+			this.dropQueue('sclang crashed');
+			if (autoRestart) {
+				this.log.appendLine(`[SuperCollider] sclang crashed ${this.crashes.length} times in a minute, not restarting`);
+			}
+		}
+	}
+
+	private handleOutput(source: ChildProcess | SclangBridge, text: string): void {
+		if (source !== this.connection) {
+			return;
+		}
+		const lines = (this.partialLine + text).split('\n');
+		const partial = lines.pop() ?? '';
+		let output = '';
+		lines.forEach((line, index) => {
+			const emitted = index === 0 ? this.partialEmitted : 0;
+			if (!this.handleMarker(line.replace(/\r$/, ''))) {
+				output += line.substring(emitted) + '\n';
+				this.handleLine(line.replace(/\r$/, ''));
+			}
+		});
+		if (lines.length > 0) {
+			this.partialEmitted = 0;
+		}
+		// Unfinished lines are posted right away unless they may turn out to be a marker
+		if (!partial.startsWith(MARKER_PREFIX) && !MARKER_PREFIX.startsWith(partial)) {
+			output += partial.substring(this.partialEmitted);
+			this.partialEmitted = partial.length;
+		}
+		this.partialLine = partial;
+		if (output) {
+			this.outputEmitter.fire(output);
+		}
+	}
+
+	/** Tracks the evaluation whose output is being posted, returns whether `line` is a marker. */
+	private handleMarker(line: string): boolean {
+		if (line === ATTACHED_MARKER) {
+			this.setState('ready');
+			this.flushQueue();
+			return true;
+		}
+		const result = RESULT_PATTERN.exec(line);
+		if (result) {
+			if (this.currentEvaluation) {
+				this.currentEvaluation.result = result[1].replace(/\\(\\|n)/g, (_, ch: string) => ch === 'n' ? '\n' : '\\');
+			}
+			return true;
+		}
+		const match = MARKER_PATTERN.exec(line);
+		if (!match) {
+			return false;
+		}
+		const id = Number(match[1]);
+		if (match[2] === 'begin') {
+			this.currentEvaluation = this.sent.find(evaluation => evaluation.id === id);
+		} else {
+			const index = this.sent.findIndex(evaluation => evaluation.id === id);
+			if (index >= 0) {
+				const [evaluation] = this.sent.splice(index, 1);
+				evaluation.resolve({ output: evaluation.output, result: evaluation.result });
+			}
+			this.currentEvaluation = undefined;
+		}
+		return true;
+	}
+
+	/** Follows the interpreter state through the lines sclang posts while it starts up. */
+	private handleLine(line: string): void {
+		this.currentEvaluation?.output.push(line);
+		if (COMPILING_PATTERN.test(line)) {
+			this.compileErrors.length = 0;
+			this.setState('compiling');
+			return;
+		}
+		// An attached interpreter is ready once it answers
+		if (this.currentState === 'starting' && !(this.connection instanceof SclangBridge)) {
+			this.setState('compiling');
+		}
+		if (this.currentState !== 'compiling') {
+			return;
+		}
+		if (READY_PATTERN.test(line)) {
+			this.write(RESULT_HOOK + INTERPRET);
+			this.setState('ready');
+			this.flushQueue();
+		} else if (COMPILE_FAILED_PATTERN.test(line)) {
+			this.compileErrors.push(line.trim());
+			this.log.appendLine('[SuperCollider] Class library compilation failed');
+			this.dropQueue('the class library failed to compile');
+			this.setState('crashed');
+			this.failureEmitter.fire({ message: 'The class library failed to compile', details: this.compileErrors.join('\n') });
+		} else if (ERROR_PATTERN.test(line) || this.compileErrors.length > 0 && /^\s/.test(line)) {
+			// Errors and their indented details
+			this.compileErrors.push(line.trim());
+		}
+	}
+
+	private flushQueue(): void {
+		for (const evaluation of this.queue.splice(0)) {
+			this.send(evaluation);
+		}
+	}
+
+	/**
+	 * Sends the code between markers, as separate commands so errors stay within the code. sclang
+	 * posts its result as `-> result`.
+	 */
+	private send(evaluation: Evaluation): void {
+		const marker = (kind: string) => `"${MARKER_PREFIX}${evaluation.id} ${kind}]".postln;${INTERPRET}`;
+		this.sent.push(evaluation);
+		this.write(marker('begin') + evaluation.code + INTERPRET_PRINT + marker('end'));
+	}
+
+	private write(text: string): void {
+		if (this.connection instanceof SclangBridge) {
+			this.connection.write(text);
+		} else {
+			this.connection?.stdin?.write(text);
+		}
+	}
+
+	private resetOutput(): void {
+		this.partialLine = '';
+		this.partialEmitted = 0;
+	}
+
+	private dropQueue(reason: string): void {
+		if (this.queue.length > 0) {
+			this.log.appendLine(`[SuperCollider] Discarded ${this.queue.length} pending evaluation(s): ${reason}`);
+			this.queue.splice(0).forEach(evaluation => evaluation.resolve(undefined));
+		}
+	}
+
+	/** Evaluations sent to an interpreter that is gone will not finish, they keep what they posted. */
+	private cancelSent(): void {
+		this.currentEvaluation = undefined;
+		this.sent.splice(0).forEach(evaluation => evaluation.resolve(evaluation.output.length > 0 ? { output: evaluation.output } : undefined));
+	}
+
+	private setState(state: SclangState): void {
+		if (this.currentState !== state) {
+			this.currentState = state;
+			this.stateEmitter.fire(state);
+		}
+	}
+}
+
+function getConnectionMode(): 'spawn' | 'attach' {
+	return workspace.getConfiguration('supercollider.connection').get<'spawn' | 'attach'>('mode', 'spawn');
+}
+
+function getSclangCandidates(): string[] {
+	const sclangPath = workspace.getConfiguration('supercollider').get<string>('sclangPath') || 'sclang';
+	if (sclangPath === 'sclang' && (process.platform === 'linux' || process.platform === 'win32')) {
+		return ['sclang', 'sclang.exe'];
+	}
+	return [sclangPath];
+}
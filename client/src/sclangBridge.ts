@@ -0,0 +1,108 @@
+/* --------------------------------------------------------------------------------------------
+ * sclang bridge: a socket to an interpreter that is already running, with a relay on the other end,
+ * such as the one in `sclangRelay.ts`, writing what it receives to the stdin of `sclang -i vscode`
+ * and sending back its output.
+ * ------------------------------------------------------------------------------------------ */
+
+import { createSocket, Socket as DatagramSocket } from 'dgram';
+import { createConnection, Socket } from 'net';
+import { workspace } from 'vscode';
+
+export type BridgeTransport = 'tcp' | 'udp' | 'unix';
+
+export interface BridgeSettings {
+	transport: BridgeTransport;
+	host: string;
+	port: number;
+	socketPath: string;
+	/** Milliseconds between attempts to connect again, 0 to not reconnect. */
+	reconnectInterval: number;
+}
+
+export interface BridgeHandlers {
+	onConnect(): void;
+	onData(text: string): void;
+	/** Called when the connection fails or is closed by the other end. */
+	onClose(error?: Error): void;
+}
+
+/** Largest datagram written, longer code is split. */
+const MAX_DATAGRAM = 8192;
+
+export function getBridgeSettings(): BridgeSettings {
+	const config = workspace.getConfiguration('supercollider.connection');
+	return {
+		transport: config.get<BridgeTransport>('transport', 'tcp'),
+		host: config.get<string>('host', '127.0.0.1'),
+		port: config.get<number>('port', 57200),
+		socketPath: config.get<string>('socketPath', ''),
+		reconnectInterval: Math.max(0, config.get<number>('reconnectInterval', 2000))
+	};
+}
+
+export function getBridgeAddress(settings: BridgeSettings): string {
+	const { transport, host, port, socketPath } = settings;
+	return transport === 'unix' ? socketPath : `${transport}://${host}:${port}`;
+}
+
+export class SclangBridge {
+	private socket: Socket | undefined;
+	private datagrams: DatagramSocket | undefined;
+	private closed = false;
+
+	constructor(readonly settings: BridgeSettings, private readonly handlers: BridgeHandlers) { }
+
+	get address(): string {
+		return getBridgeAddress(this.settings);
+	}
+
+	connect(): void {
+		if (this.settings.transport === 'udp') {
+			// There is no connection to wait for, the bridge answers the address code comes from
+			const socket = createSocket('udp4');
+			socket.on('message', (data: Buffer) => this.handlers.onData(data.toString()));
+			socket.on('error', error => this.close(error));
+			socket.connect(this.settings.port, this.settings.host, () => this.handlers.onConnect());
+			this.datagrams = socket;
+			return;
+		}
+		const socket = this.settings.transport === 'unix'
+			? createConnection(this.settings.socketPath)
+			: createConnection(this.settings.port, this.settings.host);
+		socket.setEncoding('utf8');
+		socket.on('connect', () => this.handlers.onConnect());
+		socket.on('data', (data: string) => this.handlers.onData(data));
+		socket.on('error', error => this.close(error));
+		socket.on('close', () => this.close());
+		this.socket = socket;
+	}
+
+	write(text: string): void {
+		if (this.datagrams) {
+			const data = Buffer.from(text, 'utf8');
+			for (let offset = 0; offset < data.length; offset += MAX_DATAGRAM) {
+				this.datagrams.send(data.subarray(offset, offset + MAX_DATAGRAM));
+			}
+		} else {
+			this.socket?.write(text);
+		}
+	}
+
+	/** Disconnects, without calling `onClose` when asked to. */
+	dispose(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.socket?.destroy();
+		this.datagrams?.close();
+	}
+
+	private close(error?: Error): void {
+		if (this.closed) {
+			return;
+		}
+		this.dispose();
+		this.handlers.onClose(error);
+	}
+}
@@ -0,0 +1,172 @@
+/* --------------------------------------------------------------------------------------------
+ * sclang error reports: parses the errors posted by an evaluation and shows them as diagnostics
+ * on the code that was sent.
+ * ------------------------------------------------------------------------------------------ */
+
+import {
+	Diagnostic,
+	DiagnosticCollection,
+	DiagnosticRelatedInformation,
+	DiagnosticSeverity,
+	Disposable,
+	languages,
+	Location,
+	Position,
+	Range,
+	TextDocument,
+	Uri
+} from 'vscode';
+
+export interface SclangError {
+	message: string;
+	/** Where a parse error points, zero-based, in the evaluated code unless `file` is set. */
+	location?: { file?: string; line: number; character: number; length: number };
+	/** Frames of the protected call stack if sclang posted one, else of the call stack. */
+	stack: string[];
+}
+
+/** The code an evaluation sent, `range` starting at its first character. */
+export interface EvaluatedCode {
+	document: TextDocument;
+	range: Range;
+}
+
+const MAX_FRAMES = 20;
+
+/** Reads `ERROR:` reports, their parse error position and call stack from posted lines. */
+export function parseSclangErrors(lines: string[]): SclangError[] {
+	const errors: SclangError[] = [];
+	let current: SclangError | undefined;
+	let section: 'body' | 'receiver' | 'stack' | 'ignore' = 'body';
+	let hasProtectedStack = false;
+	lines.forEach((line, index) => {
+		const error = /^ERROR: (.*)$/.exec(line);
+		if (error) {
+			// Follows the report of the parse error itself
+			if (error[1].trim() === 'Command line parse failed') {
+				current = undefined;
+				return;
+			}
+			current = { message: error[1].trim(), stack: [] };
+			errors.push(current);
+			section = 'body';
+			hasProtectedStack = false;
+			return;
+		}
+		if (!current) {
+			return;
+		}
+		if (/^\^\^ /.test(line) || /^-{10,}$/.test(line)) {
+			current = undefined;
+			return;
+		}
+		if (/^PROTECTED CALL STACK:/.test(line)) {
+			section = 'stack';
+			hasProtectedStack = true;
+			return;
+		}
+		if (/^CALL STACK:/.test(line)) {
+			section = hasProtectedStack ? 'ignore' : 'stack';
+			return;
+		}
+		if (/^RECEIVER:/.test(line)) {
+			section = 'receiver';
+			return;
+		}
+		if (section === 'receiver') {
+			if (line.trim()) {
+				current.message += ` (receiver: ${line.trim()})`;
+			}
+			section = 'body';
+			return;
+		}
+		if (section !== 'body') {
+			// Frames are indented once, their arguments and variables twice
+			const frame = /^\t([^\t]+)/.exec(line);
+			if (section === 'stack' && frame && current.stack.length < MAX_FRAMES) {
+				current.stack.push(frame[1].trim());
+			}
+			return;
+		}
+		const file = /^\s*in file '(.*)'/.exec(line);
+		if (file) {
+			current.location = { line: 0, character: 0, length: 1, ...current.location, file: file[1] };
+			return;
+		}
+		const position = /^\s*line (\d+) char (\d+):/.exec(line);
+		if (position) {
+			current.location = {
+				file: current.location?.file,
+				line: Math.max(0, Number(position[1]) - 1),
+				character: Math.max(0, Number(position[2]) - 1),
+				length: 1
+			};
+			return;
+		}
+		// Carets under the echoed source line, both indented by two spaces
+		const carets = /^(\s*)(\^+)\s*$/.exec(line);
+		if (carets && current.location && index > 0 && lines[index - 1].trim()) {
+			current.location.character = Math.max(0, carets[1].length - 2);
+			current.location.length = carets[2].length;
+		}
+	});
+	return errors;
+}
+
+interface Entry {
+	source: EvaluatedCode;
+	diagnostics: [Uri, Diagnostic][];
+}
+
+/** Errors of the latest evaluation of each region, replaced when the region is evaluated again. */
+export class EvaluationDiagnostics implements Disposable {
+	private readonly collection: DiagnosticCollection = languages.createDiagnosticCollection('sclang');
+	private entries: Entry[] = [];
+
+	update(source: EvaluatedCode, errors: SclangError[]): void {
+		const uri = source.document.uri.toString();
+		this.entries = this.entries.filter(entry => entry.source.document.uri.toString() !== uri || !entry.source.range.intersection(source.range));
+		if (errors.length > 0) {
+			this.entries.push({ source, diagnostics: errors.map(error => this.toDiagnostic(source, error)) });
+		}
+		this.publish();
+	}
+
+	dispose(): void {
+		this.collection.dispose();
+	}
+
+	private toDiagnostic(source: EvaluatedCode, error: SclangError): [Uri, Diagnostic] {
+		const start = source.range.start;
+		let uri = source.document.uri;
+		let range: Range;
+		if (error.location?.file) {
+			uri = Uri.file(error.location.file);
+			const position = new Position(error.location.line, error.location.character);
+			range = new Range(position, position.translate(0, error.location.length));
+		} else if (error.location) {
+			// Columns of the first line count from the start of the evaluated code
+			const line = start.line + error.location.line;
+			const character = (error.location.line === 0 ? start.character : 0) + error.location.character;
+			range = new Range(line, character, line, character + error.location.length);
+		} else {
+			// Runtime errors have no position, they go on the first line of the code
+			range = new Range(start, start.line === source.range.end.line ? source.range.end : source.document.lineAt(start.line).range.end);
+		}
+		const diagnostic = new Diagnostic(range, error.message, DiagnosticSeverity.Error);
+		diagnostic.source = 'sclang';
+		diagnostic.relatedInformation = error.stack.map(frame => new DiagnosticRelatedInformation(new Location(source.document.uri, source.range), frame));
+		return [uri, diagnostic];
+	}
+
+	private publish(): void {
+		const byUri = new Map<string, [Uri, Diagnostic[]]>();
+		for (const [uri, diagnostic] of this.entries.flatMap(entry => entry.diagnostics)) {
+			const diagnostics = byUri.get(uri.toString()) ?? [uri, []];
+			diagnostics[1].push(diagnostic);
+			byUri.set(uri.toString(), diagnostics);
+		}
+		this.collection.clear();
+		this.collection.set([...byUri.values()]);
+	}
+}
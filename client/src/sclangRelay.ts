@@ -0,0 +1,173 @@
+/* --------------------------------------------------------------------------------------------
+ * sclang relay: the other end of attach mode. Keeps `sclang -i vscode` running, writes what it
+ * receives on a TCP, UDP or Unix socket to its stdin and sends its output to everyone connected.
+ * Runs in Node, outside the editor:
+ *
+ *   node sclangRelay.js [--transport tcp|udp|unix] [--host 127.0.0.1] [--port 57200] [--socket path] [-- sclang [flags...]]
+ * ------------------------------------------------------------------------------------------ */
+
+import { spawn } from 'child_process';
+import { createSocket, RemoteInfo } from 'dgram';
+import { createServer, Socket } from 'net';
+import { BridgeSettings } from './sclangBridge';
+
+export type RelaySettings = Omit<BridgeSettings, 'reconnectInterval'>;
+
+export interface Relay {
+	/** The port listened on over TCP or UDP, the one the system chose when asked for 0. */
+	readonly port: number;
+	/** Resolves with the exit code of sclang, the relay stops with it. */
+	readonly exited: Promise<number | null>;
+	/** Stops listening and then sclang. */
+	close(): Promise<void>;
+}
+
+/** Largest datagram written, longer output is split. */
+const MAX_DATAGRAM = 8192;
+
+const DEFAULT_SETTINGS: RelaySettings = { transport: 'tcp', host: '127.0.0.1', port: 57200, socketPath: '' };
+
+/** Starts `command`, sclang and the flags before `-i vscode`, and listens as `settings` say. */
+export async function startRelay(settings: RelaySettings, command: string[]): Promise<Relay> {
+	const proc = spawn(command[0], [...command.slice(1), '-i', 'vscode'], { stdio: ['pipe', 'pipe', 'pipe'] });
+	const exited = new Promise<number | null>(resolve => {
+		proc.on('exit', code => resolve(code));
+		proc.on('error', () => resolve(null));
+	});
+	let send: (data: Buffer) => void;
+	let port = 0;
+	let stopListening: () => Promise<void>;
+
+	if (settings.transport === 'udp') {
+		// Output goes to every address code came from
+		const remotes = new Map<string, RemoteInfo>();
+		const socket = createSocket('udp4');
+		socket.on('message', (data, remote) => {
+			remotes.set(`${remote.address}:${remote.port}`, remote);
+			proc.stdin.write(data);
+		});
+		await new Promise<void>((resolve, reject) => {
+			socket.once('error', reject);
+			socket.bind(settings.port, settings.host, resolve);
+		}).catch(err => {
+			proc.kill();
+			throw err;
+		});
+		port = socket.address().port;
+		send = data => remotes.forEach(remote => {
+			for (let offset = 0; offset < data.length; offset += MAX_DATAGRAM) {
+				socket.send(data.subarray(offset, offset + MAX_DATAGRAM), remote.port, remote.address);
+			}
+		});
+		stopListening = () => new Promise(resolve => socket.close(resolve));
+	} else {
+		const clients = new Set<Socket>();
+		const server = createServer(client => {
+			clients.add(client);
+			client.on('data', data => proc.stdin.write(data));
+			client.on('error', () => client.destroy());
+			client.on('close', () => clients.delete(client));
+		});
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			if (settings.transport === 'unix') {
+				server.listen(settings.socketPath, resolve);
+			} else {
+				server.listen(settings.port, settings.host, resolve);
+			}
+		}).catch(err => {
+			proc.kill();
+			throw err;
+		});
+		const address = server.address();
+		port = address && typeof address === 'object' ? address.port : 0;
+		send = data => clients.forEach(client => client.write(data));
+		stopListening = () => new Promise(resolve => {
+			clients.forEach(client => client.destroy());
+			server.close(() => resolve());
+		});
+	}
+
+	let stopped: Promise<void> | undefined;
+	const stop = () => stopped ??= stopListening();
+
+	proc.stdout.on('data', (data: Buffer) => send(data));
+	proc.stderr.on('data', (data: Buffer) => send(data));
+	// sclang stops reading a closed stdin, nothing is left to relay
+	proc.stdin.on('error', () => undefined);
+	exited.then(stop);
+
+	return {
+		port,
+		exited,
+		async close() {
+			await stop();
+			if (proc.exitCode === null && proc.signalCode === null) {
+				proc.kill();
+				await exited;
+			}
+		}
+	};
+}
+
+/** Reads the flags of the command line, everything after `--` starts sclang. */
+function parseArguments(args: string[]): { settings: RelaySettings; command: string[] } {
+	const settings = { ...DEFAULT_SETTINGS };
+	const separator = args.indexOf('--');
+	const flags = separator >= 0 ? args.slice(0, separator) : args;
+	const command = separator >= 0 ? args.slice(separator + 1) : [];
+	for (let index = 0; index < flags.length; index += 2) {
+		const [flag, value = ''] = [flags[index], flags[index + 1]];
+		switch (flag) {
+			case '--transport':
+				if (value !== 'tcp' && value !== 'udp' && value !== 'unix') {
+					throw new Error(`Unknown transport '${value}', use tcp, udp or unix`);
+				}
+				settings.transport = value;
+				break;
+			case '--host':
+				settings.host = value;
+				break;
+			case '--port':
+				settings.port = Number(value);
+				break;
+			case '--socket':
+				settings.socketPath = value;
+				break;
+			default:
+				throw new Error(`Unknown flag '${flag}'`);
+		}
+	}
+	if (settings.transport === 'unix' && !settings.socketPath) {
+		throw new Error('Set the path of the Unix socket with --socket');
+	}
+	return { settings, command: command.length > 0 ? command : ['sclang'] };
+}
+
+if (require.main === module) {
+	try {
+		const { settings, command } = parseArguments(process.argv.slice(2));
+		startRelay(settings, command).then(relay => {
+			console.log(`Relaying ${command[0]} on ${settings.transport === 'unix' ? settings.socketPath : `${settings.transport}://${settings.host}:${relay.port}`}`);
+			let closing = false;
+			const close = () => {
+				closing = true;
+				relay.close().then(() => process.exit(0));
+			};
+			process.on('SIGINT', close);
+			process.on('SIGTERM', close);
+			relay.exited.then(code => {
+				if (!closing) {
+					console.log(`${command[0]} exited with code ${code}`);
+					process.exit(code ?? 1);
+				}
+			});
+		}, (err: Error) => {
+			console.error(`Cannot start the relay: ${err.message}`);
+			process.exit(1);
+		});
+	} catch (err) {
+		console.error(err instanceof Error ? err.message : String(err));
+		process.exit(1);
+	}
+}
@@ -0,0 +1,162 @@
+/* --------------------------------------------------------------------------------------------
+ * scsynth status: polls the audio server with OSC `/status` over UDP.
+ * ------------------------------------------------------------------------------------------ */
+
+import { createSocket, Socket } from 'dgram';
+import { Disposable, Event, EventEmitter, workspace } from 'vscode';
+import { decodePacket, encodeMessage, OscArgument, OscMessage } from './osc';
+
+export interface ServerStatus {
+	ugens: number;
+	synths: number;
+	groups: number;
+	synthDefs: number;
+	averageCPU: number;
+	peakCPU: number;
+	nominalSampleRate: number;
+	actualSampleRate: number;
+}
+
+export interface ServerSettings {
+	host: string;
+	port: number;
+	/** Milliseconds between `/status` requests. */
+	pollInterval: number;
+}
+
+/** Polls without a reply after which the server counts as down. */
+const MISSED_REPLIES = 3;
+const REPLY_TIMEOUT = 1000;
+
+export function getServerSettings(): ServerSettings {
+	const config = workspace.getConfiguration('supercollider.server');
+	return {
+		host: config.get<string>('host', '127.0.0.1'),
+		port: config.get<number>('port', 57110),
+		pollInterval: Math.max(100, config.get<number>('pollInterval', 1000))
+	};
+}
+
+function toStatus(message: OscMessage): ServerStatus | undefined {
+	const values = message.args.slice(1, 9);
+	if (values.length < 8 || values.some(value => typeof value !== 'number')) {
+		return undefined;
+	}
+	const [ugens, synths, groups, synthDefs, averageCPU, peakCPU, nominalSampleRate, actualSampleRate] = values as number[];
+	return { ugens, synths, groups, synthDefs, averageCPU, peakCPU, nominalSampleRate, actualSampleRate };
+}
+
+export class ScsynthClient implements Disposable {
+	private socket: Socket | undefined;
+	private timer: ReturnType<typeof setInterval> | undefined;
+	private missedReplies = 0;
+	private currentStatus: ServerStatus | undefined;
+	private readonly statusEmitter = new EventEmitter<ServerStatus | undefined>();
+	/** Callers waiting for a reply, by reply address. */
+	private readonly waiting = new Map<string, ((message: OscMessage) => void)[]>();
+
+	/** Fires with each status reply, and with `undefined` when the server goes down. */
+	readonly onDidChangeStatus: Event<ServerStatus | undefined> = this.statusEmitter.event;
+
+	constructor(private settings: ServerSettings) { }
+
+	/** The last status, `undefined` while the server is down. */
+	get status(): ServerStatus | undefined {
+		return this.currentStatus;
+	}
+
+	get address(): string {
+		return `${this.settings.host}:${this.settings.port}`;
+	}
+
+	/** Polls another address or at another interval, from now on. */
+	configure(settings: ServerSettings): void {
+		this.settings = settings;
+		if (this.timer) {
+			this.start();
+		}
+	}
+
+	start(): void {
+		this.stop();
+		const socket = createSocket('udp4');
+		socket.on('message', (data: Buffer) => this.handlePacket(data));
+		// Nobody listening on the port, which is how a stopped server looks
+		socket.on('error', () => this.setStatus(undefined));
+		this.socket = socket;
+		this.missedReplies = 0;
+		this.poll();
+		this.timer = setInterval(() => this.poll(), this.settings.pollInterval);
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+		this.socket?.close();
+		this.socket = undefined;
+	}
+
+	/** Sends an OSC message to the server. */
+	send(address: string, ...args: OscArgument[]): void {
+		this.socket?.send(encodeMessage(address, args), this.settings.port, this.settings.host);
+	}
+
+	/** Sends a message and resolves with the next `replyAddress` message, `undefined` on timeout. */
+	request(replyAddress: string, address: string, ...args: OscArgument[]): Promise<OscMessage | undefined> {
+		return new Promise(resolve => {
+			const waiters = this.waiting.get(replyAddress) ?? [];
+			const timer = setTimeout(() => {
+				const index = waiters.indexOf(receive);
+				if (index >= 0) {
+					waiters.splice(index, 1);
+				}
+				resolve(undefined);
+			}, REPLY_TIMEOUT);
+			const receive = (message: OscMessage) => {
+				clearTimeout(timer);
+				resolve(message);
+			};
+			waiters.push(receive);
+			this.waiting.set(replyAddress, waiters);
+			this.send(address, ...args);
+		});
+	}
+
+	dispose(): void {
+		this.stop();
+		this.statusEmitter.dispose();
+	}
+
+	private poll(): void {
+		if (++this.missedReplies > MISSED_REPLIES) {
+			this.setStatus(undefined);
+		}
+		this.send('/status');
+	}
+
+	private handlePacket(data: Buffer): void {
+		let messages: OscMessage[];
+		try {
+			messages = decodePacket(data);
+		} catch {
+			return;
+		}
+		for (const message of messages) {
+			this.waiting.get(message.address)?.shift()?.(message);
+			const status = message.address === '/status.reply' ? toStatus(message) : undefined;
+			if (status) {
+				this.missedReplies = 0;
+				this.setStatus(status);
+			}
+		}
+	}
+
+	private setStatus(status: ServerStatus | undefined): void {
+		if (status || this.currentStatus) {
+			this.currentStatus = status;
+			this.statusEmitter.fire(status);
+		}
+	}
+}
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { splitRegions, wrapForPost } from '../codeRegions';
+
+describe('wrapForPost', () => {
+	it('posts the value of a line', () => {
+		assert.strictEqual(wrapForPost('1 + 2'), '{1 + 2\n}.value.postln');
+	});
+
+	it('keeps a trailing line comment away from the closing brace', () => {
+		assert.strictEqual(wrapForPost('1 + 2 // sum'), '{1 + 2 // sum\n}.value.postln');
+	});
+
+	it('turns the parentheses of a region into the braces of the function', () => {
+		assert.strictEqual(wrapForPost('(\nvar x = 1;\nx + 1\n)'), '{\nvar x = 1;\nx + 1\n\n}.value.postln');
+	});
+
+	it('cuts a region at its brackets, not at the ends of the text', () => {
+		assert.strictEqual(wrapForPost('// sum\n(1 + 2) // three'), '// sum\n{1 + 2\n}.value.postln');
+	});
+
+	it('leaves code that is not one region in the function', () => {
+		assert.strictEqual(wrapForPost('(1).postln; (2)'), '{(1).postln; (2)\n}.value.postln');
+	});
+});
+
+describe('splitRegions', () => {
+	it('keeps the code between regions, without the space around it', () => {
+		const text = '(\n1\n)\n\nx = 2;\n\n(3)\n';
+		assert.deepStrictEqual(splitRegions(text).map(span => [text.substring(span.start, span.end), span.region]), [
+			['(\n1\n)', true],
+			['x = 2;', false],
+			['(3)', true]
+		]);
+	});
+});
@@ -0,0 +1,185 @@
+import * as assert from 'assert';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { DebugProtocolMessage, OutputChannel, WorkspaceFolder } from 'vscode';
+import { SclangDebugAdapter, SclangDebugConfigurationProvider } from '../debugAdapter';
+import { Uri } from './vscode';
+
+interface Message<Body = unknown> {
+	seq: number;
+	type: 'response' | 'event';
+	request_seq?: number;
+	command?: string;
+	event?: string;
+	success?: boolean;
+	message?: string;
+	body: Body;
+}
+
+interface OutputBody {
+	output: string;
+}
+
+interface StoppedBody {
+	reason: string;
+}
+
+interface StackTraceBody {
+	stackFrames: { id: number; name: string; source?: { name: string; path: string }; line: number; column: number; presentationHint: string }[];
+}
+
+interface SetBreakpointsBody {
+	breakpoints: { verified: boolean; line: number }[];
+}
+
+interface EvaluateBody {
+	result: string;
+}
+
+const PROGRAM = `(
+"first".postln;
+)
+
+1 + 2;
+
+(
+nil.nonsense;
+)
+
+(
+"last".postln;
+)
+`;
+
+/** Sends requests to the adapter the way the editor does, and keeps what it sends back. */
+class Client {
+	readonly messages: Message[] = [];
+	private seq = 1;
+	private readonly waiting: { test: (message: Message) => boolean; resolve: (message: Message) => void }[] = [];
+
+	constructor(readonly adapter: SclangDebugAdapter) {
+		adapter.onDidSendMessage(value => {
+			const message = value as Message;
+			this.messages.push(message);
+			this.waiting.filter(waiter => waiter.test(message)).forEach(waiter => {
+				this.waiting.splice(this.waiting.indexOf(waiter), 1);
+				waiter.resolve(message);
+			});
+		});
+	}
+
+	/** The response to the request, with the body the protocol gives it. */
+	request<Body = unknown>(command: string, args?: Record<string, unknown>): Promise<Message<Body>> {
+		const seq = this.seq++;
+		const response = this.next<Body>(message => message.type === 'response' && message.request_seq === seq);
+		this.adapter.handleMessage({ seq, type: 'request', command, arguments: args } as DebugProtocolMessage);
+		return response;
+	}
+
+	event<Body = unknown>(event: string): Promise<Message<Body>> {
+		return this.next<Body>(message => message.type === 'event' && message.event === event);
+	}
+
+	get output(): string {
+		return this.messages.filter(message => message.event === 'output').map(message => (message.body as OutputBody).output).join('');
+	}
+
+	next<Body = unknown>(test: (message: Message) => boolean): Promise<Message<Body>> {
+		return new Promise(resolve => this.waiting.push({ test, resolve: message => resolve(message as Message<Body>) }));
+	}
+}
+
+const log = { appendLine: () => undefined } as unknown as OutputChannel;
+
+describe('SclangDebugAdapter', function () {
+	this.timeout(10000);
+
+	let directory: string;
+	let program: string;
+	let client: Client;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), 'sclang-debug-'));
+		program = path.join(directory, 'program.scd');
+		await writeFile(program, PROGRAM);
+		client = new Client(new SclangDebugAdapter(log));
+	});
+
+	afterEach(async () => {
+		await client.request('disconnect');
+		client.adapter.dispose();
+		await rm(directory, { recursive: true });
+	});
+
+	async function launch(): Promise<void> {
+		await client.request('initialize', { adapterID: 'supercollider' });
+		const launched = await client.request('launch', {
+			program,
+			sclangPath: process.execPath,
+			args: [path.join(__dirname, 'fakeSclang.js')]
+		});
+		assert.ok(launched.success, launched.message);
+		const breakpoints = await client.request<SetBreakpointsBody>('setBreakpoints', { source: { path: program }, breakpoints: [{ line: 2 }] });
+		assert.deepStrictEqual(breakpoints.body.breakpoints.map(breakpoint => [breakpoint.verified, breakpoint.line]), [[false, 2]]);
+		await client.request('configurationDone');
+	}
+
+	it('runs the program region by region and stops on an error until continued', async () => {
+		const stopped = client.event<StoppedBody>('stopped');
+		await launch();
+		assert.strictEqual((await stopped).body.reason, 'exception');
+		assert.match(client.output, /first\n/);
+		assert.doesNotMatch(client.output, /last/);
+
+		const frames = (await client.request<StackTraceBody>('stackTrace', { threadId: 1 })).body.stackFrames;
+		assert.deepStrictEqual(frames.find(frame => frame.name === 'a FunctionDef'), {
+			id: 3, name: 'a FunctionDef', source: { name: 'program.scd', path: program }, line: 7, column: 1, presentationHint: 'normal'
+		});
+		assert.strictEqual(frames.find(frame => frame.name === 'Nil:nonsense')?.presentationHint, 'subtle');
+
+		const ran = client.next(message => message.event === 'output' && /last/.test((message.body as OutputBody).output));
+		await client.request('continue', { threadId: 1 });
+		await ran;
+		assert.ok(client.output.indexOf('first') < client.output.indexOf('last'));
+	});
+
+	it('evaluates code from the Debug Console and quits the server when terminated', async () => {
+		const stopped = client.event('stopped');
+		await launch();
+		await stopped;
+
+		const evaluation = await client.request<EvaluateBody>('evaluate', { expression: '40 + 2', context: 'repl' });
+		assert.strictEqual(evaluation.body.result, '42');
+		const failed = await client.request('evaluate', { expression: 'nil.nonsense', context: 'repl' });
+		assert.strictEqual(failed.success, false);
+		assert.match(failed.message ?? '', /not understood/);
+		const stepped = await client.request('next', { threadId: 1 });
+		assert.strictEqual(stepped.success, false);
+		const paused = await client.request('pause', { threadId: 1 });
+		assert.deepStrictEqual([paused.success, paused.message], [false, 'sclang cannot be paused']);
+
+		const terminated = client.event('terminated');
+		await client.request('terminate');
+		await terminated;
+		assert.match(client.output, /\/quit sent/);
+	});
+
+	it('wants an absolute program outside a workspace folder', async () => {
+		await client.request('initialize', { adapterID: 'supercollider' });
+		const launched = await client.request('launch', { program: 'program.scd' });
+		assert.strictEqual(launched.success, false);
+		assert.match(launched.message ?? '', /absolute path/);
+	});
+});
+
+describe('SclangDebugConfigurationProvider', () => {
+	it('resolves relative paths against the workspace folder', () => {
+		const folder = { uri: Uri.file('/work'), name: 'work', index: 0 };
+		const configuration = new SclangDebugConfigurationProvider().resolveDebugConfiguration(
+			folder as unknown as WorkspaceFolder,
+			{ type: 'supercollider', request: 'launch', name: 'Run', program: 'pieces/main.scd', cwd: 'lib' }
+		);
+		assert.deepStrictEqual([configuration?.program, configuration?.cwd], [path.join('/work', 'pieces/main.scd'), path.join('/work', 'lib')]);
+	});
+});
@@ -0,0 +1,96 @@
+/* --------------------------------------------------------------------------------------------
+ * A stand-in for `sclang -i vscode` in the tests. It reads code on stdin like sclang does and
+ * answers some of it: strings posted with `.postln`, sums of numbers, `s.quit`, `nonsense`,
+ * which is not understood, and `@@`, which does not parse.
+ * ------------------------------------------------------------------------------------------ */
+
+import { stdin, stdout } from 'process';
+
+const INTERPRET = '\x1b';
+const INTERPRET_PRINT = '\x0c';
+
+function post(text: string): void {
+	stdout.write(`${text}\n`);
+}
+
+function postParseError(code: string, offset: number): void {
+	const before = code.substring(0, offset);
+	const line = before.split('\n').length;
+	const character = offset - before.lastIndexOf('\n');
+	post('ERROR: syntax error, unexpected BINOP');
+	post('  in interpreted text');
+	post(`  line ${line} char ${character}:`);
+	post('');
+	post(`  ${code.split('\n')[line - 1]}`);
+	post(`  ${' '.repeat(character - 1)}^^`);
+	post('-----------------------------------');
+	post('ERROR: Command line parse failed');
+}
+
+function postRuntimeError(): void {
+	post('ERROR: Message \'nonsense\' not understood.');
+	post('RECEIVER:');
+	post('   nil');
+	post('CALL STACK:');
+	post('\tDoesNotUnderstandError:reportError');
+	post('\t\targ this = <instance of DoesNotUnderstandError>');
+	post('\tNil:nonsense');
+	post('\ta FunctionDef');
+	post('\t\tsourceCode = "<an open Function>"');
+	post('\tInterpreter:interpretPrintCmdLine');
+	post('^^ ERROR: Message \'nonsense\' not understood.');
+	post('RECEIVER: nil');
+}
+
+/** Runs code, returning its value or `undefined` after an error. */
+function evaluate(code: string): string | undefined {
+	const parseError = code.indexOf('@@');
+	if (parseError >= 0) {
+		postParseError(code, parseError);
+		return undefined;
+	}
+	if (code.includes('nonsense')) {
+		postRuntimeError();
+		return undefined;
+	}
+	if (code.trim() === 's.quit;') {
+		post('/quit sent');
+		return 'localhost';
+	}
+	let value = 'nil';
+	for (const match of code.matchAll(/"([^"]*)"\.postln|(\d+(?:\s*\+\s*\d+)*)/g)) {
+		if (match[1] !== undefined) {
+			post(match[1]);
+			value = match[1];
+		} else {
+			value = String(match[2].split('+').reduce((sum, term) => sum + Number(term), 0));
+		}
+	}
+	return value;
+}
+
+let input = '';
+stdin.on('data', (data: Buffer) => {
+	input += data.toString();
+	for (;;) {
+		const end = [input.indexOf(INTERPRET), input.indexOf(INTERPRET_PRINT)].filter(index => index >= 0).sort((a, b) => a - b)[0];
+		if (end === undefined) {
+			break;
+		}
+		const code = input.substring(0, end);
+		const print = input[end] === INTERPRET_PRINT;
+		input = input.substring(end + 1);
+		// The result hook and the path of the program
+		if (code.startsWith('var hook') || code.startsWith('thisProcess.')) {
+			continue;
+		}
+		const value = evaluate(code);
+		if (print && value !== undefined) {
+			post(`[vscode-eval result]${value}`);
+			post(`-> ${value}`);
+		}
+	}
+});
+
+post('compiling class library...');
+setTimeout(() => post('*** Welcome to SuperCollider 3.13.0. *** For help type cmd-d.'), 50);
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { OutputChannel } from 'vscode';
+import { Sclang } from '../sclang';
+import { BridgeTransport } from '../sclangBridge';
+import { Relay, startRelay } from '../sclangRelay';
+import { settings } from './vscode';
+
+const log = { appendLine: () => undefined } as unknown as OutputChannel;
+
+function attach(sclang: Sclang): Promise<void> {
+	return new Promise(resolve => {
+		const listener = sclang.onDidChangeState(state => {
+			if (state === 'ready') {
+				listener.dispose();
+				resolve();
+			}
+		});
+		sclang.start();
+	});
+}
+
+describe('sclang relay', function () {
+	this.timeout(10000);
+
+	let directory: string;
+	let relay: Relay | undefined;
+	let sclang: Sclang | undefined;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(path.join(tmpdir(), 'sclang-relay-'));
+	});
+
+	afterEach(async () => {
+		await sclang?.stop();
+		sclang?.dispose();
+		await relay?.close();
+		settings.clear();
+		await rm(directory, { recursive: true });
+	});
+
+	for (const transport of ['tcp', 'udp', 'unix'] as BridgeTransport[]) {
+		it(`lets attach mode use the interpreter over ${transport}, which keeps running when detached`, async () => {
+			const socketPath = path.join(directory, 'sclang.sock');
+			relay = await startRelay({ transport, host: '127.0.0.1', port: 0, socketPath }, [process.execPath, path.join(__dirname, 'fakeSclang.js')]);
+			settings.set('supercollider.connection.mode', 'attach');
+			settings.set('supercollider.connection.transport', transport);
+			settings.set('supercollider.connection.port', relay.port);
+			settings.set('supercollider.connection.socketPath', socketPath);
+			sclang = new Sclang(log);
+
+			await attach(sclang);
+			assert.strictEqual((await sclang.evaluate('1 + 2'))?.result, '3');
+			await sclang.stop();
+			await attach(sclang);
+			const evaluation = await sclang.evaluate('"again".postln;');
+			assert.deepStrictEqual([evaluation?.output, evaluation?.result], [['again', '-> again'], 'again']);
+		});
+	}
+});
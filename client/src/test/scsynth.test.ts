@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { createSocket, Socket } from 'dgram';
+import { AddressInfo } from 'net';
+import { decodePacket, encodeMessage } from '../osc';
+import { ScsynthClient, ServerStatus } from '../scsynth';
+
+/** A stand-in for scsynth answering `/status` the way it does. */
+async function startServer(): Promise<Socket> {
+	const server = createSocket('udp4');
+	server.on('message', (data, remote) => {
+		if (decodePacket(data)[0]?.address === '/status') {
+			const reply = encodeMessage('/status.reply', [
+				1, 12, 3, 2, 40,
+				{ type: 'f', value: 1.5 }, { type: 'f', value: 4.25 },
+				{ type: 'd', value: 48000 }, { type: 'd', value: 48000.5 }
+			]);
+			server.send(reply, remote.port, remote.address);
+		}
+	});
+	await new Promise<void>(resolve => server.bind(0, '127.0.0.1', resolve));
+	return server;
+}
+
+function nextStatus(client: ScsynthClient): Promise<ServerStatus | undefined> {
+	return new Promise(resolve => {
+		const listener = client.onDidChangeStatus(status => {
+			listener.dispose();
+			resolve(status);
+		});
+	});
+}
+
+describe('ScsynthClient', () => {
+	let server: Socket;
+	let client: ScsynthClient;
+
+	beforeEach(async () => {
+		server = await startServer();
+		client = new ScsynthClient({ host: '127.0.0.1', port: (server.address() as AddressInfo).port, pollInterval: 100 });
+	});
+
+	afterEach(() => {
+		client.dispose();
+		server.close();
+	});
+
+	it('reads the status from /status.reply', async () => {
+		const status = nextStatus(client);
+		client.start();
+		assert.deepStrictEqual(await status, {
+			ugens: 12,
+			synths: 3,
+			groups: 2,
+			synthDefs: 40,
+			averageCPU: 1.5,
+			peakCPU: 4.25,
+			nominalSampleRate: 48000,
+			actualSampleRate: 48000.5
+		});
+		assert.strictEqual(client.status?.synths, 3);
+	});
+
+	it('reports the server down after polls without a reply', async () => {
+		const first = nextStatus(client);
+		client.start();
+		let status = await first;
+		server.removeAllListeners('message');
+		// Replies already on their way still count
+		while (status) {
+			status = await nextStatus(client);
+		}
+		assert.strictEqual(client.status, undefined);
+	});
+});
@@ -0,0 +1,13 @@
+/* --------------------------------------------------------------------------------------------
+ * Loaded by mocha before the tests: `vscode` only exists inside the editor, the tests get the
+ * stand-in next to this file.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as Module from 'module';
+import * as path from 'path';
+
+const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+loader._resolveFilename = function (request, ...rest) {
+	return resolveFilename.call(this, request === 'vscode' ? path.join(__dirname, 'vscode.js') : request, ...rest);
+};
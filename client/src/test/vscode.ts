@@ -0,0 +1,65 @@
+/* --------------------------------------------------------------------------------------------
+ * The parts of the `vscode` module the tested modules use, so that their tests run in Node.
+ * Settings keep their defaults unless a test sets them, documents are read from disk.
+ * ------------------------------------------------------------------------------------------ */
+
+import { readFile } from 'fs/promises';
+
+export interface Disposable {
+	dispose(): void;
+}
+
+export type Event<T> = (listener: (value: T) => void) => Disposable;
+
+export class EventEmitter<T> {
+	private listeners: ((value: T) => void)[] = [];
+
+	readonly event: Event<T> = listener => {
+		this.listeners.push(listener);
+		return { dispose: () => this.listeners = this.listeners.filter(other => other !== listener) };
+	};
+
+	fire(value: T): void {
+		[...this.listeners].forEach(listener => listener(value));
+	}
+
+	dispose(): void {
+		this.listeners = [];
+	}
+}
+
+export class Uri {
+	private constructor(readonly fsPath: string) { }
+
+	static file(path: string): Uri {
+		return new Uri(path);
+	}
+
+	toString(): string {
+		return `file://${this.fsPath}`;
+	}
+}
+
+/** Settings by their full name, those a test does not set keep their defaults. */
+export const settings = new Map<string, unknown>();
+
+export const workspace = {
+	getConfiguration: (section?: string) => ({
+		get: <T>(key: string, defaultValue?: T) => {
+			const name = section ? `${section}.${key}` : key;
+			return settings.has(name) ? settings.get(name) as T : defaultValue;
+		}
+	}),
+	openTextDocument: async (uri: Uri) => {
+		const text = await readFile(uri.fsPath, 'utf8');
+		const positionAt = (offset: number) => {
+			const before = text.substring(0, offset);
+			return { line: before.split('\n').length - 1, character: offset - before.lastIndexOf('\n') - 1 };
+		};
+		return { uri, fileName: uri.fsPath, languageId: 'supercollider', isUntitled: false, getText: () => text, positionAt };
+	}
+};
+
+export const window = {
+	showErrorMessage: async () => undefined
+};
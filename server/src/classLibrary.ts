@@ -0,0 +1,240 @@
+/*---------------------------------------------------------------------------------------------
+ *  Locates class library (.sc), help (.schelp) and workspace code files on disk and keeps the
+ *  indexes in sync with them.
+ *--------------------------------------------------------------------------------------------*/
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+
+/** An index built from the text of files, such as the class index or the workspace index. */
+export interface FileIndex {
+	updateFile(uri: string, text: string): void;
+	removeFile(uri: string): void;
+	hasFile(uri: string): boolean;
+	getFiles(): string[];
+}
+
+export interface HelpSettings {
+	/** Extra HelpSource directories to index. */
+	paths: string[];
+}
+
+export const defaultHelpSettings: HelpSettings = {
+	paths: []
+};
+
+export interface ClassLibrarySettings {
+	/** Extra directories to index. */
+	paths: string[];
+	/** Index the standard SCClassLibrary, Extensions and sclang_conf.yaml include paths. */
+	useDefaultPaths: boolean;
+	/** Index the `.sc` files of the open workspace folders. */
+	indexWorkspace: boolean;
+}
+
+export const defaultClassLibrarySettings: ClassLibrarySettings = {
+	paths: [],
+	useDefaultPaths: true,
+	indexWorkspace: true
+};
+
+// Directories never worth descending into
+const SKIPPED_DIRECTORIES = ['node_modules', 'out'];
+
+function expandHome(dir: string): string {
+	return dir === '~' || dir.startsWith('~/') ? path.join(os.homedir(), dir.substring(1)) : dir;
+}
+
+/** The per-user SuperCollider directory holding Extensions and sclang_conf.yaml. */
+function getUserAppSupportDirectory(): string {
+	switch (process.platform) {
+		case 'darwin':
+			return path.join(os.homedir(), 'Library', 'Application Support', 'SuperCollider');
+		case 'win32':
+			return path.join(process.env.LOCALAPPDATA ?? path.join(os.homedir(), 'AppData', 'Local'), 'SuperCollider');
+		default:
+			return path.join(process.env.XDG_DATA_HOME ?? path.join(os.homedir(), '.local', 'share'), 'SuperCollider');
+	}
+}
+
+function getConfigFile(): string {
+	if (process.platform === 'linux') {
+		return path.join(process.env.XDG_CONFIG_HOME ?? path.join(os.homedir(), '.config'), 'SuperCollider', 'sclang_conf.yaml');
+	}
+	return path.join(getUserAppSupportDirectory(), 'sclang_conf.yaml');
+}
+
+async function getSystemClassLibraries(): Promise<string[]> {
+	switch (process.platform) {
+		case 'darwin':
+			return ['/Applications/SuperCollider.app/Contents/Resources/SCClassLibrary'];
+		case 'win32': {
+			// Installers put each version in its own `SuperCollider-3.x.y` directory
+			const programFiles = process.env.ProgramFiles ?? 'C:\\Program Files';
+			const entries = await fs.readdir(programFiles).catch(() => [] as string[]);
+			return entries
+				.filter(entry => entry.startsWith('SuperCollider'))
+				.sort()
+				.reverse()
+				.slice(0, 1)
+				.map(entry => path.join(programFiles, entry, 'SCClassLibrary'));
+		}
+		default:
+			return ['/usr/share/SuperCollider/SCClassLibrary', '/usr/local/share/SuperCollider/SCClassLibrary'];
+	}
+}
+
+/** Reads the `includePaths` and `excludePaths` lists of sclang_conf.yaml, where installed Quarks are registered. */
+export function parseSclangConfig(text: string): { includePaths: string[]; excludePaths: string[] } {
+	const result = { includePaths: [] as string[], excludePaths: [] as string[] };
+	let current: string[] | undefined;
+	for (const line of text.split(/\r?\n/)) {
+		const key = /^(\w+):/.exec(line);
+		if (key) {
+			current = key[1] === 'includePaths' ? result.includePaths : key[1] === 'excludePaths' ? result.excludePaths : undefined;
+			continue;
+		}
+		const item = /^\s*-\s*(.+?)\s*$/.exec(line);
+		if (item && current) {
+			current.push(item[1].replace(/^(['"])(.*)\1$/, '$2'));
+		}
+	}
+	return result;
+}
+
+/** Directories of the local SuperCollider installation, and those to leave out. */
+export async function getDefaultClassLibraryPaths(): Promise<{ include: string[]; exclude: string[] }> {
+	const include = [...await getSystemClassLibraries(), path.join(getUserAppSupportDirectory(), 'Extensions')];
+	const config = await fs.readFile(getConfigFile(), 'utf8').catch(() => undefined);
+	if (config === undefined) {
+		return { include, exclude: [] };
+	}
+	const { includePaths, excludePaths } = parseSclangConfig(config);
+	return { include: [...include, ...includePaths], exclude: excludePaths };
+}
+
+/** Recursively lists the files with one of `extensions` under `directories`, following symlinks once. */
+async function findFiles(directories: string[], extensions: string[], exclude: string[], skip: Set<string>): Promise<string[]> {
+	const files: string[] = [];
+	const excluded = new Set(exclude.map(dir => path.resolve(expandHome(dir))));
+	const visited = new Set<string>();
+
+	const visit = async (dir: string): Promise<void> => {
+		const real = await fs.realpath(dir).catch(() => undefined);
+		if (!real || visited.has(real) || excluded.has(path.resolve(dir))) {
+			return;
+		}
+		visited.add(real);
+		const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+		for (const entry of entries) {
+			const child = path.join(dir, entry.name);
+			let isDirectory = entry.isDirectory();
+			if (entry.isSymbolicLink()) {
+				isDirectory = (await fs.stat(child).catch(() => undefined))?.isDirectory() ?? false;
+			}
+			if (isDirectory) {
+				if (!entry.name.startsWith('.') && !skip.has(entry.name)) {
+					await visit(child);
+				}
+			} else if (extensions.some(extension => entry.name.endsWith(extension))) {
+				files.push(child);
+			}
+		}
+	};
+
+	for (const dir of directories) {
+		await visit(path.resolve(expandHome(dir)));
+	}
+	return files;
+}
+
+export function findClassFiles(directories: string[], exclude: string[] = []): Promise<string[]> {
+	return findFiles(directories, ['.sc'], exclude, new Set([...SKIPPED_DIRECTORIES, 'HelpSource']));
+}
+
+/**
+ * Lists the help files under `directories` by help key, the path below the nearest `HelpSource`
+ * directory without extension: `Classes/SinOsc`.
+ */
+export async function findHelpFiles(directories: string[], exclude: string[] = []): Promise<Map<string, string>> {
+	const helpFiles = new Map<string, string>();
+	for (const dir of directories) {
+		const root = path.resolve(expandHome(dir));
+		for (const file of await findFiles([root], ['.schelp'], exclude, new Set(SKIPPED_DIRECTORIES))) {
+			const segments = path.relative(root, file).split(path.sep);
+			const helpSource = segments.lastIndexOf('HelpSource');
+			const key = segments.slice(helpSource + 1).join('/').replace(/\.schelp$/, '');
+			// The first directory wins, so the system library is not overridden by stray copies
+			if (!helpFiles.has(key)) {
+				helpFiles.set(key, file);
+			}
+		}
+	}
+	return helpFiles;
+}
+
+/** Lists every class file the settings ask for, as URIs. */
+export async function getClassLibraryFiles(settings: ClassLibrarySettings, workspaceFolders: string[]): Promise<string[]> {
+	const directories = [...settings.paths];
+	let exclude: string[] = [];
+	if (settings.useDefaultPaths) {
+		const defaults = await getDefaultClassLibraryPaths();
+		directories.push(...defaults.include);
+		exclude = defaults.exclude;
+	}
+	if (settings.indexWorkspace) {
+		directories.push(...workspaceFolders.map(folder => URI.parse(folder).fsPath));
+	}
+	const files = await findClassFiles(directories, exclude);
+	return [...new Set(files.map(file => URI.file(file).toString()))];
+}
+
+/** Lists every help file the settings ask for. Installed libraries keep their help next to their classes. */
+export async function getHelpFiles(settings: HelpSettings, classLibrarySettings: ClassLibrarySettings): Promise<Map<string, string>> {
+	const directories: string[] = [];
+	let exclude: string[] = [];
+	if (classLibrarySettings.useDefaultPaths) {
+		const systemLibraries = await getSystemClassLibraries();
+		directories.push(...systemLibraries.map(library => path.join(path.dirname(library), 'HelpSource')));
+		const defaults = await getDefaultClassLibraryPaths();
+		directories.push(...defaults.include.filter(dir => !systemLibraries.includes(dir)));
+		exclude = defaults.exclude;
+	}
+	directories.push(...settings.paths, ...classLibrarySettings.paths);
+	return findHelpFiles(directories, exclude);
+}
+
+/** Lists the code files of the workspace folders, as URIs: interpreter code and class files alike. */
+export async function getWorkspaceFiles(workspaceFolders: string[]): Promise<string[]> {
+	const directories = workspaceFolders.map(folder => URI.parse(folder).fsPath);
+	const files = await findFiles(directories, ['.scd', '.sc'], [], new Set(SKIPPED_DIRECTORIES));
+	return files.map(file => URI.file(file).toString());
+}
+
+/** Reads a file from disk into the index, dropping it if it no longer exists. */
+export async function indexFile(index: FileIndex, uri: string): Promise<void> {
+	const text = await fs.readFile(URI.parse(uri).fsPath, 'utf8').catch(() => undefined);
+	if (text === undefined) {
+		index.removeFile(uri);
+	} else {
+		index.updateFile(uri, text);
+	}
+}
+
+/** Brings the index in line with `files`: indexes new files and drops the ones no longer listed. */
+export async function syncIndex(index: FileIndex, files: string[]): Promise<void> {
+	const wanted = new Set(files);
+	for (const uri of index.getFiles()) {
+		if (!wanted.has(uri)) {
+			index.removeFile(uri);
+		}
+	}
+	const indexed = new Set(index.getFiles());
+	for (const uri of files) {
+		if (!indexed.has(uri)) {
+			await indexFile(index, uri);
+		}
+	}
+}
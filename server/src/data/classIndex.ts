@@ -0,0 +1,258 @@
+/*---------------------------------------------------------------------------------------------
+ *  Index of the classes defined in class library (.sc) files: inheritance, variables and the
+ *  argument lists of class and instance methods.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ClassDef, ClassExtension, MethodDef, Param } from '../parser/ast';
+import { parse } from '../parser/parser';
+import { ArgumentInfo, MethodSignature, SignatureDatabase } from './signatures';
+
+export interface MethodEntry extends MethodSignature {
+	location: Location;
+}
+
+export interface ClassEntry {
+	name: string;
+	/** The direct superclass, `Object` unless declared otherwise. Absent for `Object` itself. */
+	superclass?: string;
+	/** Where the class is defined. Absent for classes only seen through `+ Foo { }` extensions. */
+	location?: Location;
+	classVars: string[];
+	instanceVars: string[];
+	classMethods: Map<string, MethodEntry>;
+	instanceMethods: Map<string, MethodEntry>;
+}
+
+export interface ClassIndex extends SignatureDatabase {
+	/** Replaces everything previously indexed from `uri` with the classes defined in `text`. */
+	updateFile(uri: string, text: string): void;
+	removeFile(uri: string): void;
+	hasFile(uri: string): boolean;
+	/** The URIs of all indexed files. */
+	getFiles(): string[];
+	getClass(name: string): ClassEntry | undefined;
+	getClassNames(): string[];
+	/** The class followed by its superclasses, nearest first. */
+	getClassChain(name: string): ClassEntry[];
+	/** Finds a method in the class or the nearest superclass that defines it. */
+	findMethod(className: string, selector: string, isClassMethod: boolean): MethodEntry | undefined;
+	/** All methods understood by the class, overridden methods resolved to the nearest definition. */
+	getMethods(className: string, isClassMethod: boolean): MethodEntry[];
+	/** Every instance method selector in the index. */
+	getInstanceSelectors(): string[];
+	findInstanceMethods(selector: string): MethodEntry[];
+}
+
+/** What one file contributes to the index. */
+interface FileEntry {
+	classes: ClassEntry[];
+	extensions: { name: string; methods: MethodEntry[] }[];
+}
+
+function toArgument(text: string, param: Param, rest?: boolean): ArgumentInfo {
+	if (rest) {
+		return { name: param.name.name, rest };
+	}
+	const defaultValue = param.defaultValue && text.substring(param.defaultValue.start, param.defaultValue.end);
+	return { name: param.name.name, defaultValue };
+}
+
+function toMethodEntry(document: TextDocument, className: string, method: MethodDef): MethodEntry {
+	const text = document.getText();
+	const params = method.body.params;
+	const args = params ? params.params.map(param => toArgument(text, param)) : [];
+	if (params?.rest) {
+		args.push(toArgument(text, params.rest, true));
+	}
+	return {
+		className,
+		selector: method.name,
+		isClassMethod: method.isClassMethod,
+		args,
+		location: {
+			uri: document.uri,
+			range: { start: document.positionAt(method.nameStart), end: document.positionAt(method.nameEnd) }
+		}
+	};
+}
+
+function addMethod(entry: ClassEntry, method: MethodEntry): void {
+	(method.isClassMethod ? entry.classMethods : entry.instanceMethods).set(method.selector, method);
+}
+
+function toClassEntry(document: TextDocument, node: ClassDef): ClassEntry {
+	const name = node.name.name;
+	const entry: ClassEntry = {
+		name,
+		superclass: node.superclass?.name ?? (name === 'Object' ? undefined : 'Object'),
+		location: {
+			uri: document.uri,
+			range: { start: document.positionAt(node.name.start), end: document.positionAt(node.name.end) }
+		},
+		classVars: [],
+		instanceVars: [],
+		classMethods: new Map(),
+		instanceMethods: new Map()
+	};
+	for (const decl of node.vars) {
+		const isClassVar = decl.kind !== 'var';
+		for (const declarator of decl.declarators) {
+			const varName = declarator.name.name;
+			(isClassVar ? entry.classVars : entry.instanceVars).push(varName);
+			// `var <>x` defines the accessor methods `x` and `x_`
+			const location = {
+				uri: document.uri,
+				range: { start: document.positionAt(declarator.name.start), end: document.positionAt(declarator.name.end) }
+			};
+			if (declarator.getter) {
+				addMethod(entry, { className: name, selector: varName, isClassMethod: isClassVar, args: [], location });
+			}
+			if (declarator.setter) {
+				addMethod(entry, { className: name, selector: `${varName}_`, isClassMethod: isClassVar, args: [{ name: varName }], location });
+			}
+		}
+	}
+	for (const method of node.methods) {
+		addMethod(entry, toMethodEntry(document, name, method));
+	}
+	return entry;
+}
+
+function toExtension(document: TextDocument, node: ClassExtension): FileEntry['extensions'][number] {
+	return { name: node.name.name, methods: node.methods.map(method => toMethodEntry(document, node.name.name, method)) };
+}
+
+export function createClassIndex(): ClassIndex {
+	const files = new Map<string, FileEntry>();
+	// Merged view of all files, rebuilt lazily after a change
+	let classes: Map<string, ClassEntry> | undefined;
+	let instanceMethodsBySelector: Map<string, MethodEntry[]> | undefined;
+
+	const invalidate = () => {
+		classes = undefined;
+		instanceMethodsBySelector = undefined;
+	};
+
+	const getClasses = (): Map<string, ClassEntry> => {
+		if (classes) {
+			return classes;
+		}
+		classes = new Map();
+		for (const file of files.values()) {
+			for (const entry of file.classes) {
+				classes.set(entry.name, {
+					...entry,
+					classMethods: new Map(entry.classMethods),
+					instanceMethods: new Map(entry.instanceMethods)
+				});
+			}
+		}
+		for (const file of files.values()) {
+			for (const extension of file.extensions) {
+				let entry = classes.get(extension.name);
+				if (!entry) {
+					entry = {
+						name: extension.name, classVars: [], instanceVars: [],
+						classMethods: new Map(), instanceMethods: new Map()
+					};
+					classes.set(extension.name, entry);
+				}
+				extension.methods.forEach(method => addMethod(entry!, method));
+			}
+		}
+		return classes;
+	};
+
+	const getInstanceMethodsBySelector = (): Map<string, MethodEntry[]> => {
+		if (instanceMethodsBySelector) {
+			return instanceMethodsBySelector;
+		}
+		instanceMethodsBySelector = new Map();
+		for (const entry of getClasses().values()) {
+			for (const method of entry.instanceMethods.values()) {
+				const list = instanceMethodsBySelector.get(method.selector) ?? [];
+				list.push(method);
+				instanceMethodsBySelector.set(method.selector, list);
+			}
+		}
+		return instanceMethodsBySelector;
+	};
+
+	const getClassChain = (name: string): ClassEntry[] => {
+		const chain: ClassEntry[] = [];
+		const seen = new Set<string>();
+		for (let entry = getClasses().get(name); entry && !seen.has(entry.name); entry = entry.superclass ? getClasses().get(entry.superclass) : undefined) {
+			seen.add(entry.name);
+			chain.push(entry);
+		}
+		return chain;
+	};
+
+	const findMethod = (className: string, selector: string, isClassMethod: boolean): MethodEntry | undefined => {
+		for (const entry of getClassChain(className)) {
+			const method = (isClassMethod ? entry.classMethods : entry.instanceMethods).get(selector);
+			if (method) {
+				return method;
+			}
+		}
+		return undefined;
+	};
+
+	return {
+		updateFile(uri: string, text: string) {
+			const document = TextDocument.create(uri, 'supercollider', 0, text);
+			const { program } = parse(text, { classFile: true });
+			const entry: FileEntry = { classes: [], extensions: [] };
+			for (const node of program.body) {
+				if (node.type === 'ClassDef') {
+					entry.classes.push(toClassEntry(document, node));
+				} else if (node.type === 'ClassExtension') {
+					entry.extensions.push(toExtension(document, node));
+				}
+			}
+			files.set(uri, entry);
+			invalidate();
+		},
+		removeFile(uri: string) {
+			if (files.delete(uri)) {
+				invalidate();
+			}
+		},
+		hasFile(uri: string) {
+			return files.has(uri);
+		},
+		getFiles() {
+			return [...files.keys()];
+		},
+		getClass(name: string) {
+			return getClasses().get(name);
+		},
+		getClassNames() {
+			return [...getClasses().keys()];
+		},
+		getClassChain,
+		findMethod,
+		getMethods(className: string, isClassMethod: boolean) {
+			const methods = new Map<string, MethodEntry>();
+			for (const entry of getClassChain(className)) {
+				for (const method of (isClassMethod ? entry.classMethods : entry.instanceMethods).values()) {
+					if (!methods.has(method.selector)) {
+						methods.set(method.selector, method);
+					}
+				}
+			}
+			return [...methods.values()];
+		},
+		getInstanceSelectors() {
+			return [...getInstanceMethodsBySelector().keys()];
+		},
+		lookup(className: string, selector: string, isClassMethod: boolean) {
+			return findMethod(className, selector, isClassMethod);
+		},
+		findInstanceMethods(selector: string) {
+			return getInstanceMethodsBySelector().get(selector) ?? [];
+		}
+	};
+}
@@ -0,0 +1,150 @@
+/*---------------------------------------------------------------------------------------------
+ *  Index of the SCDoc help files (.schelp) found in HelpSource directories.
+ *--------------------------------------------------------------------------------------------*/
+
+import { promises as fs, readFileSync } from 'fs';
+import { HelpDocument, parseSchelp, SchelpOptions } from '../parser/schelp';
+
+export interface HelpSummary {
+	/** The document's path below HelpSource, without extension: `Classes/SinOsc`. */
+	key: string;
+	title: string;
+	summary: string;
+	categories: string[];
+}
+
+export interface HelpIndex {
+	/** Replaces the indexed files, given as a map from help key to file path. */
+	setFiles(files: Map<string, string>): void;
+	hasTopic(key: string): boolean;
+	/** Reads and parses a help document, following `redirect::`. */
+	getDocument(key: string): HelpDocument | undefined;
+	/** Resolves a word, such as a class name or a document title, to a help key. */
+	findTopic(word: string): string | undefined;
+	/** Documents whose title, key or summary match `query`, best matches first. */
+	search(query: string, limit?: number): Promise<HelpSummary[]>;
+}
+
+// Parsed documents are small, but the HelpSource tree has well over a thousand of them
+const MAX_CACHED_DOCUMENTS = 50;
+
+function readHeader(key: string, text: string): HelpSummary {
+	const header = (tag: string) => new RegExp(`^[ \\t]*${tag}::[ \\t]*(.*)$`, 'im').exec(text)?.[1].trim();
+	return {
+		key,
+		title: header('title') ?? header('class') ?? key.substring(key.lastIndexOf('/') + 1),
+		summary: (header('summary') ?? '').replace(/\b[a-z]+::|::/g, '').replace(/#[^\s,]*/g, ''),
+		categories: (header('categories') ?? '').split(',').map(category => category.trim()).filter(category => category)
+	};
+}
+
+export function createHelpIndex(options: SchelpOptions = {}): HelpIndex {
+	let files = new Map<string, string>();
+	// Lower case document names to keys, for topics typed in any case
+	let topics = new Map<string, string>();
+	let documents = new Map<string, HelpDocument>();
+	let summaries: Promise<HelpSummary[]> | undefined;
+
+	const readText = (key: string): string | undefined => {
+		const file = files.get(key);
+		if (!file) {
+			return undefined;
+		}
+		try {
+			return readFileSync(file, 'utf8');
+		} catch {
+			return undefined;
+		}
+	};
+
+	const getDocument = (key: string, redirects = 0): HelpDocument | undefined => {
+		let document = documents.get(key);
+		if (!document) {
+			const text = readText(key);
+			if (text === undefined) {
+				return undefined;
+			}
+			document = parseSchelp(text, options);
+			if (documents.size >= MAX_CACHED_DOCUMENTS) {
+				documents.delete(documents.keys().next().value!);
+			}
+			documents.set(key, document);
+		}
+		if (document.redirect && redirects < 5) {
+			const target = files.has(document.redirect) ? document.redirect : `Classes/${document.redirect}`;
+			return getDocument(target, redirects + 1) ?? document;
+		}
+		return document;
+	};
+
+	const loadSummaries = async (): Promise<HelpSummary[]> => {
+		const result: HelpSummary[] = [];
+		for (const [key, file] of files) {
+			const text = await fs.readFile(file, 'utf8').catch(() => undefined);
+			if (text !== undefined) {
+				result.push(readHeader(key, text));
+			}
+		}
+		return result;
+	};
+
+	return {
+		setFiles(newFiles: Map<string, string>) {
+			files = newFiles;
+			documents = new Map();
+			summaries = undefined;
+			topics = new Map();
+			for (const key of files.keys()) {
+				const name = key.substring(key.lastIndexOf('/') + 1).toLowerCase();
+				// Class documents win over guides and references of the same name
+				if (!topics.has(name) || key.startsWith('Classes/')) {
+					topics.set(name, key);
+				}
+			}
+		},
+		hasTopic(key: string) {
+			return files.has(key);
+		},
+		getDocument(key: string) {
+			return getDocument(key);
+		},
+		findTopic(word: string) {
+			if (files.has(word)) {
+				return word;
+			}
+			if (files.has(`Classes/${word}`)) {
+				return `Classes/${word}`;
+			}
+			return topics.get(word.toLowerCase());
+		},
+		async search(query: string, limit = 100) {
+			summaries ??= loadSummaries();
+			const needle = query.trim().toLowerCase();
+			if (!needle) {
+				return [];
+			}
+			const rank = (summary: HelpSummary): number => {
+				const title = summary.title.toLowerCase();
+				if (title === needle) {
+					return 0;
+				}
+				if (title.startsWith(needle)) {
+					return 1;
+				}
+				if (title.includes(needle) || summary.key.toLowerCase().includes(needle)) {
+					return 2;
+				}
+				if (summary.summary.toLowerCase().includes(needle) || summary.categories.some(category => category.toLowerCase().includes(needle))) {
+					return 3;
+				}
+				return -1;
+			};
+			return (await summaries)
+				.map(summary => ({ summary, rank: rank(summary) }))
+				.filter(entry => entry.rank >= 0)
+				.sort((a, b) => a.rank - b.rank || a.summary.title.localeCompare(b.summary.title))
+				.slice(0, limit)
+				.map(entry => entry.summary);
+		}
+	};
+}
@@ -0,0 +1,309 @@
+/*---------------------------------------------------------------------------------------------
+ *  Argument lists of common class library methods, for signature help and inlay hints.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface ArgumentInfo {
+	name: string;
+	/** Default value as written in source, e.g. `440` or `'minmax'`. */
+	defaultValue?: string;
+	/** Collects any remaining arguments: `...pairs`. */
+	rest?: boolean;
+}
+
+export interface MethodSignature {
+	className: string;
+	selector: string;
+	isClassMethod: boolean;
+	args: ArgumentInfo[];
+}
+
+export interface SignatureDatabase {
+	/** The signature of `selector` as understood by `className`, on its class side if `isClassMethod`. */
+	lookup(className: string, selector: string, isClassMethod: boolean): MethodSignature | undefined;
+	/** Instance method signatures named `selector` in any class, for receivers of unknown class. */
+	findInstanceMethods(selector: string): MethodSignature[];
+}
+
+// `Class.selector(...)` declares a class method, `Class:selector(...)` an instance method.
+// Several selectors may share one argument list: `SinOsc.ar.kr(...)`.
+const SIGNATURES = [
+	// Oscillators
+	'SinOsc.ar.kr(freq: 440, phase: 0, mul: 1, add: 0)',
+	'Saw.ar.kr(freq: 440, mul: 1, add: 0)',
+	'Pulse.ar.kr(freq: 440, width: 0.5, mul: 1, add: 0)',
+	'LFSaw.ar.kr(freq: 440, iphase: 0, mul: 1, add: 0)',
+	'LFPulse.ar.kr(freq: 440, iphase: 0, width: 0.5, mul: 1, add: 0)',
+	'LFNoise0.ar.kr(freq: 500, mul: 1, add: 0)',
+	'LFNoise1.ar.kr(freq: 500, mul: 1, add: 0)',
+	'LFNoise2.ar.kr(freq: 500, mul: 1, add: 0)',
+	'Impulse.ar.kr(freq: 440, phase: 0, mul: 1, add: 0)',
+	'Blip.ar.kr(freq: 440, numharm: 200, mul: 1, add: 0)',
+
+	// Noise
+	'WhiteNoise.ar.kr(mul: 1, add: 0)',
+	'PinkNoise.ar.kr(mul: 1, add: 0)',
+	'BrownNoise.ar.kr(mul: 1, add: 0)',
+	'ClipNoise.ar.kr(mul: 1, add: 0)',
+	'GrayNoise.ar.kr(mul: 1, add: 0)',
+	'Dust.ar.kr(density: 0, mul: 1, add: 0)',
+	'Dust2.ar.kr(density: 0, mul: 1, add: 0)',
+
+	// Filters
+	'LPF.ar.kr(in: 0, freq: 440, mul: 1, add: 0)',
+	'HPF.ar.kr(in: 0, freq: 440, mul: 1, add: 0)',
+	'BPF.ar.kr(in: 0, freq: 440, rq: 1, mul: 1, add: 0)',
+	'BRF.ar.kr(in: 0, freq: 440, rq: 1, mul: 1, add: 0)',
+	'RLPF.ar.kr(in: 0, freq: 440, rq: 1, mul: 1, add: 0)',
+	'RHPF.ar.kr(in: 0, freq: 440, rq: 1, mul: 1, add: 0)',
+	'Resonz.ar.kr(in: 0, freq: 440, bwr: 1, mul: 1, add: 0)',
+	'Ringz.ar.kr(in: 0, freq: 440, decaytime: 1, mul: 1, add: 0)',
+	'LeakDC.ar.kr(in: 0, coef: 0.995, mul: 1, add: 0)',
+
+	// Reverb & Delay
+	'FreeVerb.ar(in, mix: 0.33, room: 0.5, damp: 0.5, mul: 1, add: 0)',
+	'GVerb.ar(in, roomsize: 10, revtime: 3, damping: 0.5, inputbw: 0.5, spread: 15, drylevel: 1, earlyreflevel: 0.7, taillevel: 0.5, maxroomsize: 300, mul: 1, add: 0)',
+	'DelayN.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, mul: 1, add: 0)',
+	'DelayL.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, mul: 1, add: 0)',
+	'DelayC.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, mul: 1, add: 0)',
+	'CombN.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, decaytime: 1, mul: 1, add: 0)',
+	'CombL.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, decaytime: 1, mul: 1, add: 0)',
+	'CombC.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, decaytime: 1, mul: 1, add: 0)',
+	'AllpassN.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, decaytime: 1, mul: 1, add: 0)',
+	'AllpassL.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, decaytime: 1, mul: 1, add: 0)',
+	'AllpassC.ar.kr(in: 0, maxdelaytime: 0.2, delaytime: 0.2, decaytime: 1, mul: 1, add: 0)',
+
+	// Panning
+	'Pan2.ar.kr(in, pos: 0, level: 1)',
+	'LinPan2.ar.kr(in, pos: 0, level: 1)',
+	'Balance2.ar.kr(left, right, pos: 0, level: 1)',
+	'Splay.ar(inArray, spread: 1, level: 1, center: 0, levelComp: true)',
+
+	// Envelopes
+	'EnvGen.ar.kr(envelope, gate: 1, levelScale: 1, levelBias: 0, timeScale: 1, doneAction: 0)',
+	'Env.new(levels: [0, 1, 0], times: [1, 1], curve: \'lin\', releaseNode, loopNode, offset: 0)',
+	'Env.perc(attackTime: 0.01, releaseTime: 1, level: 1, curve: -4)',
+	'Env.adsr(attackTime: 0.01, decayTime: 0.3, sustainLevel: 0.5, releaseTime: 1, peakLevel: 1, curve: -4, bias: 0)',
+	'Env.asr(attackTime: 0.01, sustainLevel: 1, releaseTime: 1, curve: -4)',
+	'Env.linen(attackTime: 0.01, sustainTime: 1, releaseTime: 1, level: 1, curve: \'lin\')',
+	'Env.sine.triangle(dur: 1, level: 1)',
+	'Line.ar.kr(start: 0, end: 1, dur: 1, mul: 1, add: 0, doneAction: 0)',
+	'XLine.ar.kr(start: 1, end: 2, dur: 1, mul: 1, add: 0, doneAction: 0)',
+	'Linen.kr(gate: 1, attackTime: 0.01, susLevel: 1, releaseTime: 1, doneAction: 0)',
+
+	// Buffers
+	'Buffer.alloc(server, numFrames, numChannels: 1, completionMessage, bufnum)',
+	'Buffer.read(server, path, startFrame: 0, numFrames: -1, action, bufnum)',
+	'PlayBuf.ar.kr(numChannels, bufnum: 0, rate: 1, trigger: 1, startPos: 0, loop: 0, doneAction: 0)',
+	'RecordBuf.ar.kr(inputArray, bufnum: 0, offset: 0, recLevel: 1, preLevel: 0, run: 1, loop: 1, trigger: 1, doneAction: 0)',
+	'BufRd.ar.kr(numChannels, bufnum: 0, phase: 0, loop: 1, interpolation: 2)',
+	'BufWr.ar.kr(inputArray, bufnum: 0, phase: 0, loop: 1)',
+
+	// I/O
+	'Out.ar.kr(bus, channelsArray)',
+	'ReplaceOut.ar.kr(bus, channelsArray)',
+	'XOut.ar.kr(bus, xfade, channelsArray)',
+	'In.ar.kr(bus: 0, numChannels: 1)',
+	'LocalIn.ar.kr(numChannels: 1, default: 0)',
+	'LocalOut.ar.kr(channelsArray)',
+
+	// Dynamics, control and mixing
+	'Limiter.ar(in: 0, level: 1, dur: 0.01)',
+	'Normalizer.ar(in: 0, level: 1, dur: 0.01)',
+	'Compander.ar(in: 0, control: 0, thresh: 0.5, slopeBelow: 1, slopeAbove: 1, clampTime: 0.01, relaxTime: 0.1, mul: 1, add: 0)',
+	'Lag.ar.kr(in: 0, lagTime: 0.1, mul: 1, add: 0)',
+	'Lag2.ar.kr(in: 0, lagTime: 0.1, mul: 1, add: 0)',
+	'Lag3.ar.kr(in: 0, lagTime: 0.1, mul: 1, add: 0)',
+	'VarLag.ar.kr(in: 0, time: 0.1, curvature: 0, warp: 5, start, mul: 1, add: 0)',
+	'Decay.ar.kr(in: 0, decayTime: 1, mul: 1, add: 0)',
+	'Decay2.ar.kr(in: 0, attackTime: 0.01, decayTime: 1, mul: 1, add: 0)',
+	'MouseX.kr(minval: 0, maxval: 1, warp: 0, lag: 0.2)',
+	'MouseY.kr(minval: 0, maxval: 1, warp: 0, lag: 0.2)',
+	'Mix.new(array)',
+	'Mix.fill(n, function)',
+
+	// Server & Synths
+	'SynthDef.new(name, ugenGraphFunc, rates, prependArgs, variants, metadata)',
+	'Synth.new(defName, args, target, addAction: \'addToHead\')',
+	'Synth.head.tail.before.after(aGroup, defName, args)',
+	'Group.new(target, addAction: \'addToHead\')',
+	'Bus.audio.control(server, numChannels: 1)',
+	'Node:set(...args)',
+	'Node:free(sendFlag: true)',
+	'Node:release(releaseTime)',
+
+	// Patterns
+	'Pbind.new(...pairs)',
+	'Pseq.new(list, repeats: 1, offset: 0)',
+	'Prand.new(list, repeats: 1)',
+	'Pxrand.new(list, repeats: 1)',
+	'Pshuf.new(list, repeats: 1)',
+	'Pwrand.new(list, weights, repeats: 1)',
+	'Pwhite.new(lo: 0, hi: 1, length: inf)',
+	'Pexprand.new(lo: 0.0001, hi: 1, length: inf)',
+	'Pn.new(pattern, repeats: inf, key)',
+	'Pdef.new(key, item)',
+	'Pattern:play(clock, protoEvent, quant)',
+	'Routine.new(func, stackSize: 512, seed)',
+	'Task.new(func, clock)',
+
+	// Collections
+	'Array.fill(size, function)',
+	'Array.series(size, start: 0, step: 1)',
+	'Array.geom(size, start, grow)',
+	'Array.rand(size, minVal, maxVal)',
+	'Collection:do.collect.select.reject.detect.any.every(function)',
+	'Object:dup(n: 2)',
+
+	// Numbers
+	'SimpleNumber:linlin.linexp.explin.expexp(inMin, inMax, outMin, outMax, clip: \'minmax\')',
+	'SimpleNumber:lincurve.curvelin(inMin: 0, inMax: 1, outMin: 0, outMax: 1, curve: -4, clip: \'minmax\')',
+	'SimpleNumber:clip.wrap.fold(lo, hi)',
+	'SimpleNumber:round(aNumber: 1)',
+	'SimpleNumber:rrand(aNumber)',
+	'SimpleNumber:exprand(aNumber)',
+
+	// Functions
+	'Function:play(target, outbus: 0, fadeTime: 0.02, addAction: \'addToHead\', args)',
+	'Function:plot(duration: 0.01, target, bounds, minval, maxval, separately: false)',
+	'Function:scope(numChannels, outbus: 0, fadeTime: 0.05, bufsize: 4096, zoom)',
+	'Function:fork(clock, quant, stackSize)',
+	'Function:value(...args)',
+
+	// Clocks, GUI and networking
+	'TempoClock.new(tempo, beats, seconds, queueSize: 256)',
+	'Window.new(name: "panel", bounds, resizable: true, border: true, server, scroll: false)',
+	'Rect.new(left: 0, top: 0, width: 0, height: 0)',
+	'Color.new(red: 0, green: 0, blue: 0, alpha: 1)',
+	'NetAddr.new(hostname, port)',
+	'OSCFunc.new(func, path, srcID, recvPort, argTemplate, dispatcher)',
+	'OSCdef.new(key, func, path, srcID, recvPort, argTemplate, dispatcher)',
+	'MIDIFunc.noteOn.noteOff(func, noteNum, chan, srcID)',
+	'MIDIFunc.cc(func, ccNum, chan, srcID)',
+	'MIDIdef.noteOn.noteOff(key, func, noteNum, chan, srcID)',
+	'MIDIdef.cc(key, func, ccNum, chan, srcID)',
+];
+
+/** Splits `a, b: [1, 2], c` at top-level commas. */
+function splitArguments(text: string): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let current = '';
+	let quote: string | undefined;
+	for (const ch of text) {
+		if (quote) {
+			quote = ch === quote ? undefined : quote;
+		} else if (ch === '"' || ch === '\'') {
+			quote = ch;
+		} else if ('([{'.includes(ch)) {
+			depth++;
+		} else if (')]}'.includes(ch)) {
+			depth--;
+		} else if (ch === ',' && depth === 0) {
+			parts.push(current.trim());
+			current = '';
+			continue;
+		}
+		current += ch;
+	}
+	if (current.trim()) {
+		parts.push(current.trim());
+	}
+	return parts;
+}
+
+export function parseArgumentList(text: string): ArgumentInfo[] {
+	return splitArguments(text).map(part => {
+		const rest = part.startsWith('...');
+		const colon = part.indexOf(':');
+		const name = (colon < 0 ? part : part.substring(0, colon)).replace(/^\.\.\./, '').trim();
+		const defaultValue = colon < 0 ? undefined : part.substring(colon + 1).trim();
+		return rest ? { name, rest } : { name, defaultValue };
+	});
+}
+
+/**
+ * Formats a signature as `SinOsc.ar(freq: 440, phase: 0)`, also returning each argument's label
+ * range. `name` replaces the `SinOsc.ar` part.
+ */
+export function formatSignature(signature: MethodSignature, name?: string): { label: string; ranges: [number, number][] } {
+	let label = `${name ?? `${signature.className}${signature.isClassMethod ? '.' : ':'}${signature.selector}`}(`;
+	const ranges: [number, number][] = [];
+	signature.args.forEach((arg, i) => {
+		if (i > 0) {
+			label += ', ';
+		}
+		const text = arg.rest ? `...${arg.name}` : arg.defaultValue !== undefined ? `${arg.name}: ${arg.defaultValue}` : arg.name;
+		ranges.push([label.length, label.length + text.length]);
+		label += text;
+	});
+	return { label: label + ')', ranges };
+}
+
+export function createSignatureDatabase(signatures: MethodSignature[]): SignatureDatabase {
+	const classMethods = new Map<string, MethodSignature>();
+	const instanceMethods = new Map<string, MethodSignature[]>();
+	for (const signature of signatures) {
+		if (signature.isClassMethod) {
+			classMethods.set(`${signature.className}.${signature.selector}`, signature);
+		} else {
+			const list = instanceMethods.get(signature.selector) ?? [];
+			list.push(signature);
+			instanceMethods.set(signature.selector, list);
+		}
+	}
+	return {
+		lookup(className: string, selector: string, isClassMethod: boolean) {
+			if (isClassMethod) {
+				return classMethods.get(`${className}.${selector}`);
+			}
+			return instanceMethods.get(selector)?.find(signature => signature.className === className);
+		},
+		findInstanceMethods(selector: string) {
+			return instanceMethods.get(selector) ?? [];
+		}
+	};
+}
+
+/** Answers from the first database that knows a method, e.g. the class index before the built-in tables. */
+export function combineSignatureDatabases(...databases: SignatureDatabase[]): SignatureDatabase {
+	return {
+		lookup(className: string, selector: string, isClassMethod: boolean) {
+			for (const database of databases) {
+				const signature = database.lookup(className, selector, isClassMethod);
+				if (signature) {
+					return signature;
+				}
+			}
+			return undefined;
+		},
+		findInstanceMethods(selector: string) {
+			for (const database of databases) {
+				const signatures = database.findInstanceMethods(selector);
+				if (signatures.length > 0) {
+					return signatures;
+				}
+			}
+			return [];
+		}
+	};
+}
+
+let builtinSignatures: SignatureDatabase | undefined;
+
+export function getBuiltinSignatures(): SignatureDatabase {
+	if (!builtinSignatures) {
+		const signatures: MethodSignature[] = [];
+		for (const entry of SIGNATURES) {
+			const match = /^(\w+)([.:])([\w.]+)\((.*)\)$/.exec(entry);
+			if (!match) {
+				continue;
+			}
+			const [, className, separator, selectors, args] = match;
+			for (const selector of selectors.split('.')) {
+				signatures.push({ className, selector, isClassMethod: separator === '.', args: parseArgumentList(args) });
+			}
+		}
+		builtinSignatures = createSignatureDatabase(signatures);
+	}
+	return builtinSignatures;
+}
@@ -0,0 +1,136 @@
+/*---------------------------------------------------------------------------------------------
+ *  Index of the names used in workspace files: environment variables, symbols, SynthDef and
+ *  Pdef style definitions, class names and method selectors, and the controls of SynthDefs.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { walk } from '../parser/ast';
+import { parse, ParseResult } from '../parser/parser';
+import { getDefinitionName } from '../services/symbols';
+import { collectSynthDefs, SynthDefInfo } from '../services/synthDefs';
+
+export type OccurrenceKind = 'environmentVariable' | 'symbol' | 'definition' | 'class' | 'selector';
+
+export interface Occurrence {
+	kind: OccurrenceKind;
+	name: string;
+	location: Location;
+	/** Assignments of environment variables, class and method definitions. */
+	declaration: boolean;
+	/** For definitions, the defining class: `SynthDef`, `Pdef`, ... */
+	className?: string;
+	/** For symbols and definition names, the source text of the literal: `\name`, `'name'` or `"name"`. */
+	raw?: string;
+}
+
+export interface WorkspaceIndex {
+	/** Records the latest text of `uri`, parsed on the next query. */
+	updateFile(uri: string, text: string): void;
+	removeFile(uri: string): void;
+	hasFile(uri: string): boolean;
+	getFiles(): string[];
+	/** All occurrences of `name` as `kind`, across the indexed files. */
+	findOccurrences(kind: OccurrenceKind, name: string): Occurrence[];
+	/** All SynthDefs named `name`, with their controls. */
+	findSynthDefs(name: string): SynthDefInfo[];
+}
+
+/** What a file holds, parsed on the first query that needs it. */
+interface FileAnalysis {
+	occurrences: Occurrence[];
+	synthDefs: SynthDefInfo[];
+}
+
+/** Collects the names a parsed file uses. Only syntax tree nodes count, never comments or strings. */
+export function collectOccurrences(document: TextDocument, parsed: ParseResult): Occurrence[] {
+	const occurrences: Occurrence[] = [];
+	const add = (kind: OccurrenceKind, name: string, start: number, end: number, declaration: boolean, details: Pick<Occurrence, 'className' | 'raw'> = {}) => {
+		occurrences.push({
+			kind,
+			name,
+			location: { uri: document.uri, range: { start: document.positionAt(start), end: document.positionAt(end) } },
+			declaration,
+			...details
+		});
+	};
+	walk(parsed.program, (node, parent) => {
+		switch (node.type) {
+			case 'EnvironmentVariable':
+				if (node.name) {
+					add('environmentVariable', node.name, node.start, node.end, parent?.type === 'Assignment' && parent.target === node);
+				}
+				break;
+			case 'Literal':
+				if (node.kind === 'symbol' && typeof node.value === 'string' && node.value) {
+					add('symbol', node.value, node.start, node.end, false, { raw: node.raw });
+				}
+				break;
+			case 'ClassName':
+				add('class', node.name, node.start, node.end, parent?.type === 'ClassDef' && parent.name === node);
+				break;
+			case 'Method':
+				add('selector', node.name, node.nameStart, node.nameEnd, true);
+				break;
+			case 'Call': {
+				if ((node.style === 'method' || node.style === 'function') && node.selector) {
+					add('selector', node.selector, node.selectorStart, node.selectorEnd, false);
+				}
+				const definition = getDefinitionName(node);
+				if (definition) {
+					const raw = definition.node.type === 'Literal' ? definition.node.raw : undefined;
+					add('definition', definition.name, definition.node.start, definition.node.end, true, { className: definition.className, raw });
+				}
+				break;
+			}
+		}
+	});
+	return occurrences;
+}
+
+export function createWorkspaceIndex(): WorkspaceIndex {
+	const files = new Map<string, { text: string; analysis?: FileAnalysis }>();
+
+	const analyze = (uri: string): FileAnalysis => {
+		const entry = files.get(uri)!;
+		if (!entry.analysis) {
+			const document = TextDocument.create(uri, 'supercollider', 0, entry.text);
+			const parsed = parse(entry.text, { classFile: uri.endsWith('.sc') });
+			entry.analysis = { occurrences: collectOccurrences(document, parsed), synthDefs: collectSynthDefs(document, parsed) };
+		}
+		return entry.analysis;
+	};
+
+	const findInFiles = <T>(name: string, find: (analysis: FileAnalysis) => T[]): T[] => {
+		const result: T[] = [];
+		for (const [uri, entry] of files) {
+			// Skip the parse when the name does not appear in the text at all
+			if (!entry.analysis && !entry.text.includes(name)) {
+				continue;
+			}
+			result.push(...find(analyze(uri)));
+		}
+		return result;
+	};
+
+	return {
+		updateFile(uri: string, text: string) {
+			files.set(uri, { text });
+		},
+		removeFile(uri: string) {
+			files.delete(uri);
+		},
+		hasFile(uri: string) {
+			return files.has(uri);
+		},
+		getFiles() {
+			return [...files.keys()];
+		},
+		findOccurrences(kind: OccurrenceKind, name: string) {
+			return findInFiles(name, analysis => analysis.occurrences.filter(occurrence => occurrence.kind === kind && occurrence.name === name));
+		},
+		findSynthDefs(name: string) {
+			return findInFiles(name, analysis => analysis.synthDefs.filter(synthDef => synthDef.name === name));
+		}
+	};
+}
@@ -4,22 +4,59 @@
  *--------------------------------------------------------------------------------------------*/
 
 import {
+	CodeAction,
+	CodeActionContext,
 	CompletionList,
 	Diagnostic,
+	DocumentSymbol,
+	FoldingRange,
+	FormattingOptions,
 	Hover,
+	InlayHint,
+	Location,
 	Position,
 	Range,
+	SelectionRange,
+	SignatureHelp,
+	TextEdit,
+	WorkspaceEdit,
 } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ClassIndex } from './data/classIndex';
+import { HelpIndex } from './data/helpIndex';
+import { WorkspaceIndex } from './data/workspaceIndex';
 import { getSuperColliderMode } from './modes/scdMode';
+import { FormatSettings } from './services/format';
+import { LintSettings } from './services/lint';
+import { SemanticToken } from './services/semanticTokens';
 
 export { Position, Range, TextDocument };
 
+/** Indexes shared by all documents. */
+export interface Workspace {
+	classIndex: ClassIndex;
+	helpIndex: HelpIndex;
+	workspaceIndex: WorkspaceIndex;
+}
+
 export interface LanguageMode {
 	getId(): string;
-	doValidation?: (document: TextDocument) => Diagnostic[];
+	doValidation?: (document: TextDocument, settings?: LintSettings) => Diagnostic[];
 	doComplete?: (document: TextDocument, position: Position) => CompletionList;
 	doHover?: (document: TextDocument, position: Position) => Hover | null;
+	doSignatureHelp?: (document: TextDocument, position: Position) => SignatureHelp | null;
+	getInlayHints?: (document: TextDocument, range: Range) => InlayHint[];
+	getHelpTopic?: (document: TextDocument, position: Position) => string | null;
+	findDocumentSymbols?: (document: TextDocument) => DocumentSymbol[];
+	findDefinition?: (document: TextDocument, position: Position) => Location[];
+	findReferences?: (document: TextDocument, position: Position, includeDeclaration: boolean) => Location[];
+	prepareRename?: (document: TextDocument, position: Position) => { range: Range; placeholder: string } | null;
+	doRename?: (document: TextDocument, position: Position, newName: string) => WorkspaceEdit | null;
+	format?: (document: TextDocument, range: Range | undefined, options: FormattingOptions, settings: FormatSettings) => TextEdit[];
+	getSemanticTokens?: (document: TextDocument) => SemanticToken[];
+	getFoldingRanges?: (document: TextDocument) => FoldingRange[];
+	getSelectionRanges?: (document: TextDocument, positions: Position[]) => SelectionRange[];
+	getCodeActions?: (document: TextDocument, range: Range, context: CodeActionContext) => CodeAction[];
 	onDocumentRemoved(document: TextDocument): void;
 	dispose(): void;
 }
@@ -39,8 +76,8 @@ export interface LanguageModeRange extends Range {
 	attributeValue?: boolean;
 }
 
-export function getLanguageModes(): LanguageModes {
-	const scdMode = getSuperColliderMode();
+export function getLanguageModes(workspace: Workspace): LanguageModes {
+	const scdMode = getSuperColliderMode(workspace);
 
 	const modes: { [id: string]: LanguageMode } = {
 		'supercollider': scdMode
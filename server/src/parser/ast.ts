@@ -0,0 +1,360 @@
+/*---------------------------------------------------------------------------------------------
+ *  Syntax tree for SuperCollider source code. All positions are document offsets.
+ *--------------------------------------------------------------------------------------------*/
+
+export type ParseErrorCode =
+	| 'syntax'
+	| 'unclosed-bracket'
+	| 'unexpected-bracket'
+	| 'unterminated-string'
+	| 'unterminated-comment'
+	| 'invalid-number'
+	| 'missing-semicolon';
+
+export interface ParseError {
+	message: string;
+	start: number;
+	end: number;
+	code: ParseErrorCode;
+	/** A second location that explains the error, e.g. the opening bracket of an unclosed pair. */
+	related?: { message: string; start: number; end: number };
+}
+
+interface BaseNode {
+	start: number;
+	end: number;
+}
+
+export interface Program extends BaseNode {
+	type: 'Program';
+	body: (Statement | ClassDef | ClassExtension)[];
+}
+
+export interface ClassDef extends BaseNode {
+	type: 'ClassDef';
+	name: ClassName;
+	superclass?: ClassName;
+	vars: VarDecl[];
+	methods: MethodDef[];
+}
+
+export interface ClassExtension extends BaseNode {
+	type: 'ClassExtension';
+	name: ClassName;
+	methods: MethodDef[];
+}
+
+export interface MethodDef extends BaseNode {
+	type: 'Method';
+	name: string;
+	nameStart: number;
+	nameEnd: number;
+	isClassMethod: boolean;
+	primitive?: string;
+	body: FunctionNode;
+}
+
+export interface VarDecl extends BaseNode {
+	type: 'VarDecl';
+	kind: 'var' | 'classvar' | 'const';
+	declarators: VarDeclarator[];
+}
+
+export interface VarDeclarator extends BaseNode {
+	type: 'VarDeclarator';
+	name: Identifier;
+	init?: Expression;
+	/** Class variable accessors: `<` getter, `>` setter, `<>` both. */
+	getter?: boolean;
+	setter?: boolean;
+}
+
+export interface ParamList extends BaseNode {
+	type: 'ParamList';
+	style: 'pipe' | 'arg';
+	params: Param[];
+	rest?: Param;
+}
+
+export interface Param extends BaseNode {
+	type: 'Param';
+	name: Identifier;
+	defaultValue?: Expression;
+}
+
+export interface FunctionNode extends BaseNode {
+	type: 'Function';
+	params?: ParamList;
+	body: Statement[];
+	/** `#{ }` closed functions cannot reference outer variables. */
+	closed: boolean;
+}
+
+/** Parenthesized code: a grouped expression or an executable region with its own statements. */
+export interface Block extends BaseNode {
+	type: 'Block';
+	body: Statement[];
+}
+
+export interface EventLiteral extends BaseNode {
+	type: 'Event';
+	entries: KeywordArg[];
+}
+
+/** Arithmetic series `(1..10)`, `(1, 3..9)` or slice `a[2..]`. */
+export interface Series extends BaseNode {
+	type: 'Series';
+	first?: Expression;
+	second?: Expression;
+	last?: Expression;
+}
+
+export interface ArrayLiteral extends BaseNode {
+	type: 'Array';
+	/** Collection class for `Set[1, 2]` style literals. */
+	className?: ClassName;
+	/** Elements, where `[freq: 440]` style pairs appear as keyword arguments. */
+	elements: (Expression | KeywordArg)[];
+	/** `#[ ]` literal arrays, whose bare names are symbols. */
+	literal: boolean;
+}
+
+export interface Identifier extends BaseNode {
+	type: 'Identifier';
+	name: string;
+}
+
+export interface ClassName extends BaseNode {
+	type: 'ClassName';
+	name: string;
+}
+
+export interface EnvironmentVariable extends BaseNode {
+	type: 'EnvironmentVariable';
+	name: string;
+}
+
+/** `this`, `super`, `thisProcess` and the other interpreter-provided pseudo variables. */
+export interface PseudoVariable extends BaseNode {
+	type: 'PseudoVariable';
+	name: string;
+}
+
+export interface Literal extends BaseNode {
+	type: 'Literal';
+	kind: 'number' | 'string' | 'symbol' | 'char' | 'boolean' | 'nil';
+	value: number | string | boolean | null;
+	raw: string;
+}
+
+export interface KeywordArg extends BaseNode {
+	type: 'KeywordArg';
+	name: Identifier;
+	value: Expression;
+}
+
+/**
+ * A message send. `style` records the surface syntax: `receiver.selector(args)` ('method'),
+ * `selector(receiver, args)` ('function'), `Class(args)` ('new') or `receiver.(args)` ('value').
+ */
+export interface Call extends BaseNode {
+	type: 'Call';
+	style: 'method' | 'function' | 'new' | 'value';
+	receiver?: Expression;
+	selector: string;
+	selectorStart: number;
+	selectorEnd: number;
+	/** Positional and keyword arguments, in source order. */
+	args: (Expression | KeywordArg)[];
+	/** Trailing function arguments: `x.do { }`, `if(c) { } { }`. */
+	blocks: FunctionNode[];
+	openParen?: number;
+	closeParen?: number;
+	/** Offsets of the commas separating `args`. */
+	separators: number[];
+}
+
+export interface BinaryOp extends BaseNode {
+	type: 'BinaryOp';
+	operator: string;
+	operatorStart: number;
+	operatorEnd: number;
+	/** True for keyword binary operators such as `a max: b`. */
+	keyword: boolean;
+	adverb?: string;
+	left: Expression;
+	right: Expression;
+}
+
+/** `-x`, `` `x `` and `*args`, which passes the elements of `args` as the last positional arguments of a call. */
+export interface UnaryOp extends BaseNode {
+	type: 'UnaryOp';
+	operator: '-' | '`' | '*';
+	operand: Expression;
+}
+
+/** `_` in partial application, `_ * 2` or `list.collect(_.squared)`, which makes a function of the expression. */
+export interface Placeholder extends BaseNode {
+	type: 'Placeholder';
+}
+
+export interface Assignment extends BaseNode {
+	type: 'Assignment';
+	target: Identifier | EnvironmentVariable | Call | Index;
+	value: Expression;
+}
+
+export interface MultiAssignment extends BaseNode {
+	type: 'MultiAssignment';
+	targets: Identifier[];
+	rest?: Identifier;
+	value: Expression;
+}
+
+export interface Index extends BaseNode {
+	type: 'Index';
+	object: Expression;
+	args: Expression[];
+}
+
+export interface Return extends BaseNode {
+	type: 'Return';
+	value?: Expression;
+}
+
+/** Placeholder for an expression that could not be parsed. */
+export interface ErrorNode extends BaseNode {
+	type: 'Error';
+}
+
+export type Expression =
+	| FunctionNode
+	| Block
+	| EventLiteral
+	| Series
+	| ArrayLiteral
+	| Identifier
+	| ClassName
+	| EnvironmentVariable
+	| PseudoVariable
+	| Placeholder
+	| Literal
+	| Call
+	| BinaryOp
+	| UnaryOp
+	| Assignment
+	| MultiAssignment
+	| Index
+	| ErrorNode;
+
+export type Statement = Expression | VarDecl | Return;
+
+export type Node =
+	| Program
+	| ClassDef
+	| ClassExtension
+	| MethodDef
+	| VarDecl
+	| VarDeclarator
+	| ParamList
+	| Param
+	| KeywordArg
+	| Statement;
+
+/** Returns the direct children of a node in source order. */
+export function getChildren(node: Node): Node[] {
+	const children: (Node | undefined)[] = [];
+	switch (node.type) {
+		case 'Program':
+			children.push(...node.body);
+			break;
+		case 'ClassDef':
+			children.push(node.name, node.superclass, ...node.vars, ...node.methods);
+			children.sort((a, b) => (a?.start ?? 0) - (b?.start ?? 0));
+			break;
+		case 'ClassExtension':
+			children.push(node.name, ...node.methods);
+			break;
+		case 'Method':
+			children.push(node.body);
+			break;
+		case 'VarDecl':
+			children.push(...node.declarators);
+			break;
+		case 'VarDeclarator':
+			children.push(node.name, node.init);
+			break;
+		case 'ParamList':
+			children.push(...node.params, node.rest);
+			break;
+		case 'Param':
+			children.push(node.name, node.defaultValue);
+			break;
+		case 'Function':
+			children.push(node.params, ...node.body);
+			break;
+		case 'Block':
+			children.push(...node.body);
+			break;
+		case 'Event':
+			children.push(...node.entries);
+			break;
+		case 'Series':
+			children.push(node.first, node.second, node.last);
+			break;
+		case 'Array':
+			children.push(node.className, ...node.elements);
+			break;
+		case 'KeywordArg':
+			children.push(node.name, node.value);
+			break;
+		case 'Call':
+			children.push(node.receiver, ...node.args, ...node.blocks);
+			break;
+		case 'BinaryOp':
+			children.push(node.left, node.right);
+			break;
+		case 'UnaryOp':
+			children.push(node.operand);
+			break;
+		case 'Assignment':
+			children.push(node.target, node.value);
+			break;
+		case 'MultiAssignment':
+			children.push(...node.targets, node.rest, node.value);
+			break;
+		case 'Index':
+			children.push(node.object, ...node.args);
+			break;
+		case 'Return':
+			children.push(node.value);
+			break;
+	}
+	return children.filter((child): child is Node => child !== undefined);
+}
+
+/**
+ * Visits every node depth first. Returning `false` from the visitor skips the node's children.
+ */
+export function walk(node: Node, visitor: (node: Node, parent: Node | undefined) => boolean | void, parent?: Node): void {
+	if (visitor(node, parent) === false) {
+		return;
+	}
+	for (const child of getChildren(node)) {
+		walk(child, visitor, node);
+	}
+}
+
+/**
+ * Returns the chain of nodes enclosing `offset`, outermost first. A node whose end equals
+ * `offset` still counts as enclosing it, so that positions right after a token resolve to it.
+ */
+export function getNodePath(root: Node, offset: number): Node[] {
+	const path: Node[] = [];
+	let current: Node | undefined = root;
+	while (current) {
+		path.push(current);
+		current = getChildren(current).find(child => child.start <= offset && offset <= child.end && child.end > child.start);
+	}
+	return path;
+}
@@ -0,0 +1,413 @@
+/*---------------------------------------------------------------------------------------------
+ *  Tokenizer for SuperCollider source code (.scd and .sc files).
+ *--------------------------------------------------------------------------------------------*/
+
+import { ParseError } from './ast';
+
+export type TokenType =
+	| 'name'        // lowercase identifier: freq, postln
+	| 'className'   // capitalized identifier: SinOsc
+	| 'keyword'     // var, arg, classvar, const
+	| 'pseudo'      // nil, true, false, inf, pi, this, super, thisProcess...
+	| 'primitive'   // _Primitive names inside class methods, or `_` alone in partial application
+	| 'envVar'      // ~name
+	| 'number'
+	| 'string'
+	| 'symbol'      // \name or 'quoted'
+	| 'char'        // $a
+	| 'binop'       // + - * / < > = ! @ % & | ? and combinations like +/+
+	| 'punctuation' // ( ) [ ] { } , ; . .. ... : ^ # `
+	| 'eof';
+
+export interface Token {
+	type: TokenType;
+	/** Raw source text of the token. */
+	value: string;
+	start: number;
+	end: number;
+	/** True when whitespace or a comment separates this token from the previous one. */
+	spaceBefore: boolean;
+	/** True for the first token on its line. */
+	lineStart: boolean;
+	/** Decoded value of number, string, symbol and char literals. */
+	literal?: string | number;
+	/** Set on quoted symbols ('name') to tell them apart from backslash symbols. */
+	quoted?: boolean;
+}
+
+export interface Comment {
+	kind: 'line' | 'block';
+	text: string;
+	start: number;
+	end: number;
+}
+
+export interface LexResult {
+	tokens: Token[];
+	comments: Comment[];
+	errors: ParseError[];
+}
+
+export const KEYWORDS = new Set(['var', 'arg', 'classvar', 'const']);
+
+export const PSEUDO_VARIABLES = new Set([
+	'nil', 'true', 'false', 'inf', 'pi',
+	'this', 'super', 'thisProcess', 'thisThread', 'thisFunction', 'thisFunctionDef', 'thisMethod'
+]);
+
+const OPERATOR_CHARS = '!@%&*-+=|<>?/';
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', f: '\f', v: '\v' };
+
+function isDigit(ch: string): boolean {
+	return ch >= '0' && ch <= '9';
+}
+
+function isAlpha(ch: string): boolean {
+	return (ch >= 'a' && ch <= 'z') || (ch >= 'A' && ch <= 'Z');
+}
+
+export function isIdentifierChar(ch: string): boolean {
+	return isAlpha(ch) || isDigit(ch) || ch === '_';
+}
+
+function isUpper(ch: string): boolean {
+	return ch >= 'A' && ch <= 'Z';
+}
+
+function digitValue(ch: string): number {
+	if (isDigit(ch)) {
+		return ch.charCodeAt(0) - 48;
+	}
+	if (ch >= 'a' && ch <= 'z') {
+		return ch.charCodeAt(0) - 87;
+	}
+	if (ch >= 'A' && ch <= 'Z') {
+		return ch.charCodeAt(0) - 55;
+	}
+	return -1;
+}
+
+/**
+ * Splits SuperCollider source text into tokens. Comments are collected separately so that the
+ * parser never sees them, and malformed literals are reported as errors without stopping the scan.
+ */
+export function tokenize(text: string): LexResult {
+	const tokens: Token[] = [];
+	const comments: Comment[] = [];
+	const errors: ParseError[] = [];
+	let pos = 0;
+	let spaceBefore = false;
+	let lineStart = true;
+
+	const push = (type: TokenType, start: number, extra?: Partial<Token>) => {
+		tokens.push({ type, value: text.substring(start, pos), start, end: pos, spaceBefore, lineStart, ...extra });
+		spaceBefore = false;
+		lineStart = false;
+	};
+
+	const error = (message: string, start: number, end: number, code: ParseError['code']) => {
+		errors.push({ message, start, end, code });
+	};
+
+	// Reads a backslash escape inside a string, symbol or char literal; `pos` is on the backslash.
+	const readEscape = (): string => {
+		const ch = text.charAt(pos + 1);
+		pos += 2;
+		return ESCAPES[ch] ?? ch;
+	};
+
+	const readQuoted = (quote: string): string | undefined => {
+		let value = '';
+		pos++;
+		while (pos < text.length) {
+			const ch = text[pos];
+			if (ch === quote) {
+				pos++;
+				return value;
+			}
+			if (ch === '\\') {
+				value += readEscape();
+			} else {
+				value += ch;
+				pos++;
+			}
+		}
+		return undefined;
+	};
+
+	const readNumber = (start: number) => {
+		while (isDigit(text.charAt(pos))) {
+			pos++;
+		}
+		const next = text.charAt(pos);
+
+		// Hexadecimal: 0xFF
+		if (next === 'x' && text.substring(start, pos) === '0' && digitValue(text.charAt(pos + 1)) >= 0) {
+			pos++;
+			while (isIdentifierChar(text.charAt(pos))) {
+				pos++;
+			}
+			const digits = text.substring(start + 2, pos);
+			const invalid = [...digits].find(d => digitValue(d) < 0 || digitValue(d) >= 16);
+			if (invalid !== undefined) {
+				error(`Invalid hexadecimal digit '${invalid}' in '${text.substring(start, pos)}'`, start, pos, 'invalid-number');
+			}
+			push('number', start, { literal: parseInt(digits, 16) });
+			return;
+		}
+
+		// Radix: 2r1010, 16rDEADBEEF, 36rZ.Z
+		if (next === 'r' && isIdentifierChar(text.charAt(pos + 1))) {
+			const radix = parseInt(text.substring(start, pos), 10);
+			pos++;
+			const digitsStart = pos;
+			while (isIdentifierChar(text.charAt(pos))) {
+				pos++;
+			}
+			const fraction = digitValue(text.charAt(pos + 1));
+			if (text.charAt(pos) === '.' && fraction >= 0 && fraction < radix) {
+				pos++;
+				while (isIdentifierChar(text.charAt(pos))) {
+					pos++;
+				}
+			}
+			const raw = text.substring(start, pos);
+			const digits = text.substring(digitsStart, pos);
+			if (radix < 2 || radix > 36) {
+				error(`Invalid radix ${radix} in '${raw}', radix must be between 2 and 36`, start, pos, 'invalid-number');
+				push('number', start, { literal: 0 });
+				return;
+			}
+			let value = 0;
+			let scale = 0;
+			for (let i = 0; i < digits.length; i++) {
+				const d = digits[i];
+				if (d === '.') {
+					scale = 1;
+					continue;
+				}
+				const dv = digitValue(d);
+				if (dv < 0 || dv >= radix) {
+					const at = digitsStart + i;
+					error(`Invalid digit '${d}' for radix ${radix} in '${raw}'`, at, at + 1, 'invalid-number');
+					continue;
+				}
+				if (scale > 0) {
+					scale /= radix;
+					value += dv * scale;
+				} else {
+					value = value * radix + dv;
+				}
+			}
+			push('number', start, { literal: value });
+			return;
+		}
+
+		// Decimal with optional fraction, exponent, pi suffix or scale degree accidentals
+		if (next === '.' && isDigit(text.charAt(pos + 1))) {
+			pos++;
+			while (isDigit(text.charAt(pos))) {
+				pos++;
+			}
+		}
+		if ((text.charAt(pos) === 'e' || text.charAt(pos) === 'E') &&
+			(isDigit(text.charAt(pos + 1)) || ((text.charAt(pos + 1) === '-' || text.charAt(pos + 1) === '+') && isDigit(text.charAt(pos + 2))))) {
+			pos += 2;
+			while (isDigit(text.charAt(pos))) {
+				pos++;
+			}
+		}
+		let value = parseFloat(text.substring(start, pos));
+
+		if (text.startsWith('pi', pos) && !isIdentifierChar(text.charAt(pos + 2))) {
+			pos += 2;
+			value *= Math.PI;
+		} else if (text.charAt(pos) === 's' || text.charAt(pos) === 'b') {
+			// Accidentals: 1s, 2bb, 3s25 (sharp/flat scale degrees)
+			const accidentalStart = pos;
+			const accidental = text.charAt(pos);
+			while (text.charAt(pos) === accidental) {
+				pos++;
+			}
+			while (isDigit(text.charAt(pos))) {
+				pos++;
+			}
+			if (isIdentifierChar(text.charAt(pos))) {
+				pos = accidentalStart;
+			} else {
+				const count = text.substring(accidentalStart, pos).replace(/\d+/, '').length;
+				const cents = text.substring(accidentalStart + count, pos);
+				const amount = cents ? parseInt(cents, 10) / 1000 : count * 0.1;
+				value += accidental === 's' ? amount : -amount;
+			}
+		}
+
+		if (isIdentifierChar(text.charAt(pos))) {
+			while (isIdentifierChar(text.charAt(pos))) {
+				pos++;
+			}
+			error(`Invalid number literal '${text.substring(start, pos)}'`, start, pos, 'invalid-number');
+		}
+		push('number', start, { literal: value });
+	};
+
+	while (pos < text.length) {
+		const ch = text[pos];
+		const start = pos;
+
+		if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === '\v') {
+			pos++;
+			spaceBefore = true;
+			lineStart ||= ch === '\n' || ch === '\r';
+			continue;
+		}
+
+		// Comments
+		if (ch === '/' && text.charAt(pos + 1) === '/') {
+			while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r') {
+				pos++;
+			}
+			comments.push({ kind: 'line', text: text.substring(start, pos), start, end: pos });
+			spaceBefore = true;
+			continue;
+		}
+		if (ch === '/' && text.charAt(pos + 1) === '*') {
+			let depth = 0;
+			while (pos < text.length) {
+				if (text[pos] === '/' && text.charAt(pos + 1) === '*') {
+					depth++;
+					pos += 2;
+				} else if (text[pos] === '*' && text.charAt(pos + 1) === '/') {
+					depth--;
+					pos += 2;
+					if (depth === 0) {
+						break;
+					}
+				} else {
+					pos++;
+				}
+			}
+			if (depth > 0) {
+				error('Unterminated block comment', start, start + 2, 'unterminated-comment');
+			}
+			comments.push({ kind: 'block', text: text.substring(start, pos), start, end: pos });
+			spaceBefore = true;
+			lineStart ||= /[\r\n]/.test(text.substring(start, pos));
+			continue;
+		}
+
+		if (isAlpha(ch) || ch === '_') {
+			while (isIdentifierChar(text.charAt(pos))) {
+				pos++;
+			}
+			const word = text.substring(start, pos);
+			if (ch === '_') {
+				push('primitive', start);
+			} else if (isUpper(ch)) {
+				push('className', start);
+			} else if (KEYWORDS.has(word)) {
+				push('keyword', start);
+			} else if (PSEUDO_VARIABLES.has(word)) {
+				push('pseudo', start);
+			} else {
+				push('name', start);
+			}
+			continue;
+		}
+
+		if (isDigit(ch)) {
+			readNumber(start);
+			continue;
+		}
+
+		if (ch === '~') {
+			pos++;
+			while (isIdentifierChar(text.charAt(pos))) {
+				pos++;
+			}
+			if (pos === start + 1) {
+				error('Expected an environment variable name after \'~\'', start, pos, 'syntax');
+			}
+			push('envVar', start, { literal: text.substring(start + 1, pos) });
+			continue;
+		}
+
+		if (ch === '"') {
+			const value = readQuoted('"');
+			if (value === undefined) {
+				error('Unterminated string', start, start + 1, 'unterminated-string');
+			}
+			push('string', start, { literal: value ?? text.substring(start + 1, pos) });
+			continue;
+		}
+
+		if (ch === '\'') {
+			const value = readQuoted('\'');
+			if (value === undefined) {
+				error('Unterminated symbol', start, start + 1, 'unterminated-string');
+			}
+			push('symbol', start, { literal: value ?? text.substring(start + 1, pos), quoted: true });
+			continue;
+		}
+
+		if (ch === '\\') {
+			pos++;
+			while (isIdentifierChar(text.charAt(pos))) {
+				pos++;
+			}
+			push('symbol', start, { literal: text.substring(start + 1, pos) });
+			continue;
+		}
+
+		if (ch === '$') {
+			if (pos + 1 >= text.length) {
+				pos++;
+				error('Expected a character after \'$\'', start, pos, 'syntax');
+				push('char', start, { literal: '' });
+				continue;
+			}
+			let value: string;
+			if (text[pos + 1] === '\\' && pos + 2 < text.length) {
+				pos++;
+				value = readEscape();
+			} else {
+				value = text[pos + 1];
+				pos += 2;
+			}
+			push('char', start, { literal: value });
+			continue;
+		}
+
+		if (ch === '.') {
+			while (text.charAt(pos) === '.' && pos - start < 3) {
+				pos++;
+			}
+			push('punctuation', start);
+			continue;
+		}
+
+		if ('()[]{},;:^#`'.includes(ch)) {
+			pos++;
+			push('punctuation', start);
+			continue;
+		}
+
+		if (OPERATOR_CHARS.includes(ch)) {
+			pos++;
+			while (pos < text.length && OPERATOR_CHARS.includes(text.charAt(pos)) &&
+				!(text[pos] === '/' && (text.charAt(pos + 1) === '/' || text.charAt(pos + 1) === '*'))) {
+				pos++;
+			}
+			push('binop', start);
+			continue;
+		}
+
+		pos++;
+		error(`Unexpected character '${ch}'`, start, pos, 'syntax');
+		spaceBefore = true;
+	}
+
+	tokens.push({ type: 'eof', value: '', start: text.length, end: text.length, spaceBefore, lineStart: true });
+	return { tokens, comments, errors };
+}
@@ -0,0 +1,1028 @@
+/*---------------------------------------------------------------------------------------------
+ *  Recursive descent parser for SuperCollider. Binary operators have no precedence in sclang
+ *  and associate left to right; message sends bind tighter than any binary operator.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	ArrayLiteral,
+	Block,
+	Call,
+	ClassDef,
+	ClassExtension,
+	ErrorNode,
+	EventLiteral,
+	Expression,
+	FunctionNode,
+	Identifier,
+	KeywordArg,
+	Literal,
+	MethodDef,
+	Param,
+	ParamList,
+	ParseError,
+	ParseErrorCode,
+	Program,
+	Series,
+	Statement,
+	VarDecl,
+	VarDeclarator
+} from './ast';
+import { Comment, Token, tokenize } from './lexer';
+
+export interface ParseOptions {
+	/** Parse a class library file (.sc), whose top level holds class definitions and extensions. */
+	classFile?: boolean;
+}
+
+export interface ParseResult {
+	program: Program;
+	tokens: Token[];
+	comments: Comment[];
+	errors: ParseError[];
+}
+
+export function parse(text: string, options: ParseOptions = {}): ParseResult {
+	const { tokens, comments, errors } = tokenize(text);
+	const parser = new Parser(tokens, errors);
+	const program = options.classFile ? parser.parseClassFile() : parser.parseProgram();
+	return { program, tokens, comments, errors };
+}
+
+/** True when `offset` lies inside a comment, string or character literal. */
+export function isInCommentOrString(parsed: ParseResult, offset: number): boolean {
+	for (const comment of parsed.comments) {
+		const closed = comment.kind === 'block' && comment.text.length >= 4 && comment.text.endsWith('*/');
+		if (comment.start < offset && (offset < comment.end || (offset === comment.end && !closed))) {
+			return true;
+		}
+	}
+	for (const token of parsed.tokens) {
+		if (token.start >= offset) {
+			break;
+		}
+		if (token.type === 'string' || token.type === 'char' || (token.type === 'symbol' && token.quoted)) {
+			// A character literal is complete after one character, but typing right after it is still not code
+			const closed = token.type !== 'char' && token.value.length > 1 && token.value.endsWith(token.value[0]);
+			if (offset < token.end || (offset === token.end && !closed)) {
+				return true;
+			}
+		}
+	}
+	return false;
+}
+
+const CLOSERS = [')', ']', '}'];
+
+class Parser {
+	private pos = 0;
+	/** Closing brackets of the constructs currently being parsed, innermost last. */
+	private closers: string[] = [];
+	/** Primitive name found in the method body being parsed. */
+	private primitive: string | undefined;
+	private inMethod = false;
+
+	constructor(private tokens: Token[], private errors: ParseError[]) { }
+
+	parseProgram(): Program {
+		const body = this.parseStatements();
+		return { type: 'Program', body, start: 0, end: this.eof().end };
+	}
+
+	parseClassFile(): Program {
+		const body: Program['body'] = [];
+		while (this.peek().type !== 'eof') {
+			const tok = this.peek();
+			if (tok.type === 'className') {
+				body.push(this.parseClassDef());
+			} else if (this.isOp(tok, '+') && this.peek(1).type === 'className') {
+				body.push(this.parseClassExtension());
+			} else if (!this.skipStrayCloser(tok)) {
+				this.error(`Expected a class definition or extension, found '${tok.value}'`, tok.start, tok.end);
+				this.pos++;
+			}
+		}
+		return { type: 'Program', body, start: 0, end: this.eof().end };
+	}
+
+	// ---- token helpers -------------------------------------------------------------------
+
+	private peek(offset = 0): Token {
+		return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+	}
+
+	private next(): Token {
+		const tok = this.peek();
+		if (tok.type !== 'eof') {
+			this.pos++;
+		}
+		return tok;
+	}
+
+	private eof(): Token {
+		return this.tokens[this.tokens.length - 1];
+	}
+
+	private previousEnd(): number {
+		return this.pos > 0 ? this.tokens[this.pos - 1].end : 0;
+	}
+
+	private isPunct(tok: Token, value: string): boolean {
+		return tok.type === 'punctuation' && tok.value === value;
+	}
+
+	private isOp(tok: Token, value: string): boolean {
+		return tok.type === 'binop' && tok.value === value;
+	}
+
+	private at(value: string): boolean {
+		return this.isPunct(this.peek(), value);
+	}
+
+	private isCloser(tok: Token): boolean {
+		return tok.type === 'punctuation' && CLOSERS.includes(tok.value);
+	}
+
+	/** True when the current token ends the construct being parsed. */
+	private atEnd(): boolean {
+		const tok = this.peek();
+		return tok.type === 'eof' || (this.isCloser(tok) && this.closers.includes(tok.value));
+	}
+
+	/**
+	 * Top-level code in .scd documents is a collection of snippets evaluated one at a time, so a
+	 * bracket that starts a line there begins a new region instead of continuing the expression
+	 * above it, and line breaks separate statements.
+	 */
+	private atRegionStart(): boolean {
+		return this.closers.length === 0 && this.peek().lineStart;
+	}
+
+	/** `name:` keyword labels, with the colon directly after the name. */
+	private atKeywordLabel(): boolean {
+		const colon = this.peek(1);
+		return this.peek().type === 'name' && this.isPunct(colon, ':') && !colon.spaceBefore;
+	}
+
+	/** An assignment `=`, which the lexer may have glued to following operator characters. */
+	private atAssign(): boolean {
+		const tok = this.peek();
+		return tok.type === 'binop' && tok.value[0] === '=' && tok.value[1] !== '=';
+	}
+
+	/**
+	 * Splits the current token after `length` characters. Operator characters are lexed greedily,
+	 * so `|x|-x` and `x=-1` need their `|` and `=` separated from what follows.
+	 */
+	private splitToken(length: number): void {
+		const tok = this.peek();
+		if (tok.value.length <= length) {
+			return;
+		}
+		const first: Token = { ...tok, value: tok.value.substring(0, length), end: tok.start + length };
+		const second: Token = { ...tok, value: tok.value.substring(length), start: tok.start + length, spaceBefore: false };
+		this.tokens.splice(this.pos, 1, first, second);
+	}
+
+	private error(message: string, start: number, end: number, code: ParseErrorCode = 'syntax', related?: ParseError['related']): void {
+		this.errors.push({ message, start, end, code, related });
+	}
+
+	private describe(tok: Token): string {
+		return tok.type === 'eof' ? 'end of file' : `'${tok.value}'`;
+	}
+
+	private expectPunct(value: string, code: ParseErrorCode = 'syntax'): Token | undefined {
+		const tok = this.peek();
+		if (this.isPunct(tok, value)) {
+			return this.next();
+		}
+		this.error(`Expected '${value}' but found ${this.describe(tok)}`, tok.start, tok.end, code);
+		return undefined;
+	}
+
+	private expectName(what: string): Identifier | undefined {
+		const tok = this.peek();
+		if (tok.type === 'name') {
+			this.next();
+			return { type: 'Identifier', name: tok.value, start: tok.start, end: tok.end };
+		}
+		this.error(`Expected ${what} but found ${this.describe(tok)}`, tok.start, tok.end);
+		return undefined;
+	}
+
+	/** Reports and skips a closing bracket that matches nothing currently open. */
+	private skipStrayCloser(tok: Token): boolean {
+		if (this.isCloser(tok) && !this.closers.includes(tok.value)) {
+			this.error(`Unexpected '${tok.value}'`, tok.start, tok.end, 'unexpected-bracket');
+			this.pos++;
+			return true;
+		}
+		return false;
+	}
+
+	/** Consumes the closer of `open`, reporting the pair as unclosed if it is missing. */
+	private expectClose(open: Token, closer: string): number | undefined {
+		const tok = this.peek();
+		if (this.isPunct(tok, closer)) {
+			this.next();
+			return tok.start;
+		}
+		const related = tok.type === 'eof'
+			? undefined
+			: { message: `Expected '${closer}' before ${this.describe(tok)}`, start: tok.start, end: tok.end };
+		this.error(`Unclosed '${open.value}'`, open.start, open.end, 'unclosed-bracket', related);
+		return undefined;
+	}
+
+	/**
+	 * Parses a comma separated list up to `closer`, recovering from missing commas and stray
+	 * brackets. Returns the offset of the closing bracket if it was found.
+	 */
+	private parseDelimited(open: Token, closer: string, parseItem: () => void, separators?: number[]): number | undefined {
+		this.closers.push(closer);
+		for (;;) {
+			const tok = this.peek();
+			if (this.skipStrayCloser(tok)) {
+				continue;
+			}
+			if (this.atEnd()) {
+				break;
+			}
+			const before = this.pos;
+			parseItem();
+			const after = this.peek();
+			if (this.isPunct(after, ',')) {
+				separators?.push(after.start);
+				this.next();
+				continue;
+			}
+			if (this.atEnd() || this.isCloser(after)) {
+				continue;
+			}
+			this.error(`Expected ',' or '${closer}' but found ${this.describe(after)}`, after.start, after.end);
+			if (this.pos === before || this.isPunct(after, ';')) {
+				this.next();
+			}
+		}
+		this.closers.pop();
+		return this.expectClose(open, closer);
+	}
+
+	// ---- statements ----------------------------------------------------------------------
+
+	private parseStatements(): Statement[] {
+		const body: Statement[] = [];
+		for (;;) {
+			const tok = this.peek();
+			if (this.skipStrayCloser(tok)) {
+				continue;
+			}
+			if (this.atEnd()) {
+				break;
+			}
+			if (this.isPunct(tok, ';')) {
+				this.next();
+				continue;
+			}
+			if (tok.type === 'primitive' && tok.value !== '_' && this.inMethod) {
+				this.primitive = tok.value;
+				this.next();
+				continue;
+			}
+			const before = this.pos;
+			body.push(this.parseStatement());
+			this.expectStatementEnd();
+			if (this.pos === before) {
+				this.next();
+			}
+		}
+		return body;
+	}
+
+	/** After a statement only `;` or the end of the enclosing construct may follow. */
+	private expectStatementEnd(): void {
+		const tok = this.peek();
+		if (this.isPunct(tok, ';')) {
+			this.next();
+		} else if (!this.atEnd() && !this.isCloser(tok) && !this.atRegionStart()) {
+			this.error(`Expected ';' before ${this.describe(tok)}`, tok.start, tok.end, 'missing-semicolon');
+		}
+	}
+
+	private parseStatement(): Statement {
+		const tok = this.peek();
+		if (tok.type === 'keyword') {
+			if (tok.value === 'arg') {
+				if (this.closers.length > 0) {
+					this.error('Argument declarations must come first in a function', tok.start, tok.end);
+				}
+				const params = this.parseArgDeclaration();
+				return { type: 'Error', start: params.start, end: params.end };
+			}
+			const decl = this.parseVarDecl(false);
+			if (decl.kind !== 'var') {
+				this.error(`'${decl.kind}' declarations are only allowed in class definitions`, tok.start, tok.end);
+			}
+			return decl;
+		}
+		if (this.isPunct(tok, '^')) {
+			this.next();
+			const value = this.atEnd() || this.at(';') ? undefined : this.parseExpression();
+			return { type: 'Return', value, start: tok.start, end: value?.end ?? tok.end };
+		}
+		return this.parseExpression();
+	}
+
+	private parseVarDecl(inClass: boolean): VarDecl {
+		const keyword = this.next();
+		const declarators: VarDeclarator[] = [];
+		do {
+			const tok = this.peek();
+			let getter = false;
+			let setter = false;
+			if (inClass && tok.type === 'binop' && ['<', '>', '<>'].includes(tok.value)) {
+				getter = tok.value.includes('<');
+				setter = tok.value.includes('>');
+				this.next();
+			}
+			const name = this.expectName('a variable name');
+			if (!name) {
+				break;
+			}
+			const declarator: VarDeclarator = { type: 'VarDeclarator', name, start: inClass && (getter || setter) ? tok.start : name.start, end: name.end };
+			if (inClass) {
+				declarator.getter = getter;
+				declarator.setter = setter;
+			}
+			if (this.atAssign()) {
+				this.splitToken(1);
+				this.next();
+				declarator.init = this.parseBinary();
+				declarator.end = declarator.init.end;
+			}
+			declarators.push(declarator);
+		} while (this.at(',') && this.next());
+		return {
+			type: 'VarDecl',
+			kind: keyword.value as VarDecl['kind'],
+			declarators,
+			start: keyword.start,
+			end: Math.max(keyword.end, this.previousEnd())
+		};
+	}
+
+	/** `arg a, b = 1 ... rest;` */
+	private parseArgDeclaration(): ParamList {
+		const keyword = this.next();
+		const list = this.parseParams('arg', keyword.start);
+		if (!this.at(';')) {
+			const tok = this.peek();
+			this.error(`Expected ';' after argument list but found ${this.describe(tok)}`, tok.start, tok.end, 'missing-semicolon');
+		} else {
+			this.next();
+		}
+		return list;
+	}
+
+	/** `|a, b = 1 ... rest|` */
+	private parsePipeParams(): ParamList {
+		const open = this.peek();
+		this.splitToken(1);
+		this.next();
+		const list = this.parseParams('pipe', open.start);
+		const close = this.peek();
+		if (close.type === 'binop' && close.value[0] === '|') {
+			this.splitToken(1);
+			this.next();
+			list.end = close.start + 1;
+		} else {
+			this.error(`Expected '|' to close the argument list but found ${this.describe(close)}`, close.start, close.end, 'syntax',
+				{ message: 'Argument list starts here', start: open.start, end: open.start + 1 });
+		}
+		return list;
+	}
+
+	private parseParams(style: ParamList['style'], start: number): ParamList {
+		const list: ParamList = { type: 'ParamList', style, params: [], start, end: start };
+		for (;;) {
+			const isRest = this.at('...');
+			if (isRest) {
+				this.next();
+			}
+			const name = this.expectName('an argument name');
+			if (!name) {
+				break;
+			}
+			const param: Param = { type: 'Param', name, start: name.start, end: name.end };
+			if (!isRest && this.atAssign()) {
+				this.splitToken(1);
+				this.next();
+				// Pipe defaults cannot contain binary operators: the closing `|` would be taken as one.
+				param.defaultValue = style === 'pipe' ? this.parseUnary() : this.parseBinary();
+				param.end = param.defaultValue.end;
+			}
+			if (isRest) {
+				list.rest = param;
+				break;
+			}
+			list.params.push(param);
+			if (this.at('...')) {
+				continue;
+			}
+			if (!this.at(',')) {
+				break;
+			}
+			this.next();
+		}
+		list.end = this.previousEnd();
+		return list;
+	}
+
+	// ---- expressions ---------------------------------------------------------------------
+
+	private parseExpression(): Expression {
+		if (this.at('#') && !this.isPunct(this.peek(1), '[') && !this.isPunct(this.peek(1), '{')) {
+			return this.parseMultiAssignment();
+		}
+		const left = this.parseBinary();
+		if (!this.atAssign()) {
+			return left;
+		}
+		const isSetter = left.type === 'Call' && left.style === 'method' && left.args.length === 0 &&
+			left.blocks.length === 0 && left.openParen === undefined && left.selector !== '';
+		if (left.type !== 'Identifier' && left.type !== 'EnvironmentVariable' && left.type !== 'Index' && !isSetter) {
+			this.error('Invalid assignment target', left.start, left.end);
+		}
+		this.splitToken(1);
+		this.next();
+		const value = this.parseExpression();
+		if (left.type === 'Identifier' || left.type === 'EnvironmentVariable' || left.type === 'Index' || left.type === 'Call') {
+			return { type: 'Assignment', target: left, value, start: left.start, end: value.end };
+		}
+		return value;
+	}
+
+	/** `#a, b ... rest = expr` */
+	private parseMultiAssignment(): Expression {
+		const hash = this.next();
+		const targets: Identifier[] = [];
+		let rest: Identifier | undefined;
+		for (;;) {
+			if (this.at('...')) {
+				this.next();
+				rest = this.expectName('a variable name');
+				break;
+			}
+			const name = this.expectName('a variable name');
+			if (!name) {
+				break;
+			}
+			targets.push(name);
+			if (!this.at(',')) {
+				if (this.at('...')) {
+					continue;
+				}
+				break;
+			}
+			this.next();
+		}
+		if (!this.atAssign()) {
+			const tok = this.peek();
+			this.error(`Expected '=' in multiple assignment but found ${this.describe(tok)}`, tok.start, tok.end);
+			return { type: 'Error', start: hash.start, end: this.previousEnd() };
+		}
+		this.splitToken(1);
+		this.next();
+		const value = this.parseExpression();
+		return { type: 'MultiAssignment', targets, rest, value, start: hash.start, end: value.end };
+	}
+
+	private parseBinary(): Expression {
+		let left = this.parseUnary();
+		for (;;) {
+			const tok = this.peek();
+			if (tok.type === 'binop' && !this.atAssign()) {
+				this.next();
+				let adverb: string | undefined;
+				const dot = this.peek();
+				const adverbTok = this.peek(1);
+				if (this.isPunct(dot, '.') && !dot.spaceBefore && !adverbTok.spaceBefore &&
+					(adverbTok.type === 'name' || adverbTok.type === 'number')) {
+					this.next();
+					this.next();
+					adverb = adverbTok.value;
+				}
+				const right = this.parseUnary();
+				left = {
+					type: 'BinaryOp', operator: tok.value, operatorStart: tok.start, operatorEnd: tok.end,
+					keyword: false, adverb, left, right, start: left.start, end: right.end
+				};
+			} else if (this.atKeywordLabel()) {
+				this.next();
+				const colon = this.next();
+				const right = this.parseUnary();
+				left = {
+					type: 'BinaryOp', operator: tok.value, operatorStart: tok.start, operatorEnd: colon.end,
+					keyword: true, left, right, start: left.start, end: right.end
+				};
+			} else {
+				return left;
+			}
+		}
+	}
+
+	private parseUnary(): Expression {
+		const tok = this.peek();
+		if (this.isOp(tok, '-')) {
+			this.next();
+			const operandTok = this.peek();
+			if (operandTok.type === 'number' && !operandTok.spaceBefore) {
+				// Negative literals bind before message sends: -1.abs is (-1).abs
+				this.next();
+				const literal: Literal = {
+					type: 'Literal', kind: 'number', value: -(operandTok.literal as number),
+					raw: '-' + operandTok.value, start: tok.start, end: operandTok.end
+				};
+				return this.parsePostfix(literal);
+			}
+			const operand = this.parseUnary();
+			return { type: 'UnaryOp', operator: '-', operand, start: tok.start, end: operand.end };
+		}
+		if (this.isPunct(tok, '`')) {
+			this.next();
+			const operand = this.parseUnary();
+			return { type: 'UnaryOp', operator: '`', operand, start: tok.start, end: operand.end };
+		}
+		return this.parsePostfix(this.parsePrimary());
+	}
+
+	private parsePostfix(expr: Expression): Expression {
+		for (;;) {
+			const tok = this.peek();
+			if (this.isPunct(tok, '.')) {
+				const selector = this.peek(1);
+				if (selector.type === 'name' || selector.type === 'pseudo') {
+					this.next();
+					this.next();
+					const call = this.newCall('method', selector.value, selector.start, selector.end, expr);
+					this.parseCallTail(call);
+					expr = call;
+				} else if (this.isPunct(selector, '(')) {
+					this.next();
+					const call = this.newCall('value', 'value', tok.start, tok.end, expr);
+					this.parseCallTail(call);
+					expr = call;
+				} else {
+					// Keep the incomplete send so that completion still sees its receiver.
+					this.next();
+					this.error(`Expected a method name after '.' but found ${this.describe(selector)}`, tok.start, tok.end);
+					return this.newCall('method', '', tok.end, tok.end, expr);
+				}
+			} else if (this.isPunct(tok, '[') && expr.type !== 'Error' && !this.atRegionStart()) {
+				const open = this.next();
+				const args: Expression[] = [];
+				const close = this.parseDelimited(open, ']', () => args.push(this.parseSeriesItem(args, ']')));
+				expr = { type: 'Index', object: expr, args, start: expr.start, end: close !== undefined ? close + 1 : this.previousEnd() };
+			} else {
+				return expr;
+			}
+		}
+	}
+
+	/**
+	 * Parses one element of an index or series. A `..` turns the items collected so far into a
+	 * series: `a[1..3]`, `a[..3]`, `a[2..]`, `a[0, 2..10]`.
+	 */
+	private parseSeriesItem(items: Expression[], closer: string): Expression {
+		const start = this.peek().start;
+		let first: Expression | undefined;
+		if (!this.at('..')) {
+			first = this.parseExpression();
+			if (!this.at('..')) {
+				return first;
+			}
+		}
+		this.next();
+		let second: Expression | undefined;
+		if (items.length === 1 && first) {
+			// `a, b..c` form: the previous element is the first value, this one the second.
+			second = first;
+			first = items.pop();
+		}
+		const last = this.at(closer) ? undefined : this.parseExpression();
+		const series: Series = {
+			type: 'Series', first, second, last,
+			start: first?.start ?? start, end: this.previousEnd()
+		};
+		return series;
+	}
+
+	private newCall(style: Call['style'], selector: string, selectorStart: number, selectorEnd: number, receiver?: Expression): Call {
+		return {
+			type: 'Call', style, receiver, selector, selectorStart, selectorEnd,
+			args: [], blocks: [], separators: [],
+			start: receiver?.start ?? selectorStart, end: selectorEnd
+		};
+	}
+
+	/** Parses `(args)` and trailing `{ }` function arguments after a selector, if present. */
+	private parseCallTail(call: Call): void {
+		if (this.atRegionStart()) {
+			return;
+		}
+		if (this.at('(')) {
+			const open = this.next();
+			call.openParen = open.start;
+			call.end = open.end;
+			let splat: Expression | undefined;
+			call.closeParen = this.parseDelimited(open, ')', () => {
+				if (this.atKeywordLabel()) {
+					call.args.push(this.parseKeywordArg());
+					return;
+				}
+				const tok = this.peek();
+				if (splat) {
+					this.error(`Expected a keyword argument after '*' but found ${this.describe(tok)}`, tok.start, tok.end);
+				}
+				if (this.isOp(tok, '*')) {
+					// `f.(a, *rest)` passes the elements of rest as the remaining arguments
+					this.next();
+					const operand = this.parseExpression();
+					splat = { type: 'UnaryOp', operator: '*', operand, start: tok.start, end: operand.end };
+					call.args.push(splat);
+				} else {
+					call.args.push(this.parseExpression());
+				}
+			}, call.separators);
+			call.end = call.closeParen !== undefined ? call.closeParen + 1 : this.previousEnd();
+		}
+		while ((this.at('{') || (this.at('#') && this.isPunct(this.peek(1), '{'))) && !this.atRegionStart()) {
+			const block = this.parseFunction();
+			call.blocks.push(block);
+			call.end = block.end;
+		}
+	}
+
+	private parseKeywordArg(): KeywordArg {
+		const tok = this.next();
+		this.next();
+		const name: Identifier = { type: 'Identifier', name: tok.value, start: tok.start, end: tok.end };
+		const value = this.parseExpression();
+		return { type: 'KeywordArg', name, value, start: tok.start, end: value.end };
+	}
+
+	private parsePrimary(): Expression {
+		const tok = this.peek();
+		switch (tok.type) {
+			case 'number':
+			case 'symbol':
+			case 'char':
+				this.next();
+				return {
+					type: 'Literal', kind: tok.type, value: tok.literal ?? null,
+					raw: tok.value, start: tok.start, end: tok.end
+				};
+			case 'string': {
+				this.next();
+				// Adjacent string literals are concatenated: "a" "b"
+				let value = tok.literal as string;
+				let end = tok.end;
+				while (this.peek().type === 'string') {
+					const part = this.next();
+					value += part.literal as string;
+					end = part.end;
+				}
+				return { type: 'Literal', kind: 'string', value, raw: this.rawText(tok.start, end), start: tok.start, end };
+			}
+			case 'pseudo':
+				this.next();
+				return this.pseudoLiteral(tok);
+			case 'primitive':
+				if (tok.value !== '_') {
+					break;
+				}
+				this.next();
+				return { type: 'Placeholder', start: tok.start, end: tok.end };
+			case 'envVar':
+				this.next();
+				return { type: 'EnvironmentVariable', name: tok.literal as string, start: tok.start, end: tok.end };
+			case 'name': {
+				this.next();
+				if ((this.at('(') || this.at('{') || (this.at('#') && this.isPunct(this.peek(1), '{'))) && !this.atRegionStart()) {
+					// Function call syntax: foo(a, b) is a.foo(b), loop { } is { }.loop
+					const call = this.newCall('function', tok.value, tok.start, tok.end);
+					this.parseCallTail(call);
+					return call;
+				}
+				return { type: 'Identifier', name: tok.value, start: tok.start, end: tok.end };
+			}
+			case 'className': {
+				this.next();
+				const className = { type: 'ClassName' as const, name: tok.value, start: tok.start, end: tok.end };
+				if (this.atRegionStart()) {
+					return className;
+				}
+				if (this.at('[')) {
+					return this.parseArray(this.peek(), false, className);
+				}
+				if (this.at('(') || this.at('{')) {
+					// Foo(args) is Foo.new(args)
+					const call = this.newCall('new', 'new', tok.end, tok.end, className);
+					this.parseCallTail(call);
+					return call;
+				}
+				return className;
+			}
+			case 'punctuation':
+				switch (tok.value) {
+					case '(':
+						return this.parseParen();
+					case '[':
+						return this.parseArray(tok, false);
+					case '{':
+						return this.parseFunction();
+					case '#':
+						if (this.isPunct(this.peek(1), '[')) {
+							this.next();
+							return this.parseArray(tok, true);
+						}
+						if (this.isPunct(this.peek(1), '{')) {
+							return this.parseFunction();
+						}
+						break;
+				}
+				break;
+		}
+		return this.unexpected(tok);
+	}
+
+	private unexpected(tok: Token): ErrorNode {
+		this.error(`Expected an expression but found ${this.describe(tok)}`, tok.start, tok.end);
+		if (tok.type === 'eof' || this.isPunct(tok, ';') || this.isPunct(tok, ',') || this.isCloser(tok)) {
+			return { type: 'Error', start: tok.start, end: tok.start };
+		}
+		this.next();
+		return { type: 'Error', start: tok.start, end: tok.end };
+	}
+
+	private rawText(start: number, end: number): string {
+		let raw = '';
+		for (const tok of this.tokens) {
+			if (tok.start >= start && tok.end <= end) {
+				raw += (raw && tok.spaceBefore ? ' ' : '') + tok.value;
+			}
+		}
+		return raw;
+	}
+
+	private pseudoLiteral(tok: Token): Expression {
+		const base = { start: tok.start, end: tok.end, raw: tok.value };
+		switch (tok.value) {
+			case 'nil':
+				return { type: 'Literal', kind: 'nil', value: null, ...base };
+			case 'true':
+			case 'false':
+				return { type: 'Literal', kind: 'boolean', value: tok.value === 'true', ...base };
+			case 'inf':
+				return { type: 'Literal', kind: 'number', value: Infinity, ...base };
+			case 'pi':
+				return { type: 'Literal', kind: 'number', value: Math.PI, ...base };
+		}
+		return { type: 'PseudoVariable', name: tok.value, start: tok.start, end: tok.end };
+	}
+
+	/** `( ... )`: an event `(a: 1)`, a series `(1..4)`, or a parenthesized block of statements. */
+	private parseParen(): Expression {
+		const open = this.next();
+		if (this.atKeywordLabel() || this.at(')')) {
+			const event: EventLiteral = { type: 'Event', entries: [], start: open.start, end: open.end };
+			const close = this.parseDelimited(open, ')', () => {
+				if (this.atKeywordLabel()) {
+					event.entries.push(this.parseKeywordArg());
+				} else {
+					const tok = this.peek();
+					this.error(`Expected 'key:' in event but found ${this.describe(tok)}`, tok.start, tok.end);
+					this.parseExpression();
+				}
+			});
+			event.end = close !== undefined ? close + 1 : this.previousEnd();
+			return event;
+		}
+
+		this.closers.push(')');
+		const block: Block = { type: 'Block', body: [], start: open.start, end: open.end };
+		const first = this.peek();
+		if (first.type !== 'keyword' && !this.isPunct(first, '^') && !this.isPunct(first, ';') && !this.atEnd()) {
+			const items = [this.parseExpression()];
+			if (this.at(',') && !this.atEnd()) {
+				this.next();
+				items.push(this.parseSeriesItem(items, ')'));
+				if (items[0].type !== 'Series') {
+					this.error('Expected \'..\' in series', items[0].start, this.previousEnd());
+				}
+			} else if (this.at('..')) {
+				this.next();
+				const last = this.at(')') ? undefined : this.parseExpression();
+				items[0] = { type: 'Series', first: items[0], last, start: items[0].start, end: this.previousEnd() };
+			}
+			block.body.push(items[0]);
+			if (items[0].type !== 'Series') {
+				this.expectStatementEnd();
+			}
+		}
+		block.body.push(...this.parseStatements());
+		this.closers.pop();
+		const close = this.expectClose(open, ')');
+		block.end = close !== undefined ? close + 1 : this.previousEnd();
+		if (block.body.length === 1 && block.body[0].type === 'Series') {
+			const series = block.body[0];
+			return { ...series, start: block.start, end: block.end };
+		}
+		return block;
+	}
+
+	private parseArray(open: Token, literal: boolean, className?: ArrayLiteral['className']): ArrayLiteral {
+		const bracket = this.next();
+		const array: ArrayLiteral = {
+			type: 'Array', className, elements: [], literal,
+			start: className?.start ?? open.start, end: bracket.end
+		};
+		const close = this.parseDelimited(bracket, ']', () => {
+			if (this.atKeywordLabel()) {
+				array.elements.push(this.parseKeywordArg());
+			} else {
+				array.elements.push(literal ? this.parseLiteralElement() : this.parseExpression());
+			}
+		});
+		array.end = close !== undefined ? close + 1 : this.previousEnd();
+		return array;
+	}
+
+	/** Elements of `#[ ]` literal arrays, where bare names are symbols and nesting is implicit. */
+	private parseLiteralElement(): Expression {
+		const tok = this.peek();
+		if (tok.type === 'name' || tok.type === 'className') {
+			this.next();
+			return { type: 'Literal', kind: 'symbol', value: tok.value, raw: tok.value, start: tok.start, end: tok.end };
+		}
+		if (this.isPunct(tok, '[')) {
+			return this.parseArray(tok, true);
+		}
+		if (this.isPunct(tok, '#') && this.isPunct(this.peek(1), '[')) {
+			this.next();
+			return this.parseArray(tok, true);
+		}
+		if (['number', 'string', 'symbol', 'char', 'pseudo'].includes(tok.type) || this.isOp(tok, '-')) {
+			const value = this.parseUnary();
+			if (value.type !== 'Literal') {
+				this.error('Literal arrays may only contain literals', value.start, value.end);
+			}
+			return value;
+		}
+		if (this.atEnd() || this.isCloser(tok) || this.isPunct(tok, ',')) {
+			return this.unexpected(tok);
+		}
+		const value = this.parseExpression();
+		this.error('Literal arrays may only contain literals', value.start, value.end);
+		return value;
+	}
+
+	/** `{ |args| var x; statements }`, optionally closed with a leading `#`. */
+	private parseFunction(): FunctionNode {
+		let closed = false;
+		let start = this.peek().start;
+		if (this.at('#')) {
+			closed = true;
+			start = this.next().start;
+		}
+		const open = this.next();
+		const fn: FunctionNode = { type: 'Function', body: [], closed, start, end: open.end };
+		this.closers.push('}');
+		const tok = this.peek();
+		if (tok.type === 'binop' && tok.value[0] === '|') {
+			fn.params = this.parsePipeParams();
+		} else if (tok.type === 'keyword' && tok.value === 'arg') {
+			fn.params = this.parseArgDeclaration();
+		}
+		fn.body = this.parseStatements();
+		this.closers.pop();
+		const close = this.expectClose(open, '}');
+		fn.end = close !== undefined ? close + 1 : this.previousEnd();
+		return fn;
+	}
+
+	// ---- class definitions ---------------------------------------------------------------
+
+	/** `Name[slot] : Superclass { classvar ...; var ...; methods }` */
+	private parseClassDef(): ClassDef {
+		const nameTok = this.next();
+		const def: ClassDef = {
+			type: 'ClassDef',
+			name: { type: 'ClassName', name: nameTok.value, start: nameTok.start, end: nameTok.end },
+			vars: [], methods: [], start: nameTok.start, end: nameTok.end
+		};
+		if (this.at('[')) {
+			// Indexed slot type: Foo[float]
+			this.next();
+			if (this.peek().type === 'name') {
+				this.next();
+			}
+			this.expectPunct(']');
+		}
+		if (this.at(':')) {
+			this.next();
+			const superTok = this.peek();
+			if (superTok.type === 'className') {
+				this.next();
+				def.superclass = { type: 'ClassName', name: superTok.value, start: superTok.start, end: superTok.end };
+			} else {
+				this.error(`Expected a superclass name but found ${this.describe(superTok)}`, superTok.start, superTok.end);
+			}
+		}
+		def.end = this.parseClassBody(def, true);
+		return def;
+	}
+
+	/** `+ Name { methods }` */
+	private parseClassExtension(): ClassExtension {
+		const plus = this.next();
+		const nameTok = this.next();
+		const ext: ClassExtension = {
+			type: 'ClassExtension',
+			name: { type: 'ClassName', name: nameTok.value, start: nameTok.start, end: nameTok.end },
+			methods: [], start: plus.start, end: nameTok.end
+		};
+		ext.end = this.parseClassBody(ext, false);
+		return ext;
+	}
+
+	private parseClassBody(owner: ClassDef | ClassExtension, allowVars: boolean): number {
+		const open = this.expectPunct('{');
+		if (!open) {
+			return this.previousEnd();
+		}
+		this.closers.push('}');
+		while (!this.atEnd()) {
+			const tok = this.peek();
+			if (this.skipStrayCloser(tok)) {
+				continue;
+			}
+			if (tok.type === 'keyword' && tok.value !== 'arg') {
+				const decl = this.parseVarDecl(true);
+				if (owner.type === 'ClassDef' && allowVars) {
+					owner.vars.push(decl);
+				} else {
+					this.error('Class extensions cannot declare variables', decl.start, decl.end);
+				}
+				if (this.at(';')) {
+					this.next();
+				} else {
+					const next = this.peek();
+					this.error(`Expected ';' before ${this.describe(next)}`, next.start, next.end, 'missing-semicolon');
+				}
+				continue;
+			}
+			const method = this.parseMethod();
+			if (method) {
+				owner.methods.push(method);
+			}
+		}
+		this.closers.pop();
+		const close = this.expectClose(open, '}');
+		return close !== undefined ? close + 1 : this.previousEnd();
+	}
+
+	/** `name { }`, `*name { }`, or binary operator methods such as `+ { |that| }`. */
+	private parseMethod(): MethodDef | undefined {
+		const start = this.peek().start;
+		let isClassMethod = false;
+		if (this.isOp(this.peek(), '*') && !this.isPunct(this.peek(1), '{')) {
+			isClassMethod = true;
+			this.next();
+		}
+		const nameTok = this.peek();
+		if (nameTok.type !== 'name' && nameTok.type !== 'binop' && nameTok.type !== 'pseudo') {
+			this.error(`Expected a method definition but found ${this.describe(nameTok)}`, nameTok.start, nameTok.end);
+			this.next();
+			return undefined;
+		}
+		this.next();
+		if (!this.at('{')) {
+			const tok = this.peek();
+			this.error(`Expected '{' to start the body of method '${nameTok.value}' but found ${this.describe(tok)}`, tok.start, tok.end);
+			return undefined;
+		}
+		const outerMethod = this.inMethod;
+		const outerPrimitive = this.primitive;
+		this.inMethod = true;
+		this.primitive = undefined;
+		const body = this.parseFunction();
+		const method: MethodDef = {
+			type: 'Method', name: nameTok.value, nameStart: nameTok.start, nameEnd: nameTok.end,
+			isClassMethod, primitive: this.primitive, body, start, end: body.end
+		};
+		this.inMethod = outerMethod;
+		this.primitive = outerPrimitive;
+		return method;
+	}
+}
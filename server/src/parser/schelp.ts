@@ -0,0 +1,484 @@
+/*---------------------------------------------------------------------------------------------
+ *  Parser for SCDoc help files (.schelp), converting their markup to Markdown.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface HelpArgument {
+	name: string;
+	description: string;
+}
+
+export interface HelpMethod {
+	/** `method:: ar, kr` documents several selectors at once. */
+	names: string[];
+	isClassMethod: boolean;
+	description: string;
+	arguments: HelpArgument[];
+	returns?: string;
+	discussion?: string;
+}
+
+export interface HelpSection {
+	title: string;
+	/** Markdown of the section, subsections included. */
+	body: string;
+	methods: HelpMethod[];
+}
+
+export interface HelpDocument {
+	title: string;
+	/** The documented class, from `class::`. */
+	className?: string;
+	summary: string;
+	/** Related documents, as `Classes/Osc` style keys. */
+	related: string[];
+	categories: string[];
+	/** The document this one defers to, from `redirect::`. */
+	redirect?: string;
+	/** Sections in document order, the class and instance method sections included. */
+	sections: HelpSection[];
+}
+
+export interface SchelpOptions {
+	/** Builds the target of a Markdown link to another help document. */
+	resolveLink?: (key: string, anchor: string | undefined) => string;
+}
+
+// Tags that only have meaning at the start of a line, outside of any block
+const LINE_TAGS = new Set([
+	'title', 'class', 'summary', 'related', 'categories', 'redirect', 'keyword',
+	'description', 'classmethods', 'instancemethods', 'examples', 'section', 'subsection',
+	'method', 'private', 'copymethod', 'argument', 'returns', 'discussion', 'classtree'
+]);
+
+const RAW_TAGS = new Set(['code', 'teletype', 'math', 'link', 'anchor', 'image']);
+const TEXT_TAGS = new Set(['emphasis', 'strong', 'soft', 'strikethrough', 'footnote', 'note', 'warning']);
+const LIST_TAGS = new Set(['list', 'numberedlist', 'definitionlist', 'table', 'tree']);
+
+type ContentMode = 'line' | 'nested' | 'item';
+
+function escapeMarkdown(ch: string): string {
+	return '\\`*_[]<>|'.includes(ch) ? '\\' + ch : ch;
+}
+
+/** Removes the indentation shared by all non-blank lines. */
+function dedent(code: string): string {
+	const lines = code.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n');
+	const indents = lines.filter(line => line.trim()).map(line => /^[ \t]*/.exec(line)![0].length);
+	const indent = indents.length > 0 ? Math.min(...indents) : 0;
+	return lines.map(line => line.substring(indent)).join('\n');
+}
+
+/** Collapses blank line runs and trims, so that fragments join cleanly. */
+function tidy(markdown: string): string {
+	return markdown.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function defaultLinkLabel(key: string, anchor: string | undefined): string {
+	if (!key && anchor) {
+		return anchor;
+	}
+	const name = key.substring(key.lastIndexOf('/') + 1);
+	return anchor ? `${name}: ${anchor}` : name;
+}
+
+class SchelpParser {
+	private pos = 0;
+
+	constructor(private readonly text: string, private readonly options: SchelpOptions) { }
+
+	private atLineStart(): boolean {
+		const before = this.text.substring(this.text.lastIndexOf('\n', this.pos - 1) + 1, this.pos);
+		return before.trim() === '';
+	}
+
+	/** The line tag at the current position, if any. */
+	private peekLineTag(): string | undefined {
+		if (!this.atLineStart()) {
+			return undefined;
+		}
+		const match = /^[ \t]*([a-zA-Z]+)::/.exec(this.text.substring(this.pos, this.pos + 40));
+		return match && LINE_TAGS.has(match[1].toLowerCase()) ? match[1].toLowerCase() : undefined;
+	}
+
+	private readLineTag(): string {
+		const match = /^[ \t]*([a-zA-Z]+)::[ \t]*/.exec(this.text.substring(this.pos))!;
+		this.pos += match[0].length;
+		return match[1].toLowerCase();
+	}
+
+	private readRestOfLine(): string {
+		const end = this.text.indexOf('\n', this.pos);
+		const line = this.text.substring(this.pos, end < 0 ? this.text.length : end);
+		this.pos = end < 0 ? this.text.length : end + 1;
+		return line.trim();
+	}
+
+	/** Reads up to the closing `::`, unescaping `\::`. */
+	private readRaw(): string {
+		let raw = '';
+		while (this.pos < this.text.length) {
+			if (this.text.startsWith('\\::', this.pos)) {
+				raw += '::';
+				this.pos += 3;
+			} else if (this.text.startsWith('::', this.pos)) {
+				this.pos += 2;
+				break;
+			} else {
+				raw += this.text[this.pos++];
+			}
+		}
+		return raw;
+	}
+
+	private inlineCode(code: string): string {
+		const fence = code.includes('`') ? '``' : '`';
+		return `${fence}${code.trim()}${fence}`;
+	}
+
+	private link(raw: string): string {
+		const [key, anchor, label] = raw.trim().split('#');
+		const text = label || defaultLinkLabel(key, anchor || undefined);
+		if (/^\w+:\/\//.test(key)) {
+			return `[${text}](${key})`;
+		}
+		const target = this.options.resolveLink ? this.options.resolveLink(key, anchor || undefined) : key;
+		return `[${text}](${target})`;
+	}
+
+	private rangeTag(tag: string): string {
+		if (RAW_TAGS.has(tag)) {
+			const isBlock = /^[ \t]*\r?\n/.test(this.text.substring(this.pos));
+			const raw = this.readRaw();
+			switch (tag) {
+				case 'code':
+				case 'teletype':
+				case 'math':
+					return isBlock
+						? `\n\n\`\`\`${tag === 'code' ? 'supercollider' : ''}\n${dedent(raw)}\n\`\`\`\n\n`
+						: this.inlineCode(raw);
+				case 'link':
+					return this.link(raw);
+				case 'image': {
+					const [, , label] = raw.trim().split('#');
+					return label ?? '';
+				}
+				default:
+					return '';
+			}
+		}
+		if (LIST_TAGS.has(tag)) {
+			return this.list(tag);
+		}
+		const content = tidy(this.parseContent('nested'));
+		switch (tag) {
+			case 'emphasis':
+				return content && `*${content}*`;
+			case 'strong':
+				return content && `**${content}**`;
+			case 'strikethrough':
+				return content && `~~${content}~~`;
+			case 'footnote':
+				return ` (${content})`;
+			case 'note':
+				return `\n\n> **Note:** ${content.replace(/\n/g, '\n> ')}\n\n`;
+			case 'warning':
+				return `\n\n> **Warning:** ${content.replace(/\n/g, '\n> ')}\n\n`;
+			default:
+				return content;
+		}
+	}
+
+	/** Parses `## item || cell` rows up to the closing `::`. */
+	private listItems(): string[][] {
+		const items: string[][] = [];
+		for (;;) {
+			this.skipWhitespace();
+			if (this.pos >= this.text.length) {
+				break;
+			}
+			if (this.text.startsWith('::', this.pos)) {
+				this.pos += 2;
+				break;
+			}
+			if (this.text.startsWith('##', this.pos)) {
+				this.pos += 2;
+				items.push([]);
+			} else if (this.text.startsWith('||', this.pos)) {
+				this.pos += 2;
+			}
+			if (items.length === 0) {
+				items.push([]);
+			}
+			items[items.length - 1].push(tidy(this.parseContent('item')));
+		}
+		return items;
+	}
+
+	private list(tag: string): string {
+		const items = this.listItems();
+		const indent = (text: string) => text.replace(/\n/g, '\n   ');
+		switch (tag) {
+			case 'numberedlist':
+				return '\n\n' + items.map((cells, i) => `${i + 1}. ${indent(cells.join(' '))}`).join('\n') + '\n\n';
+			case 'definitionlist':
+				return '\n\n' + items.map(([term, ...definition]) => `- **${term}**: ${indent(definition.join(' '))}`).join('\n') + '\n\n';
+			case 'table': {
+				const columns = Math.max(...items.map(cells => cells.length), 1);
+				const row = (cells: string[]) => '| ' + Array.from({ length: columns }, (_, i) => (cells[i] ?? '').replace(/\n+/g, ' ')).join(' | ') + ' |';
+				const [header, ...rows] = items;
+				return '\n\n' + [row(header ?? []), row(Array(columns).fill('---')), ...rows.map(row)].join('\n') + '\n\n';
+			}
+			default:
+				return '\n\n' + items.map(cells => `- ${indent(cells.join(' '))}`).join('\n') + '\n\n';
+		}
+	}
+
+	private skipWhitespace(): void {
+		while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+			this.pos++;
+		}
+	}
+
+	/**
+	 * Converts text to Markdown until the next line tag (`line`), the closing `::` (`nested`, consumed)
+	 * or the next list item marker or closing `::` (`item`, not consumed).
+	 */
+	parseContent(mode: ContentMode): string {
+		let markdown = '';
+		while (this.pos < this.text.length) {
+			if (mode === 'line' && this.peekLineTag()) {
+				break;
+			}
+			const ch = this.text[this.pos];
+			if (ch === '\\' && /^\\(::|##|\|\|)/.test(this.text.substring(this.pos, this.pos + 3))) {
+				markdown += escapeMarkdown(this.text[this.pos + 1]).repeat(2);
+				this.pos += 3;
+				continue;
+			}
+			if (this.text.startsWith('::', this.pos)) {
+				if (mode === 'nested') {
+					this.pos += 2;
+					break;
+				}
+				if (mode === 'item') {
+					break;
+				}
+			}
+			if (mode === 'item' && (this.text.startsWith('##', this.pos) || this.text.startsWith('||', this.pos))) {
+				break;
+			}
+			const tag = /^([a-zA-Z]+)::/.exec(this.text.substring(this.pos, this.pos + 40));
+			if (tag && !/\w/.test(this.text[this.pos - 1] ?? '')) {
+				const name = tag[1].toLowerCase();
+				if (RAW_TAGS.has(name) || TEXT_TAGS.has(name) || LIST_TAGS.has(name)) {
+					this.pos += tag[0].length;
+					markdown += this.rangeTag(name);
+					continue;
+				}
+			}
+			if ((ch === ' ' || ch === '\t') && this.atLineStart()) {
+				// Indented text would read as a Markdown code block
+				this.pos++;
+				continue;
+			}
+			markdown += escapeMarkdown(ch);
+			this.pos++;
+		}
+		return markdown;
+	}
+
+	parseDocument(): HelpDocument {
+		const document: HelpDocument = { title: '', summary: '', related: [], categories: [], sections: [] };
+		let section: HelpSection | undefined;
+		let methods: { isClassMethod: boolean } | undefined;
+		let method: HelpMethod | undefined;
+		let append: (markdown: string) => void = () => undefined;
+
+		const openSection = (title: string) => {
+			section = { title, body: '', methods: [] };
+			document.sections.push(section);
+			method = undefined;
+			append = markdown => section!.body += markdown;
+		};
+		const currentSection = () => {
+			if (!section) {
+				openSection('Description');
+			}
+			return section!;
+		};
+
+		while (this.pos < this.text.length) {
+			const tag = this.peekLineTag();
+			if (!tag) {
+				const markdown = this.parseContent('line');
+				if (markdown.trim()) {
+					if (!section) {
+						currentSection();
+					}
+					append(markdown);
+				}
+				continue;
+			}
+			this.readLineTag();
+			switch (tag) {
+				case 'title':
+					document.title = this.readRestOfLine();
+					break;
+				case 'class':
+					document.className = this.readRestOfLine();
+					document.title ||= document.className;
+					break;
+				case 'summary':
+					document.summary = tidy(new SchelpParser(this.readRestOfLine(), this.options).parseContent('nested'));
+					break;
+				case 'related':
+					document.related = this.readRestOfLine().split(',').map(key => key.trim()).filter(key => key);
+					break;
+				case 'categories':
+					document.categories = this.readRestOfLine().split(',').map(category => category.trim()).filter(category => category);
+					break;
+				case 'redirect':
+					document.redirect = this.readRestOfLine();
+					break;
+				case 'keyword':
+				case 'private':
+				case 'copymethod':
+				case 'classtree':
+					this.readRestOfLine();
+					break;
+				case 'description':
+					openSection('Description');
+					methods = undefined;
+					break;
+				case 'examples':
+					openSection('Examples');
+					methods = undefined;
+					break;
+				case 'classmethods':
+				case 'instancemethods':
+					openSection(tag === 'classmethods' ? 'Class Methods' : 'Instance Methods');
+					methods = { isClassMethod: tag === 'classmethods' };
+					break;
+				case 'section':
+					openSection(tidy(new SchelpParser(this.readRestOfLine(), this.options).parseContent('nested')));
+					methods = undefined;
+					break;
+				case 'subsection': {
+					const title = this.readRestOfLine();
+					const target = currentSection();
+					method = undefined;
+					append = markdown => target.body += markdown;
+					append(`\n\n### ${title}\n\n`);
+					break;
+				}
+				case 'method': {
+					const target = currentSection();
+					const current: HelpMethod = {
+						names: this.readRestOfLine().split(',').map(name => name.trim().replace(/\(.*$/, '')).filter(name => name),
+						isClassMethod: methods?.isClassMethod ?? false,
+						description: '',
+						arguments: []
+					};
+					target.methods.push(current);
+					method = current;
+					append = markdown => current.description += markdown;
+					break;
+				}
+				case 'argument': {
+					const argument: HelpArgument = { name: this.readRestOfLine(), description: '' };
+					if (method) {
+						method.arguments.push(argument);
+					}
+					append = markdown => argument.description += markdown;
+					break;
+				}
+				case 'returns':
+				case 'discussion': {
+					const current = method;
+					if (current) {
+						current[tag] = '';
+						append = markdown => current[tag] += markdown;
+					}
+					break;
+				}
+			}
+		}
+
+		for (const each of document.sections) {
+			each.body = tidy(each.body);
+			for (const entry of each.methods) {
+				entry.description = tidy(entry.description);
+				entry.arguments.forEach(argument => argument.description = tidy(argument.description));
+				entry.returns = entry.returns !== undefined ? tidy(entry.returns) : undefined;
+				entry.discussion = entry.discussion !== undefined ? tidy(entry.discussion) : undefined;
+			}
+		}
+		return document;
+	}
+}
+
+export function parseSchelp(text: string, options: SchelpOptions = {}): HelpDocument {
+	return new SchelpParser(text.replace(/\r\n?/g, '\n'), options).parseDocument();
+}
+
+/** The documentation of `selector`, looked up on the class or instance side. */
+export function findHelpMethod(document: HelpDocument, selector: string, isClassMethod: boolean): HelpMethod | undefined {
+	for (const section of document.sections) {
+		const method = section.methods.find(each => each.isClassMethod === isClassMethod && each.names.includes(selector));
+		if (method) {
+			return method;
+		}
+	}
+	return undefined;
+}
+
+export function methodToMarkdown(method: HelpMethod): string {
+	const parts: string[] = [];
+	if (method.description) {
+		parts.push(method.description);
+	}
+	if (method.arguments.length > 0) {
+		parts.push('**Arguments:**\n' + method.arguments
+			.map(argument => `- \`${argument.name}\`${argument.description ? ' - ' + argument.description.replace(/\n/g, '\n  ') : ''}`)
+			.join('\n'));
+	}
+	if (method.returns) {
+		parts.push(`**Returns:** ${method.returns}`);
+	}
+	if (method.discussion) {
+		parts.push(method.discussion);
+	}
+	return parts.join('\n\n');
+}
+
+/** Renders a whole help document as one Markdown page. */
+export function helpToMarkdown(document: HelpDocument, options: SchelpOptions = {}): string {
+	const parts = [`# ${document.title}`];
+	if (document.summary) {
+		parts.push(`*${document.summary}*`);
+	}
+	if (document.categories.length > 0) {
+		parts.push(`**Categories:** ${document.categories.join(', ')}`);
+	}
+	if (document.related.length > 0) {
+		parts.push('**See also:** ' + document.related.map(key => {
+			const target = options.resolveLink ? options.resolveLink(key, undefined) : key;
+			return `[${defaultLinkLabel(key, undefined)}](${target})`;
+		}).join(', '));
+	}
+	for (const section of document.sections) {
+		parts.push(`## ${section.title}`);
+		if (section.body) {
+			parts.push(section.body);
+		}
+		for (const method of section.methods) {
+			const prefix = method.isClassMethod ? '\\*' : '.';
+			parts.push(`### ${method.names.map(name => prefix + name).join(', ')}`);
+			const body = methodToMarkdown(method);
+			if (body) {
+				parts.push(body);
+			}
+		}
+	}
+	return parts.join('\n\n') + '\n';
+}
@@ -0,0 +1,199 @@
+/*---------------------------------------------------------------------------------------------
+ *  Variable scopes of a parsed SuperCollider document and the bindings of each identifier.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	Block,
+	ClassDef,
+	ClassExtension,
+	FunctionNode,
+	getChildren,
+	Identifier,
+	MethodDef,
+	Node,
+	Param,
+	Program,
+	Statement,
+	VarDeclarator
+} from './ast';
+
+export type DeclarationKind = 'var' | 'arg' | 'classvar' | 'instvar' | 'const';
+
+export interface Declaration {
+	name: string;
+	kind: DeclarationKind;
+	/** The declaring identifier. */
+	identifier: Identifier;
+	node: VarDeclarator | Param;
+	scope: Scope;
+	references: Identifier[];
+}
+
+export interface Scope {
+	node: Program | FunctionNode | Block | ClassDef | ClassExtension | MethodDef;
+	parent?: Scope;
+	children: Scope[];
+	declarations: Map<string, Declaration>;
+}
+
+export interface ScopeAnalysis {
+	root: Scope;
+	declarations: Declaration[];
+	/** The declaration each identifier resolves to, declaring identifiers included. */
+	bindings: Map<Identifier, Declaration>;
+	/** Identifiers that resolve to no declaration, such as interpreter variables `a`-`z`. */
+	unresolved: Identifier[];
+}
+
+/** Single letter variables predefined by the interpreter. */
+export function isInterpreterVariable(name: string): boolean {
+	return /^[a-z]$/.test(name);
+}
+
+export function analyzeScopes(program: Program): ScopeAnalysis {
+	const root: Scope = { node: program, children: [], declarations: new Map() };
+	const analysis: ScopeAnalysis = { root, declarations: [], bindings: new Map(), unresolved: [] };
+
+	const declare = (scope: Scope, node: VarDeclarator | Param, kind: DeclarationKind) => {
+		const declaration: Declaration = {
+			name: node.name.name, kind, identifier: node.name, node, scope, references: []
+		};
+		scope.declarations.set(declaration.name, declaration);
+		analysis.declarations.push(declaration);
+		analysis.bindings.set(node.name, declaration);
+	};
+
+	const newScope = (node: Scope['node'], parent: Scope): Scope => {
+		const scope: Scope = { node, parent, children: [], declarations: new Map() };
+		parent.children.push(scope);
+		return scope;
+	};
+
+	// Variable declarations are visible throughout their function, so declare them up front.
+	const hoist = (scope: Scope, body: Statement[]) => {
+		for (const statement of body) {
+			if (statement.type === 'VarDecl') {
+				for (const declarator of statement.declarators) {
+					declare(scope, declarator, 'var');
+				}
+			}
+		}
+	};
+
+	const resolve = (identifier: Identifier, scope: Scope) => {
+		const declaration = lookup(scope, identifier.name);
+		if (declaration) {
+			declaration.references.push(identifier);
+			analysis.bindings.set(identifier, declaration);
+		} else {
+			analysis.unresolved.push(identifier);
+		}
+	};
+
+	const visit = (node: Node, scope: Scope): void => {
+		switch (node.type) {
+			case 'Function': {
+				const fnScope = newScope(node, scope);
+				if (node.params) {
+					for (const param of [...node.params.params, ...(node.params.rest ? [node.params.rest] : [])]) {
+						declare(fnScope, param, 'arg');
+					}
+				}
+				hoist(fnScope, node.body);
+				for (const child of getChildren(node)) {
+					visit(child, fnScope);
+				}
+				return;
+			}
+			case 'Block': {
+				const blockScope = newScope(node, scope);
+				hoist(blockScope, node.body);
+				node.body.forEach(child => visit(child, blockScope));
+				return;
+			}
+			case 'ClassDef': {
+				const classScope = newScope(node, scope);
+				for (const decl of node.vars) {
+					const kind: DeclarationKind = decl.kind === 'var' ? 'instvar' : decl.kind;
+					decl.declarators.forEach(declarator => declare(classScope, declarator, kind));
+				}
+				node.vars.forEach(decl => visit(decl, classScope));
+				node.methods.forEach(method => visit(method, classScope));
+				return;
+			}
+			case 'ClassExtension': {
+				const extensionScope = newScope(node, scope);
+				node.methods.forEach(method => visit(method, extensionScope));
+				return;
+			}
+			case 'Method':
+				visit(node.body, newScope(node, scope));
+				return;
+			case 'VarDeclarator':
+				if (node.init) {
+					visit(node.init, scope);
+				}
+				return;
+			case 'Param':
+				if (node.defaultValue) {
+					visit(node.defaultValue, scope);
+				}
+				return;
+			case 'KeywordArg':
+				visit(node.value, scope);
+				return;
+			case 'Identifier':
+				resolve(node, scope);
+				return;
+		}
+		for (const child of getChildren(node)) {
+			visit(child, scope);
+		}
+	};
+
+	hoist(root, program.body.filter((statement): statement is Statement => statement.type !== 'ClassDef' && statement.type !== 'ClassExtension'));
+	program.body.forEach(statement => visit(statement, root));
+	return analysis;
+}
+
+/** Finds the declaration a name refers to from `scope`, honoring closed `#{ }` functions. */
+export function lookup(scope: Scope, name: string): Declaration | undefined {
+	for (let current: Scope | undefined = scope; current; current = current.parent) {
+		const declaration = current.declarations.get(name);
+		if (declaration) {
+			return declaration;
+		}
+		if (current.node.type === 'Function' && current.node.closed) {
+			break;
+		}
+	}
+	return undefined;
+}
+
+/** Returns the innermost scope containing `offset`. */
+export function getScopeAt(analysis: ScopeAnalysis, offset: number): Scope {
+	let scope = analysis.root;
+	for (;;) {
+		const child = scope.children.find(c => c.node.start < offset && offset <= c.node.end);
+		if (!child) {
+			return scope;
+		}
+		scope = child;
+	}
+}
+
+/** Declarations visible from `scope`, inner declarations shadowing outer ones. */
+export function getVisibleDeclarations(scope: Scope): Declaration[] {
+	const visible = new Map<string, Declaration>();
+	for (let current: Scope | undefined = scope; current; current = current.parent) {
+		for (const [name, declaration] of current.declarations) {
+			if (!visible.has(name)) {
+				visible.set(name, declaration);
+			}
+		}
+		if (current.node.type === 'Function' && current.node.closed) {
+			break;
+		}
+	}
+	return [...visible.values()];
+}
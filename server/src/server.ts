@@ -4,17 +4,44 @@
  * ------------------------------------------------------------------------------------------ */
 
 import {
+	CodeAction,
+	CodeActionKind,
 	CompletionList,
 	createConnection,
 	Diagnostic,
+	DocumentSymbol,
+	FileChangeType,
+	FoldingRange,
 	Hover,
 	InitializeParams,
+	InlayHint,
 	ProposedFeatures,
+	SelectionRange,
+	SemanticTokensBuilder,
+	TextDocumentPositionParams,
 	TextDocuments,
-	TextDocumentSyncKind
-} from 'vscode-languageserver';
+	TextDocumentSyncKind,
+	TextEdit
+} from 'vscode-languageserver/node';
 import { getLanguageModes, LanguageModes } from './languageModes';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+	ClassLibrarySettings,
+	defaultClassLibrarySettings,
+	defaultHelpSettings,
+	getClassLibraryFiles,
+	getHelpFiles,
+	getWorkspaceFiles,
+	indexFile,
+	syncIndex
+} from './classLibrary';
+import { createClassIndex } from './data/classIndex';
+import { createHelpIndex } from './data/helpIndex';
+import { createWorkspaceIndex } from './data/workspaceIndex';
+import { defaultFormatSettings, FormatSettings } from './services/format';
+import { getHelpPage, helpCommandLink } from './services/help';
+import { defaultLintSettings, LintSettings } from './services/lint';
+import { semanticTokensLegend } from './services/semanticTokens';
 
 // Create a connection for the server. The connection uses Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -26,12 +53,50 @@ const documents = new TextDocuments(TextDocument);
 
 let languageModes: LanguageModes;
 
-connection.onInitialize((_params: InitializeParams) => {
+// Classes of the SuperCollider class library, installed extensions and workspace .sc files
+const classIndex = createClassIndex();
+// Help files of the same, with links that open the help browser
+const helpIndex = createHelpIndex({ resolveLink: helpCommandLink });
+// Names used by the code files of the workspace folders and open documents
+const workspaceIndex = createWorkspaceIndex();
+let classLibrarySettings: ClassLibrarySettings = defaultClassLibrarySettings;
+let workspaceFolders: string[] = [];
+let classIndexUpdate: Promise<void> = Promise.resolve();
+// Lint severities of each open document, dropped when the configuration changes
+const lintSettings = new Map<string, Promise<LintSettings>>();
+// Semantic tokens last sent for each open document, to send the changes to them
+const semanticTokenBuilders = new Map<string, SemanticTokensBuilder>();
+
+function isClassFile(uri: string): boolean {
+	return uri.endsWith('.sc');
+}
+
+function isCodeFile(uri: string): boolean {
+	return uri.endsWith('.sc') || uri.endsWith('.scd');
+}
+
+function isWorkspaceFile(uri: string): boolean {
+	return workspaceFolders.some(folder => uri.startsWith(folder.endsWith('/') ? folder : folder + '/'));
+}
+
+connection.onInitialize((params: InitializeParams) => {
 	connection.console.log('SuperCollider Language Server initializing...');
-	languageModes = getLanguageModes();
+	languageModes = getLanguageModes({ classIndex, helpIndex, workspaceIndex });
+	workspaceFolders = params.workspaceFolders?.map(folder => folder.uri) ?? (params.rootUri ? [params.rootUri] : []);
 
 	documents.onDidClose(e => {
 		languageModes.onDocumentRemoved(e.document);
+		lintSettings.delete(e.document.uri);
+		semanticTokenBuilders.delete(e.document.uri);
+		// Unsaved edits are gone, go back to the file on disk
+		if (isClassFile(e.document.uri) && classIndex.hasFile(e.document.uri)) {
+			indexFile(classIndex, e.document.uri);
+		}
+		if (isWorkspaceFile(e.document.uri) && isCodeFile(e.document.uri)) {
+			indexFile(workspaceIndex, e.document.uri);
+		} else {
+			workspaceIndex.removeFile(e.document.uri);
+		}
 	});
 	connection.onShutdown(() => {
 		languageModes.dispose();
@@ -43,37 +108,139 @@ connection.onInitialize((_params: InitializeParams) => {
 			textDocumentSync: TextDocumentSyncKind.Full,
 			// Tell the client that the server supports code completion
 			completionProvider: {
-				resolveProvider: false
+				resolveProvider: false,
+				triggerCharacters: ['.', '~', '\\']
 			},
 			// Tell the client that the server supports hover
-			hoverProvider: true
+			hoverProvider: true,
+			signatureHelpProvider: {
+				triggerCharacters: ['(', ','],
+				retriggerCharacters: [':']
+			},
+			inlayHintProvider: true,
+			documentSymbolProvider: true,
+			definitionProvider: true,
+			referencesProvider: true,
+			renameProvider: {
+				prepareProvider: true
+			},
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			foldingRangeProvider: true,
+			selectionRangeProvider: true,
+			codeActionProvider: {
+				codeActionKinds: [CodeActionKind.QuickFix, CodeActionKind.RefactorRewrite, CodeActionKind.RefactorExtract]
+			},
+			semanticTokensProvider: {
+				legend: semanticTokensLegend,
+				full: {
+					delta: true
+				}
+			}
 		}
 	};
 });
 
+connection.onInitialized(() => {
+	scheduleClassIndexUpdate();
+});
+
 connection.onDidChangeConfiguration(_change => {
 	// Revalidate all open text documents
+	lintSettings.clear();
 	documents.all().forEach(validateTextDocument);
+	scheduleClassIndexUpdate();
+});
+
+/** Rescans the class library directories, one scan at a time. */
+function scheduleClassIndexUpdate() {
+	classIndexUpdate = classIndexUpdate.then(updateClassIndex);
+}
+
+async function updateClassIndex() {
+	try {
+		const settings = await connection.workspace.getConfiguration('supercollider');
+		classLibrarySettings = { ...defaultClassLibrarySettings, ...settings?.classLibrary };
+		const files = await getClassLibraryFiles(classLibrarySettings, workspaceFolders);
+		await syncIndex(classIndex, files);
+		const workspaceFiles = await getWorkspaceFiles(workspaceFolders);
+		await syncIndex(workspaceIndex, [...workspaceFiles, ...documents.all().map(document => document.uri)]);
+		// Open editors are more recent than the files on disk
+		for (const document of documents.all()) {
+			if (classIndex.hasFile(document.uri)) {
+				classIndex.updateFile(document.uri, document.getText());
+			}
+			workspaceIndex.updateFile(document.uri, document.getText());
+		}
+		connection.console.log(`Indexed ${classIndex.getClassNames().length} classes from ${files.length} class files`);
+		connection.console.log(`Indexed ${workspaceFiles.length} workspace files`);
+		// Unknown class and SynthDef lints and semantic tokens depend on the indexes
+		documents.all().forEach(validateTextDocument);
+		connection.languages.semanticTokens.refresh();
+
+		const helpFiles = await getHelpFiles({ ...defaultHelpSettings, ...settings?.help }, classLibrarySettings);
+		helpIndex.setFiles(helpFiles);
+		connection.console.log(`Indexed ${helpFiles.size} help files`);
+	} catch (e) {
+		connection.console.error('Error while indexing the class library');
+		connection.console.error(String(e));
+	}
+}
+
+connection.onDidChangeWatchedFiles(params => {
+	for (const change of params.changes) {
+		if (!isCodeFile(change.uri) || documents.get(change.uri)) {
+			continue;
+		}
+		if (change.type === FileChangeType.Deleted) {
+			classIndex.removeFile(change.uri);
+			workspaceIndex.removeFile(change.uri);
+			continue;
+		}
+		if (isClassFile(change.uri) && (classIndex.hasFile(change.uri) || classLibrarySettings.indexWorkspace)) {
+			indexFile(classIndex, change.uri);
+		}
+		if (isWorkspaceFile(change.uri)) {
+			indexFile(workspaceIndex, change.uri);
+		}
+	}
 });
 
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
 documents.onDidChangeContent(change => {
+	if (isClassFile(change.document.uri) && classIndex.hasFile(change.document.uri)) {
+		classIndex.updateFile(change.document.uri, change.document.getText());
+	}
+	if (change.document.languageId === 'supercollider') {
+		workspaceIndex.updateFile(change.document.uri, change.document.getText());
+	}
 	validateTextDocument(change.document);
 });
 
+function getLintSettings(uri: string): Promise<LintSettings> {
+	let settings = lintSettings.get(uri);
+	if (!settings) {
+		settings = connection.workspace.getConfiguration({ scopeUri: uri, section: 'supercollider.lint' })
+			.then(lint => ({ ...defaultLintSettings, ...lint }));
+		lintSettings.set(uri, settings);
+	}
+	return settings;
+}
+
 async function validateTextDocument(textDocument: TextDocument) {
 	try {
 		const version = textDocument.version;
 		const diagnostics: Diagnostic[] = [];
 		if (textDocument.languageId === 'supercollider') {
 			const modes = languageModes.getAllModesInDocument(textDocument);
+			const settings = await getLintSettings(textDocument.uri);
 			const latestTextDocument = documents.get(textDocument.uri);
 			if (latestTextDocument && latestTextDocument.version === version) {
 				// check no new version has come in after in after the async op
 				modes.forEach(mode => {
 					if (mode.doValidation) {
-						mode.doValidation(latestTextDocument).forEach(d => {
+						mode.doValidation(latestTextDocument, settings).forEach(d => {
 							diagnostics.push(d);
 						});
 					}
@@ -122,6 +289,247 @@ connection.onHover(async (textDocumentPosition, _token) => {
 	return result;
 });
 
+connection.onSignatureHelp(async (textDocumentPosition, _token) => {
+	const document = documents.get(textDocumentPosition.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const mode = languageModes.getModeAtPosition(document, textDocumentPosition.position);
+	if (!mode || !mode.doSignatureHelp) {
+		return null;
+	}
+	return mode.doSignatureHelp(document, textDocumentPosition.position);
+});
+
+connection.languages.inlayHint.on(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const hints: InlayHint[] = [];
+	for (const mode of languageModes.getAllModesInDocument(document)) {
+		if (mode.getInlayHints) {
+			hints.push(...mode.getInlayHints(document, params.range));
+		}
+	}
+	return hints;
+});
+
+connection.onDocumentSymbol(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const symbols: DocumentSymbol[] = [];
+	for (const mode of languageModes.getAllModesInDocument(document)) {
+		if (mode.findDocumentSymbols) {
+			symbols.push(...mode.findDocumentSymbols(document));
+		}
+	}
+	return symbols;
+});
+
+connection.onDefinition(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const mode = languageModes.getModeAtPosition(document, params.position);
+	if (!mode || !mode.findDefinition) {
+		return null;
+	}
+	await classIndexUpdate;
+	return mode.findDefinition(document, params.position);
+});
+
+connection.onReferences(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const mode = languageModes.getModeAtPosition(document, params.position);
+	if (!mode || !mode.findReferences) {
+		return null;
+	}
+	await classIndexUpdate;
+	return mode.findReferences(document, params.position, params.context.includeDeclaration);
+});
+
+connection.onPrepareRename(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const mode = languageModes.getModeAtPosition(document, params.position);
+	if (!mode || !mode.prepareRename) {
+		return null;
+	}
+	await classIndexUpdate;
+	return mode.prepareRename(document, params.position);
+});
+
+connection.onRenameRequest(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const mode = languageModes.getModeAtPosition(document, params.position);
+	if (!mode || !mode.doRename) {
+		return null;
+	}
+	await classIndexUpdate;
+	return mode.doRename(document, params.position, params.newName);
+});
+
+async function getFormatSettings(uri: string): Promise<FormatSettings> {
+	const settings = await connection.workspace.getConfiguration({ scopeUri: uri, section: 'supercollider.format' });
+	return { ...defaultFormatSettings, ...settings };
+}
+
+connection.onDocumentFormatting(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const settings = await getFormatSettings(document.uri);
+	const edits: TextEdit[] = [];
+	for (const mode of languageModes.getAllModesInDocument(document)) {
+		if (mode.format) {
+			edits.push(...mode.format(document, undefined, params.options, settings));
+		}
+	}
+	return edits;
+});
+
+connection.onDocumentRangeFormatting(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const settings = await getFormatSettings(document.uri);
+	const edits: TextEdit[] = [];
+	for (const mode of languageModes.getModesInRange(document, params.range).map(range => range.mode)) {
+		if (mode?.format) {
+			edits.push(...mode.format(document, params.range, params.options, settings));
+		}
+	}
+	return edits;
+});
+
+connection.onFoldingRanges(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const ranges: FoldingRange[] = [];
+	for (const mode of languageModes.getAllModesInDocument(document)) {
+		if (mode.getFoldingRanges) {
+			ranges.push(...mode.getFoldingRanges(document));
+		}
+	}
+	return ranges;
+});
+
+connection.onSelectionRanges(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const ranges: SelectionRange[] = [];
+	for (const mode of languageModes.getAllModesInDocument(document)) {
+		if (mode.getSelectionRanges) {
+			ranges.push(...mode.getSelectionRanges(document, params.positions));
+		}
+	}
+	return ranges;
+});
+
+connection.onCodeAction(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	await classIndexUpdate;
+	const actions: CodeAction[] = [];
+	for (const mode of languageModes.getModesInRange(document, params.range).map(range => range.mode)) {
+		if (mode?.getCodeActions) {
+			actions.push(...mode.getCodeActions(document, params.range, params.context));
+		}
+	}
+	return actions;
+});
+
+function buildSemanticTokens(document: TextDocument, builder: SemanticTokensBuilder): void {
+	for (const mode of languageModes.getAllModesInDocument(document)) {
+		for (const token of mode.getSemanticTokens?.(document) ?? []) {
+			builder.push(token.line, token.character, token.length, token.tokenType, token.tokenModifiers);
+		}
+	}
+}
+
+connection.languages.semanticTokens.on(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return { data: [] };
+	}
+
+	const builder = new SemanticTokensBuilder();
+	semanticTokenBuilders.set(document.uri, builder);
+	buildSemanticTokens(document, builder);
+	return builder.build();
+});
+
+connection.languages.semanticTokens.onDelta(async (params, _token) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return { edits: [] };
+	}
+
+	let builder = semanticTokenBuilders.get(document.uri);
+	if (builder) {
+		builder.previousResult(params.previousResultId);
+	} else {
+		builder = new SemanticTokensBuilder();
+		semanticTokenBuilders.set(document.uri, builder);
+	}
+	buildSemanticTokens(document, builder);
+	return builder.buildEdits();
+});
+
+connection.onRequest('supercollider/helpTopic', async (params: TextDocumentPositionParams) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+	const mode = languageModes.getModeAtPosition(document, params.position);
+	if (!mode || !mode.getHelpTopic) {
+		return null;
+	}
+	return mode.getHelpTopic(document, params.position);
+});
+
+connection.onRequest('supercollider/helpPage', async (params: { topic: string }) => {
+	await classIndexUpdate;
+	return getHelpPage(helpIndex, params.topic);
+});
+
+connection.onRequest('supercollider/helpSearch', async (params: { query: string }) => {
+	await classIndexUpdate;
+	return helpIndex.search(params.query);
+});
+
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
@@ -0,0 +1,353 @@
+/*---------------------------------------------------------------------------------------------
+ *  Code actions: quick fixes for the diagnostics of the parser and the lints, and refactorings
+ *  of regions, argument lists, environment variables and keyword arguments.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CodeAction, CodeActionContext, CodeActionKind, Diagnostic, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SC_CLASSES } from '../data/builtins';
+import { ClassIndex } from '../data/classIndex';
+import { SignatureDatabase } from '../data/signatures';
+import { Call, Node, ParamList, Statement, VarDecl, walk } from '../parser/ast';
+import { ParseResult } from '../parser/parser';
+import { getScopeAt, Scope, ScopeAnalysis } from '../parser/scope';
+import { canUsePipes } from './format';
+import { getCallParameters, getParameterIndex } from './signatureHelp';
+
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/** Nodes that are not expressions, or are only parts of one. */
+const NOT_EXPRESSIONS = new Set<Node['type']>([
+	'Program', 'ClassDef', 'ClassExtension', 'Method', 'VarDecl', 'VarDeclarator', 'ParamList', 'Param', 'KeywordArg', 'Return', 'Error'
+]);
+
+interface Body {
+	node: Node;
+	statements: Statement[];
+}
+
+function action(document: TextDocument, title: string, kind: CodeActionKind, edits: TextEdit[], diagnostic?: Diagnostic): CodeAction {
+	return {
+		title,
+		kind,
+		diagnostics: diagnostic ? [diagnostic] : undefined,
+		edit: { changes: { [document.uri]: edits } }
+	};
+}
+
+function toRange(document: TextDocument, start: number, end: number): Range {
+	return { start: document.positionAt(start), end: document.positionAt(end) };
+}
+
+function insert(document: TextDocument, offset: number, text: string): TextEdit {
+	return TextEdit.insert(document.positionAt(offset), text);
+}
+
+/** The statement lists of functions, blocks and the program. */
+function getBodies(parsed: ParseResult): Body[] {
+	const bodies: Body[] = [{ node: parsed.program, statements: parsed.program.body.filter((node): node is Statement => node.type !== 'ClassDef' && node.type !== 'ClassExtension') }];
+	walk(parsed.program, node => {
+		if (node.type === 'Function' || node.type === 'Block') {
+			bodies.push({ node, statements: node.body });
+		}
+	});
+	return bodies;
+}
+
+/** Text to insert before `statement` so that new code sits on its own line with the same indentation. */
+function getLineBreak(document: TextDocument, parsed: ParseResult, statement: Statement): string {
+	const text = document.getText();
+	const lineStart = text.lastIndexOf('\n', statement.start - 1) + 1;
+	const indentation = text.substring(lineStart, statement.start);
+	return indentation.trim() || !parsed.tokens.some(token => token.start === statement.start && token.lineStart) ? ' ' : '\n' + indentation;
+}
+
+/** Inserts `names` into the leading `var` line of a body, or into a new one before its first statement. */
+function declare(document: TextDocument, parsed: ParseResult, body: Body, names: string[]): TextEdit | undefined {
+	const firstStatement = body.statements.findIndex(statement => statement.type !== 'VarDecl');
+	const leading = firstStatement < 0 ? body.statements : body.statements.slice(0, firstStatement);
+	const declaration = leading.filter((statement): statement is VarDecl => statement.type === 'VarDecl' && statement.kind === 'var').pop();
+	if (declaration) {
+		return insert(document, declaration.end, names.map(name => `, ${name}`).join(''));
+	}
+	const first = body.statements[0];
+	return first && insert(document, first.start, `var ${names.join(', ')};${getLineBreak(document, parsed, first)}`);
+}
+
+// Quick fixes
+
+/**
+ * Declares an undeclared variable in the nearest `var` line of the functions and region around it,
+ * or in a new one in its function.
+ */
+function declareVariable(document: TextDocument, parsed: ParseResult, scopes: ScopeAnalysis, diagnostic: Diagnostic): CodeAction | undefined {
+	const name = document.getText(diagnostic.range);
+	const bodies = getBodies(parsed);
+	const candidates: Body[] = [];
+	for (let scope: Scope | undefined = getScopeAt(scopes, document.offsetAt(diagnostic.range.start)); scope; scope = scope.parent) {
+		const node = scope.node;
+		const body = bodies.find(body => body.node === node);
+		if (body) {
+			candidates.push(body);
+		}
+		// Code outside a region is not evaluated with it
+		if (node.type === 'Function' && node.closed || node.type === 'Block' && scope.parent?.node.type === 'Program') {
+			break;
+		}
+	}
+	const withVar = candidates.find(body => body.statements.some(statement => statement.type === 'VarDecl' && statement.kind === 'var'));
+	const body = withVar ?? candidates[0];
+	const edit = body && declare(document, parsed, body, [name]);
+	return edit && { ...action(document, `Declare '${name}'`, CodeActionKind.QuickFix, [edit], diagnostic), isPreferred: true };
+}
+
+/**
+ * Moves a `var` declaration after other statements up to the declarations of its function.
+ * Initial values stay where they were as assignments, so that they are evaluated in the same order.
+ */
+function moveDeclaration(document: TextDocument, parsed: ParseResult, diagnostic: Diagnostic): CodeAction | undefined {
+	const offset = document.offsetAt(diagnostic.range.start);
+	const body = getBodies(parsed).find(body => body.statements.some(statement => statement.type === 'VarDecl' && statement.start === offset));
+	const declaration = body?.statements.find((statement): statement is VarDecl => statement.type === 'VarDecl' && statement.start === offset);
+	if (!body || !declaration) {
+		return undefined;
+	}
+	const text = document.getText();
+	const names = declaration.declarators.map(declarator => declarator.name.name);
+	const assignments = declaration.declarators
+		.filter(declarator => declarator.init)
+		.map(declarator => `${declarator.name.name} = ${text.substring(declarator.init!.start, declarator.init!.end)}`);
+	let removal: TextEdit;
+	if (assignments.length > 0) {
+		removal = TextEdit.replace(toRange(document, declaration.start, declaration.end), assignments.join('; '));
+	} else {
+		// The whole line goes when the declaration is alone on it
+		const semicolon = parsed.tokens.find(token => token.start >= declaration.end);
+		let start = declaration.start;
+		let end = semicolon?.value === ';' ? semicolon.end : declaration.end;
+		const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+		const lineEnd = text.indexOf('\n', end);
+		if (!text.substring(lineStart, start).trim() && !text.substring(end, lineEnd < 0 ? text.length : lineEnd).trim()) {
+			start = lineStart;
+			end = lineEnd < 0 ? text.length : lineEnd + 1;
+		}
+		removal = TextEdit.del(toRange(document, start, end));
+	}
+	const addition = declare(document, parsed, { node: body.node, statements: body.statements.filter(statement => statement !== declaration) }, names);
+	return addition && { ...action(document, 'Move declaration to the top of the function', CodeActionKind.QuickFix, [addition, removal], diagnostic), isPreferred: true };
+}
+
+/** Inserts the missing `;` right after the code before the reported token. */
+function insertSemicolon(document: TextDocument, parsed: ParseResult, diagnostic: Diagnostic): CodeAction | undefined {
+	const offset = document.offsetAt(diagnostic.range.start);
+	const previous = parsed.tokens.filter(token => token.end <= offset && token.type !== 'eof').pop();
+	return previous && { ...action(document, 'Insert \';\'', CodeActionKind.QuickFix, [insert(document, previous.end, ';')], diagnostic), isPreferred: true };
+}
+
+/**
+ * Closes a bracket right after the code before the token it was expected before, or at the end.
+ * An array ends before a `;`, which cannot be one of its elements, and a region on a line of its own.
+ */
+function closeBracket(document: TextDocument, parsed: ParseResult, diagnostic: Diagnostic): CodeAction | undefined {
+	const closer = CLOSERS[document.getText(diagnostic.range)];
+	const open = parsed.tokens.find(token => token.start === document.offsetAt(diagnostic.range.start));
+	const related = diagnostic.relatedInformation?.[0]?.location.range.start;
+	const offset = related ? document.offsetAt(related) : document.getText().length;
+	const before = parsed.tokens.filter(token => token.start > open!.start && token.end <= offset && token.type !== 'eof');
+	if (closer === ']' && before[before.length - 1]?.value === ';') {
+		before.pop();
+	}
+	const previous = before.pop();
+	if (!closer || !open || !previous) {
+		return undefined;
+	}
+	const region = closer === ')' && open.lineStart && !related;
+	return { ...action(document, `Insert '${closer}'`, CodeActionKind.QuickFix, [insert(document, previous.end, region ? `\n${closer}` : closer)], diagnostic), isPreferred: true };
+}
+
+/** Edit distance between two names, or `max + 1` once it is known to be more than `max`. */
+function getDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) {
+		return max + 1;
+	}
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		if (Math.min(...current) > max) {
+			return max + 1;
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/** Offers the known classes closest to a misspelled class name. */
+function fixClassName(document: TextDocument, classIndex: ClassIndex, diagnostic: Diagnostic): CodeAction[] {
+	const name = document.getText(diagnostic.range);
+	const max = Math.max(1, Math.floor(name.length / 3));
+	return [...new Set([...SC_CLASSES, ...classIndex.getClassNames()])]
+		.map(candidate => ({ candidate, distance: getDistance(name, candidate, max) }))
+		.filter(({ distance }) => distance <= max)
+		.sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+		.slice(0, 3)
+		.map(({ candidate }, index) => ({
+			...action(document, `Change to '${candidate}'`, CodeActionKind.QuickFix, [TextEdit.replace(diagnostic.range, candidate)], diagnostic),
+			isPreferred: index === 0
+		}));
+}
+
+// Refactorings
+
+/** Wraps the lines of the selection in a region evaluated as a whole, when they hold whole top-level statements. */
+function wrapInRegion(document: TextDocument, parsed: ParseResult, range: Range): CodeAction | undefined {
+	const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+	const lines = { start: { line: range.start.line, character: 0 }, end: document.positionAt(document.offsetAt({ line: endLine + 1, character: 0 })) };
+	const start = document.offsetAt(lines.start);
+	const end = document.offsetAt(lines.end);
+	const text = document.getText(lines);
+	const cut = parsed.program.body.some(statement => statement.start < end && statement.end > start && (statement.start < start || statement.end > end));
+	if (!text.trim() || cut) {
+		return undefined;
+	}
+	const newline = text.endsWith('\n') ? '' : '\n';
+	return action(document, 'Wrap in region ( )', CodeActionKind.RefactorRewrite, [TextEdit.replace(lines, `(\n${text}${newline})${newline ? '' : '\n'}`)]);
+}
+
+/** Converts `arg a, b;` to `|a, b|` and back. */
+function convertParamList(document: TextDocument, parsed: ParseResult, list: ParamList): CodeAction | undefined {
+	const params = [...list.params, ...(list.rest ? [list.rest] : [])];
+	if (params.length === 0) {
+		return undefined;
+	}
+	const first = params[0].start;
+	const last = params[params.length - 1].end;
+	if (list.style === 'pipe') {
+		return action(document, 'Convert to \'arg\' declaration', CodeActionKind.RefactorRewrite, [
+			TextEdit.replace(toRange(document, list.start, first), 'arg '),
+			TextEdit.replace(toRange(document, last, list.end), ';')
+		]);
+	}
+	// Pipe arguments cannot hold defaults with binary operators
+	const semicolon = parsed.tokens.find(token => token.start >= list.end);
+	if (semicolon?.value !== ';' || !canUsePipes(list)) {
+		return undefined;
+	}
+	return action(document, 'Convert to |...| arguments', CodeActionKind.RefactorRewrite, [
+		TextEdit.replace(toRange(document, list.start, first), '|'),
+		TextEdit.replace(toRange(document, last, semicolon.end), '|')
+	]);
+}
+
+/**
+ * Assigns the selected expression to a new environment variable before its statement and uses
+ * the variable in its place. Statements followed by `var` declarations are left alone, as code
+ * before them would not compile.
+ */
+function extractToEnvironmentVariable(document: TextDocument, parsed: ParseResult, range: Range): CodeAction | undefined {
+	const text = document.getText();
+	const selection = document.getText(range);
+	const start = document.offsetAt(range.start) + (selection.length - selection.trimStart().length);
+	const end = document.offsetAt(range.end) - (selection.length - selection.trimEnd().length);
+	let expression: Node | undefined;
+	const names = new Set<string>();
+	walk(parsed.program, (node, parent) => {
+		if (node.start === start && node.end === end && !NOT_EXPRESSIONS.has(node.type) && !(parent?.type === 'Assignment' && parent.target === node)) {
+			expression ??= node;
+		}
+		if (node.type === 'EnvironmentVariable') {
+			names.add(node.name);
+		}
+	});
+	// The innermost statement holding the expression
+	let found: { body: Body; index: number } | undefined;
+	for (const body of getBodies(parsed)) {
+		const index = body.statements.findIndex(statement => statement.start <= start && end <= statement.end);
+		if (index >= 0 && (!found || body.statements[index].start >= found.body.statements[found.index].start && body.statements[index].end <= found.body.statements[found.index].end)) {
+			found = { body, index };
+		}
+	}
+	const statement = found?.body.statements[found.index];
+	if (!expression || !found || !statement || statement === expression || found.body.statements.slice(found.index).some(statement => statement.type === 'VarDecl')) {
+		return undefined;
+	}
+	let name = 'extracted';
+	for (let i = 2; names.has(name); i++) {
+		name = `extracted${i}`;
+	}
+	return action(document, `Extract to ~${name}`, CodeActionKind.RefactorExtract, [
+		insert(document, statement.start, `~${name} = ${text.substring(start, end)};${getLineBreak(document, parsed, statement)}`),
+		TextEdit.replace(toRange(document, start, end), `~${name}`)
+	]);
+}
+
+/** Names the positional arguments of a call whose parameters are known: `SinOsc.ar(freq: 440)`. */
+function convertToKeywordArguments(document: TextDocument, call: Call, signatures: SignatureDatabase): CodeAction | undefined {
+	const params = getCallParameters(call, signatures);
+	if (!params) {
+		return undefined;
+	}
+	const edits: TextEdit[] = [];
+	for (const [index, arg] of call.args.entries()) {
+		// `foo(a, b)` passes its receiver first, which has no name
+		const paramIndex = getParameterIndex(call, index);
+		if (paramIndex < 0) {
+			continue;
+		}
+		const param = params[paramIndex];
+		if (arg.type === 'KeywordArg' || !param || param.rest || arg.type === 'Error' || arg.type === 'UnaryOp' && arg.operator === '*') {
+			break;
+		}
+		edits.push(insert(document, arg.start, `${param.name}: `));
+	}
+	return edits.length > 0 ? action(document, 'Convert to keyword arguments', CodeActionKind.RefactorRewrite, edits) : undefined;
+}
+
+export function getCodeActions(document: TextDocument, range: Range, context: CodeActionContext, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex, signatures: SignatureDatabase): CodeAction[] {
+	const actions: (CodeAction | undefined)[] = [];
+	for (const diagnostic of context.diagnostics) {
+		if (diagnostic.source !== 'supercollider') {
+			continue;
+		}
+		switch (diagnostic.code) {
+			case 'undeclared-variable':
+				actions.push(declareVariable(document, parsed, scopes, diagnostic));
+				break;
+			case 'var-after-statement':
+				actions.push(moveDeclaration(document, parsed, diagnostic));
+				break;
+			case 'missing-semicolon':
+				actions.push(insertSemicolon(document, parsed, diagnostic));
+				break;
+			case 'unclosed-bracket':
+				actions.push(closeBracket(document, parsed, diagnostic));
+				break;
+			case 'unknown-class':
+				actions.push(...fixClassName(document, classIndex, diagnostic));
+				break;
+		}
+	}
+
+	const start = document.offsetAt(range.start);
+	const end = document.offsetAt(range.end);
+	if (start < end) {
+		actions.push(wrapInRegion(document, parsed, range), extractToEnvironmentVariable(document, parsed, range));
+	}
+	let list: ParamList | undefined;
+	let call: Call | undefined;
+	walk(parsed.program, node => {
+		if (node.start > start || node.end < start) {
+			return false;
+		}
+		if (node.type === 'ParamList') {
+			list = node;
+		} else if (node.type === 'Call' && node.openParen !== undefined) {
+			call = node;
+		}
+	});
+	actions.push(list && convertParamList(document, parsed, list), call && convertToKeywordArguments(document, call, signatures));
+
+	return actions.filter((action): action is CodeAction => !!action && (!context.only || context.only.some(kind => action.kind!.startsWith(kind))));
+}
@@ -0,0 +1,244 @@
+/*---------------------------------------------------------------------------------------------
+ *  Context-aware completion: methods after `.`, environment variables after `~`, symbols after
+ *  `\` (the controls of the SynthDef first where keys set them) and in-scope variables and
+ *  classes for bare identifiers.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	CompletionItem,
+	CompletionItemKind,
+	CompletionList,
+	Position,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+	CLASS_DOCS,
+	CLASS_METHODS,
+	KEYWORD_DOCS,
+	METHOD_DOCS,
+	SC_CLASSES,
+	SC_KEYWORDS,
+	SC_METHODS,
+	UGEN_CLASSES,
+	UGEN_RATES
+} from '../data/builtins';
+import { ClassIndex, MethodEntry } from '../data/classIndex';
+import { formatSignature } from '../data/signatures';
+import { WorkspaceIndex } from '../data/workspaceIndex';
+import { Call, getNodePath, walk } from '../parser/ast';
+import { isIdentifierChar } from '../parser/lexer';
+import { isInCommentOrString, ParseResult } from '../parser/parser';
+import { getScopeAt, getVisibleDeclarations, ScopeAnalysis } from '../parser/scope';
+import { findSynthDefs, getControlLists } from './synthDefs';
+
+// Selectors that only make sense on the class side
+const CLASS_SIDE_SELECTORS = new Set(['ar', 'kr', 'ir', 'tr', 'new', 'newClear', 'newFrom']);
+
+function getClassMethods(className: string): string[] {
+	if (CLASS_METHODS[className]) {
+		return CLASS_METHODS[className];
+	}
+	return UGEN_CLASSES.has(className) ? UGEN_RATES : ['new'];
+}
+
+/** Methods prefixed `pr` are private by convention. */
+function isPrivateSelector(selector: string): boolean {
+	return /^pr[A-Z]/.test(selector);
+}
+
+function methodItem(selector: string, detail: string): CompletionItem {
+	return {
+		label: selector,
+		kind: CompletionItemKind.Method,
+		detail,
+		documentation: METHOD_DOCS[selector]
+	};
+}
+
+function indexedMethodItem(method: MethodEntry): CompletionItem {
+	return {
+		label: method.selector,
+		kind: CompletionItemKind.Method,
+		detail: formatSignature(method).label,
+		documentation: METHOD_DOCS[method.selector]
+	};
+}
+
+function classItem(name: string, classIndex: ClassIndex): CompletionItem {
+	const superclass = classIndex.getClass(name)?.superclass;
+	return {
+		label: name,
+		kind: CompletionItemKind.Class,
+		detail: superclass ? `${name} : ${superclass}` : 'SuperCollider class',
+		documentation: CLASS_DOCS[name]
+	};
+}
+
+/** Finds the message send whose selector is being typed at `prefixStart`. */
+function findSendAt(parsed: ParseResult, prefixStart: number): Call | undefined {
+	let found: Call | undefined;
+	walk(parsed.program, node => {
+		if (node.start > prefixStart || node.end < prefixStart) {
+			return false;
+		}
+		if (node.type === 'Call' && node.style === 'method' && node.selectorStart === prefixStart) {
+			found = node;
+		}
+	});
+	return found;
+}
+
+function completeMethods(parsed: ParseResult, prefixStart: number, classIndex: ClassIndex): CompletionItem[] {
+	const send = findSendAt(parsed, prefixStart);
+	if (send?.receiver?.type === 'ClassName') {
+		const className = send.receiver.name;
+		if (classIndex.getClass(className)) {
+			return classIndex.getMethods(className, true)
+				.filter(method => !isPrivateSelector(method.selector))
+				.map(indexedMethodItem);
+		}
+		return getClassMethods(className).map(selector => methodItem(selector, `${className} class method`));
+	}
+	const selectors = new Set(SC_METHODS.filter(selector => !CLASS_SIDE_SELECTORS.has(selector)));
+	for (const selector of classIndex.getInstanceSelectors()) {
+		if (!isPrivateSelector(selector)) {
+			selectors.add(selector);
+		}
+	}
+	return [...selectors].map(selector => methodItem(selector, 'SuperCollider method'));
+}
+
+function completeEnvironmentVariables(parsed: ParseResult, offset: number): CompletionItem[] {
+	const names = new Map<string, boolean>();
+	walk(parsed.program, (node, parent) => {
+		if (node.type === 'EnvironmentVariable' && node.name && !(node.start < offset && offset <= node.end)) {
+			const assigned = parent?.type === 'Assignment' && parent.target === node;
+			names.set(node.name, (names.get(node.name) ?? false) || assigned);
+		}
+	});
+	return [...names].map(([name, assigned]) => ({
+		label: name,
+		kind: CompletionItemKind.Variable,
+		detail: assigned ? `~${name} (assigned in this document)` : `~${name}`
+	}));
+}
+
+/** The controls of the SynthDef whose key is typed at `offset`, leaving out keys the list already sets. */
+function completeControls(document: TextDocument, parsed: ParseResult, scopes: ScopeAnalysis, workspaceIndex: WorkspaceIndex, offset: number): CompletionItem[] {
+	const list = getControlLists(parsed, scopes).find(list => list.keys.some(key => key.node.start < offset && offset <= key.node.end));
+	if (!list) {
+		return [];
+	}
+	const used = new Set(list.keys.filter(key => !(key.node.start < offset && offset <= key.node.end)).map(key => key.name));
+	const items = new Map<string, CompletionItem>();
+	for (const synthDef of findSynthDefs(document, parsed, workspaceIndex, list.instrument.name)) {
+		for (const control of synthDef.controls) {
+			if (!used.has(control.name) && !items.has(control.name)) {
+				items.set(control.name, {
+					label: control.name,
+					kind: CompletionItemKind.Field,
+					detail: control.defaultValue !== undefined ? `${control.name} = ${control.defaultValue}` : control.name,
+					documentation: `${control.rate} control of SynthDef '${synthDef.name}'`,
+					sortText: '0' + String(items.size).padStart(3, '0')
+				});
+			}
+		}
+	}
+	return [...items.values()];
+}
+
+function completeSymbols(parsed: ParseResult, offset: number, controls: CompletionItem[]): CompletionItem[] {
+	const synthDefs = new Set<string>();
+	const symbols = new Set<string>();
+	walk(parsed.program, node => {
+		if (node.type === 'Call' && node.style === 'new' && node.receiver?.type === 'ClassName' && node.receiver.name === 'SynthDef') {
+			const name = node.args[0];
+			if (name?.type === 'Literal' && name.kind === 'symbol' && typeof name.value === 'string') {
+				synthDefs.add(name.value);
+			}
+		}
+		if (node.type === 'Literal' && node.kind === 'symbol' && typeof node.value === 'string' && node.value &&
+			!(node.start < offset && offset <= node.end)) {
+			symbols.add(node.value);
+		}
+	});
+	const items: CompletionItem[] = [...controls, ...[...synthDefs].map(name => ({
+		label: name,
+		kind: CompletionItemKind.Constant,
+		detail: 'SynthDef',
+		sortText: '1' + name
+	}))];
+	for (const name of symbols) {
+		if (!synthDefs.has(name) && !controls.some(control => control.label === name)) {
+			items.push({ label: name, kind: CompletionItemKind.Constant, detail: 'Symbol', sortText: '2' + name });
+		}
+	}
+	return items;
+}
+
+function completeIdentifiers(scopes: ScopeAnalysis, offset: number, prefix: string, classIndex: ClassIndex): CompletionItem[] {
+	const items: CompletionItem[] = [];
+	const isClassPrefix = prefix.length > 0 && prefix[0] >= 'A' && prefix[0] <= 'Z';
+	if (!isClassPrefix) {
+		for (const declaration of getVisibleDeclarations(getScopeAt(scopes, offset))) {
+			items.push({
+				label: declaration.name,
+				kind: CompletionItemKind.Variable,
+				detail: `${declaration.kind} ${declaration.name}`,
+				sortText: '0' + declaration.name
+			});
+		}
+		for (const keyword of SC_KEYWORDS) {
+			items.push({
+				label: keyword,
+				kind: CompletionItemKind.Keyword,
+				detail: 'SuperCollider keyword',
+				documentation: KEYWORD_DOCS[keyword]
+			});
+		}
+	}
+	const classNames = new Set([...SC_CLASSES, ...classIndex.getClassNames()]);
+	items.push(...[...classNames].map(name => classItem(name, classIndex)));
+	return items;
+}
+
+/** True when the cursor is on the name being declared by a `var`, argument or class. */
+function isDeclaringName(parsed: ParseResult, offset: number): boolean {
+	const path = getNodePath(parsed.program, offset);
+	const node = path[path.length - 1];
+	const parent = path[path.length - 2];
+	return node?.type === 'Identifier' &&
+		(parent?.type === 'VarDeclarator' || parent?.type === 'Param') && parent.name === node;
+}
+
+export function doComplete(document: TextDocument, position: Position, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex, workspaceIndex: WorkspaceIndex): CompletionList {
+	const text = document.getText();
+	const offset = document.offsetAt(position);
+
+	if (isInCommentOrString(parsed, offset) || isDeclaringName(parsed, offset)) {
+		return CompletionList.create([], false);
+	}
+
+	let prefixStart = offset;
+	while (prefixStart > 0 && isIdentifierChar(text.charAt(prefixStart - 1))) {
+		prefixStart--;
+	}
+	const prefix = text.substring(prefixStart, offset);
+	const trigger = text.charAt(prefixStart - 1);
+
+	let items: CompletionItem[];
+	if (/^\d/.test(prefix)) {
+		items = [];
+	} else if (trigger === '.' && text.charAt(prefixStart - 2) !== '.') {
+		items = completeMethods(parsed, prefixStart, classIndex);
+	} else if (trigger === '~') {
+		items = completeEnvironmentVariables(parsed, offset);
+	} else if (trigger === '\\') {
+		items = completeSymbols(parsed, offset, completeControls(document, parsed, scopes, workspaceIndex, offset));
+	} else {
+		items = completeIdentifiers(scopes, offset, prefix, classIndex);
+	}
+
+	const prefixLower = prefix.toLowerCase();
+	return CompletionList.create(items.filter(item => item.label.toLowerCase().startsWith(prefixLower)), false);
+}
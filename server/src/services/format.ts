@@ -0,0 +1,451 @@
+/*---------------------------------------------------------------------------------------------
+ *  Code formatter: indentation, spacing, one Pbind pair per line and over-long argument lists
+ *  broken up, working on the token stream with the syntax tree for context.
+ *--------------------------------------------------------------------------------------------*/
+
+import { FormattingOptions, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Expression, KeywordArg, ParamList, walk } from '../parser/ast';
+import { Token } from '../parser/lexer';
+import { ParseResult } from '../parser/parser';
+
+export interface FormatSettings {
+	/** Spaces per indentation level, `null` for the editor's tab size. */
+	indentSize: number | null;
+	/** Lines longer than this get their argument lists broken up, 0 turns it off. */
+	maxLineWidth: number;
+	/** Rewrites argument lists as `arg x;` or `|x|`. */
+	argStyle: 'preserve' | 'arg' | 'pipe';
+}
+
+export const defaultFormatSettings: FormatSettings = {
+	indentSize: null,
+	maxLineWidth: 100,
+	argStyle: 'preserve'
+};
+
+/** Patterns of key/value pairs, with the number of arguments before the first pair. */
+const PAIR_PATTERNS: Record<string, number> = {
+	Pbind: 0,
+	Pmono: 1,
+	PmonoArtic: 1,
+	Pbindef: 1
+};
+
+/** At most two blank lines in a row. */
+const MAX_NEWLINES = 3;
+/** Each pass breaks one argument list, this bounds the work on pathological input. */
+const MAX_BREAK_PASSES = 200;
+
+/** A token or comment, in source order. */
+interface Item {
+	start: number;
+	end: number;
+	text: string;
+	token?: Token;
+}
+
+interface Layout {
+	source: string;
+	items: Item[];
+	/** Item index of the bracket matching each bracket. */
+	matching: Map<number, number>;
+	/** Offsets of binary operators, spaced on both sides. */
+	binary: Set<number>;
+	/** Offsets of the `.x` adverb of binary operators such as `+.x`. */
+	adverbs: Set<number>;
+	pipeOpen: Set<number>;
+	pipeClose: Set<number>;
+	/** Offsets of top-level region parentheses, whose content is not indented. */
+	regions: Set<number>;
+	/** Offsets of the `+` of class extensions. */
+	extensions: Set<number>;
+	/** Item indices of the argument lists broken up, one element per line. */
+	broken: Set<number>;
+	/** Item indices that start a new line. */
+	breaks: Set<number>;
+}
+
+interface Rendering {
+	text: string;
+	/** Output line of each item. */
+	lines: number[];
+	/** Output column after each item, tabs expanded. */
+	columns: number[];
+}
+
+const OPENERS = new Set(['(', '[', '{']);
+const CLOSERS = new Set([')', ']', '}']);
+
+function isPunctuation(item: Item | undefined, value: string): boolean {
+	return item?.token?.type === 'punctuation' && item.text === value;
+}
+
+function isOpener(item: Item): boolean {
+	return item.token?.type === 'punctuation' && OPENERS.has(item.text);
+}
+
+function isCloser(item: Item): boolean {
+	return item.token?.type === 'punctuation' && CLOSERS.has(item.text);
+}
+
+function countNewlines(text: string): number {
+	let count = 0;
+	for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+		count++;
+	}
+	return count;
+}
+
+function visualWidth(line: string, tabSize: number): number {
+	let width = 0;
+	for (const ch of line) {
+		width = ch === '\t' ? width + tabSize - width % tabSize : width + 1;
+	}
+	return width;
+}
+
+/** Binary operators and method calls that carry a statement over to the next line. */
+function continuesStatement(layout: Layout, item: Item): boolean {
+	return !!item.token && (layout.binary.has(item.start) || isPunctuation(item, '.'));
+}
+
+/** Pipe argument defaults are parsed without binary operators, other defaults need `arg`. */
+export function canUsePipes(list: ParamList): boolean {
+	return [...list.params, ...(list.rest ? [list.rest] : [])].every(param => param.defaultValue?.type !== 'BinaryOp');
+}
+
+function createLayout(source: string, parsed: ParseResult, settings: FormatSettings): Layout {
+	const replacements = new Map<number, Token>();
+	const layout: Layout = {
+		source,
+		items: [],
+		matching: new Map(),
+		binary: new Set(),
+		adverbs: new Set(),
+		pipeOpen: new Set(),
+		pipeClose: new Set(),
+		regions: new Set(),
+		extensions: new Set(),
+		broken: new Set(),
+		breaks: new Set()
+	};
+
+	const tokenAt = new Map(parsed.tokens.map(token => [token.start, token]));
+	const tokenAfter = (offset: number) => parsed.tokens.find(token => token.start >= offset);
+	const pairLists: { args: (Expression | KeywordArg)[]; first: number; closeParen: number }[] = [];
+
+	for (const statement of parsed.program.body) {
+		if (statement.type === 'Block' && tokenAt.get(statement.start)?.lineStart) {
+			layout.regions.add(statement.start);
+		}
+	}
+	walk(parsed.program, node => {
+		switch (node.type) {
+			case 'BinaryOp':
+				if (!node.keyword) {
+					layout.binary.add(node.operatorStart);
+					if (node.adverb) {
+						const dot = tokenAfter(node.operatorEnd);
+						const adverb = dot && tokenAfter(dot.end);
+						[dot, adverb].forEach(token => token && layout.adverbs.add(token.start));
+					}
+				}
+				break;
+			case 'ClassExtension':
+				layout.extensions.add(node.start);
+				break;
+			case 'ParamList': {
+				if (node.params.length === 0 && !node.rest) {
+					break;
+				}
+				const open = tokenAt.get(node.start);
+				const close = node.style === 'pipe' ? tokenAt.get(node.end - 1) : tokenAfter(node.end);
+				if (!open || !close || (node.style === 'arg' && close.value !== ';') || (node.style === 'pipe' && close.value !== '|')) {
+					break;
+				}
+				let style = node.style;
+				if (settings.argStyle === 'arg' && style === 'pipe') {
+					replacements.set(open.start, { ...open, type: 'keyword', value: 'arg' });
+					replacements.set(close.start, { ...close, type: 'punctuation', value: ';' });
+					style = 'arg';
+				} else if (settings.argStyle === 'pipe' && style === 'arg' && canUsePipes(node)) {
+					replacements.set(open.start, { ...open, type: 'binop', value: '|' });
+					replacements.set(close.start, { ...close, type: 'binop', value: '|' });
+					style = 'pipe';
+				}
+				if (style === 'pipe') {
+					layout.pipeOpen.add(open.start);
+					layout.pipeClose.add(close.start);
+				}
+				break;
+			}
+			case 'Call': {
+				const first = node.receiver?.type === 'ClassName' && node.style === 'new' ? PAIR_PATTERNS[node.receiver.name] : undefined;
+				if (first !== undefined && node.closeParen !== undefined && node.args.length - first >= 4 &&
+					!node.args.some(arg => arg.type === 'KeywordArg')) {
+					pairLists.push({ args: node.args, first, closeParen: node.closeParen });
+				}
+				break;
+			}
+		}
+	});
+
+	const items: Item[] = parsed.tokens
+		.filter(token => token.type !== 'eof')
+		.map(token => replacements.get(token.start) ?? token)
+		.map(token => ({ start: token.start, end: token.end, text: token.value, token }));
+	for (const comment of parsed.comments) {
+		items.push({ start: comment.start, end: comment.end, text: comment.kind === 'line' ? comment.text.trimEnd() : comment.text });
+	}
+	items.sort((a, b) => a.start - b.start);
+	layout.items = items;
+
+	const stack: number[] = [];
+	items.forEach((item, index) => {
+		if (isOpener(item)) {
+			stack.push(index);
+		} else if (isCloser(item) && stack.length > 0) {
+			const open = stack.pop()!;
+			layout.matching.set(open, index);
+			layout.matching.set(index, open);
+		}
+	});
+
+	const indexAt = new Map(items.map((item, index) => [item.start, index]));
+	for (const list of pairLists) {
+		for (let i = list.first; i < list.args.length; i += 2) {
+			layout.breaks.add(indexAt.get(list.args[i].start)!);
+		}
+		const close = indexAt.get(list.closeParen)!;
+		layout.breaks.add(close);
+		layout.broken.add(layout.matching.get(close)!);
+	}
+	return layout;
+}
+
+/** The whitespace between two tokens on the same line. */
+function spaceBetween(layout: Layout, previous: Item, current: Item): string {
+	const prev = previous.token;
+	const cur = current.token;
+	if (!prev || !cur) {
+		// Keep the alignment of trailing comments
+		const gap = layout.source.substring(previous.end, current.start);
+		return gap || (cur ? '' : ' ');
+	}
+	const isBinary = (token: Token) => layout.binary.has(token.start) || (token.type === 'binop' && token.value === '=');
+	const is = (token: Token, ...values: string[]) => token.type === 'punctuation' && values.includes(token.value);
+
+	if (layout.adverbs.has(cur.start)) {
+		return '';
+	}
+	if (layout.pipeOpen.has(cur.start)) {
+		return is(prev, '(', '[') ? '' : ' ';
+	}
+	if (layout.pipeOpen.has(prev.start) || layout.pipeClose.has(cur.start)) {
+		return '';
+	}
+	if (layout.pipeClose.has(prev.start)) {
+		return ' ';
+	}
+	if (isBinary(cur) || isBinary(prev)) {
+		return ' ';
+	}
+	if (is(cur, ',', ';')) {
+		return '';
+	}
+	if (is(prev, ',', ';')) {
+		return ' ';
+	}
+	if (is(cur, ':')) {
+		// `Foo : Bar` superclasses, `freq: 440` keyword arguments
+		return prev.type === 'className' ? ' ' : '';
+	}
+	if (is(prev, ':')) {
+		return ' ';
+	}
+	if (is(prev, '(', '[') || is(cur, ')', ']')) {
+		return '';
+	}
+	if (is(prev, '{') || is(cur, '}')) {
+		return ' ';
+	}
+	if (is(cur, '{')) {
+		return ' ';
+	}
+	if (is(cur, '.', '..', '...') || is(prev, '.', '..', '...', '#', '^', '`')) {
+		return '';
+	}
+	if (prev.type === 'keyword' || layout.extensions.has(prev.start)) {
+		return ' ';
+	}
+	if (prev.type === 'binop') {
+		// Unary operators and accessors: `-x`, `var <>x`, `*new`
+		return '';
+	}
+	return cur.spaceBefore ? ' ' : '';
+}
+
+function render(layout: Layout, options: FormattingOptions, indentSize: number, isActive: (item: Item) => boolean, formatsEnd: boolean): Rendering {
+	const { source, items } = layout;
+	const indentUnit = options.insertSpaces ? ' '.repeat(indentSize) : '\t';
+	const stack: { indent: number; region: boolean }[] = [];
+	const lines: number[] = [];
+	const columns: number[] = [];
+	let text = '';
+	let line = 0;
+	let lineStart = 0;
+	let indent = 0;
+	let lastToken: Item | undefined;
+
+	const append = (value: string) => {
+		const newlines = countNewlines(value);
+		if (newlines > 0) {
+			line += newlines;
+			lineStart = text.length + value.lastIndexOf('\n') + 1;
+		}
+		text += value;
+	};
+
+	items.forEach((item, index) => {
+		const active = isActive(item);
+		const gap = source.substring(index > 0 ? items[index - 1].end : 0, item.start);
+		let newlines = index > 0 ? countNewlines(gap) : 0;
+		if (active && newlines === 0 && layout.breaks.has(index)) {
+			newlines = 1;
+		}
+
+		if (index === 0 || newlines > 0) {
+			const top = stack[stack.length - 1];
+			if (isCloser(item) && top) {
+				indent = top.indent;
+			} else {
+				indent = top ? (top.region ? top.indent : top.indent + 1) : 0;
+				// Statements continued on the next line: `.play`, `* 0.1`, or after a trailing operator
+				if (continuesStatement(layout, item) || (lastToken && (continuesStatement(layout, lastToken) || lastToken.text === '='))) {
+					indent++;
+				}
+			}
+		}
+
+		if (!active) {
+			append(gap + source.substring(item.start, item.end));
+		} else if (index === 0) {
+			append(item.text);
+		} else if (newlines > 0) {
+			text = text.substring(0, lineStart) + text.substring(lineStart).replace(/[ \t]+$/, '');
+			append('\n'.repeat(Math.min(newlines, MAX_NEWLINES)) + indentUnit.repeat(indent) + item.text);
+		} else {
+			append(spaceBetween(layout, items[index - 1], item) + item.text);
+		}
+		lines.push(line - countNewlines(active ? item.text : source.substring(item.start, item.end)));
+		columns.push(visualWidth(text.substring(lineStart), options.tabSize));
+
+		if (isOpener(item)) {
+			stack.push({ indent, region: layout.regions.has(item.start) });
+		} else if (isCloser(item)) {
+			stack.pop();
+		}
+		if (item.token) {
+			lastToken = item;
+		}
+	});
+
+	const end = source.substring(items.length > 0 ? items[items.length - 1].end : 0);
+	if (formatsEnd) {
+		text = text.replace(/\s+$/, '') + (/\n\s*$/.test(end) && text.trim() ? '\n' : '');
+	} else {
+		text += end;
+	}
+	return { text, lines, columns };
+}
+
+/**
+ * The outermost argument list reaching past the line width that can be broken up, as an item
+ * index. Lists ending before the limit would not shorten the line, and inner lists only break
+ * once their line still overflows.
+ */
+function findBreakableList(layout: Layout, rendering: Rendering, maxLineWidth: number, isActive: (item: Item) => boolean): number | undefined {
+	const { items } = layout;
+	const tooLong = new Set<number>();
+	items.forEach((item, index) => {
+		if (item.token && isActive(item) && rendering.columns[index] > maxLineWidth) {
+			tooLong.add(rendering.lines[index]);
+		}
+	});
+	for (let index = 0; index < items.length; index++) {
+		const item = items[index];
+		const close = layout.matching.get(index);
+		if (!tooLong.has(rendering.lines[index]) || !isActive(item) || (item.text !== '(' && item.text !== '[') ||
+			close === undefined || close < index || layout.broken.has(index) || rendering.lines[close] !== rendering.lines[index] ||
+			rendering.columns[close] <= maxLineWidth) {
+			continue;
+		}
+		if (getElementStarts(layout, index, close).length > 1) {
+			return index;
+		}
+	}
+	return undefined;
+}
+
+/** Item indices of the elements of the bracketed list opened at `open`. */
+function getElementStarts(layout: Layout, open: number, close: number): number[] {
+	const starts = open + 1 < close ? [open + 1] : [];
+	for (let index = open + 1; index < close; index++) {
+		const match = layout.matching.get(index);
+		if (match !== undefined && match > index) {
+			index = match;
+		} else if (isPunctuation(layout.items[index], ',') && index + 1 < close) {
+			starts.push(index + 1);
+		}
+	}
+	return starts;
+}
+
+/**
+ * Formats the document, or the lines of `range`. Documents with syntax errors are left alone,
+ * their brackets cannot be trusted for indentation.
+ */
+export function format(document: TextDocument, range: Range | undefined, parsed: ParseResult, options: FormattingOptions, settings: FormatSettings): TextEdit[] {
+	if (parsed.errors.length > 0) {
+		return [];
+	}
+	const source = document.getText();
+	const layout = createLayout(source, parsed, settings);
+	const rangeStart = range ? document.offsetAt({ line: range.start.line, character: 0 }) : 0;
+	const rangeEnd = range ? document.offsetAt({ line: range.end.line + 1, character: 0 }) : source.length;
+	const isActive = (item: Item) => item.start >= rangeStart && item.start < rangeEnd;
+	const formatsEnd = rangeEnd >= source.length;
+	const indentSize = settings.indentSize ?? options.tabSize;
+
+	let rendering = render(layout, options, indentSize, isActive, formatsEnd);
+	for (let pass = 0; settings.maxLineWidth > 0 && pass < MAX_BREAK_PASSES; pass++) {
+		const open = findBreakableList(layout, rendering, settings.maxLineWidth, isActive);
+		if (open === undefined) {
+			break;
+		}
+		const close = layout.matching.get(open)!;
+		layout.broken.add(open);
+		getElementStarts(layout, open, close).forEach(index => layout.breaks.add(index));
+		layout.breaks.add(close);
+		rendering = render(layout, options, indentSize, isActive, formatsEnd);
+	}
+
+	const formatted = rendering.text;
+	if (formatted === source) {
+		return [];
+	}
+	let prefix = 0;
+	while (prefix < source.length && prefix < formatted.length && source[prefix] === formatted[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < source.length - prefix && suffix < formatted.length - prefix &&
+		source[source.length - 1 - suffix] === formatted[formatted.length - 1 - suffix]) {
+		suffix++;
+	}
+	return [TextEdit.replace(
+		{ start: document.positionAt(prefix), end: document.positionAt(source.length - suffix) },
+		formatted.substring(prefix, formatted.length - suffix)
+	)];
+}
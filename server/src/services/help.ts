@@ -0,0 +1,93 @@
+/*---------------------------------------------------------------------------------------------
+ *  Help documentation from the SCDoc help files: pages for the help browser and excerpts for hovers.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { HelpIndex } from '../data/helpIndex';
+import { SignatureDatabase } from '../data/signatures';
+import { getNodePath } from '../parser/ast';
+import { isIdentifierChar } from '../parser/lexer';
+import { ParseResult } from '../parser/parser';
+import { findHelpMethod, helpToMarkdown, methodToMarkdown } from '../parser/schelp';
+import { resolveSignatures } from './signatureHelp';
+
+export interface HelpPage {
+	key: string;
+	title: string;
+	markdown: string;
+}
+
+/** A Markdown link target that opens `key` in the help browser. */
+export function helpCommandLink(key: string, anchor?: string): string {
+	if (!key) {
+		return anchor ? `#${encodeURIComponent(anchor)}` : '#';
+	}
+	return `command:supercollider.openHelp?${encodeURIComponent(JSON.stringify([key]))}`;
+}
+
+export function getHelpPage(helpIndex: HelpIndex, topic: string): HelpPage | null {
+	const key = helpIndex.findTopic(topic);
+	const document = key && helpIndex.getDocument(key);
+	if (!key || !document) {
+		return null;
+	}
+	return { key, title: document.title, markdown: helpToMarkdown(document, { resolveLink: helpCommandLink }) };
+}
+
+/** Summary and the opening paragraphs of a class's help, for hovers. */
+export function getClassHelp(helpIndex: HelpIndex, className: string): string | undefined {
+	const key = `Classes/${className}`;
+	const document = helpIndex.hasTopic(key) ? helpIndex.getDocument(key) : undefined;
+	if (!document) {
+		return undefined;
+	}
+	const parts: string[] = [];
+	if (document.summary) {
+		parts.push(`*${document.summary}*`);
+	}
+	const description = document.sections.find(section => section.title === 'Description')?.body;
+	if (description) {
+		parts.push(description.split('\n\n').slice(0, 2).join('\n\n'));
+	}
+	parts.push(`[Open help for ${className}](${helpCommandLink(key)})`);
+	return parts.join('\n\n');
+}
+
+export function getMethodHelp(helpIndex: HelpIndex, className: string, selector: string, isClassMethod: boolean): string | undefined {
+	const key = `Classes/${className}`;
+	const document = helpIndex.hasTopic(key) ? helpIndex.getDocument(key) : undefined;
+	const method = document && findHelpMethod(document, selector, isClassMethod);
+	return method ? methodToMarkdown(method) : undefined;
+}
+
+/**
+ * The help topic for the code at `position`: the class of a class name or of the method whose
+ * selector is under the cursor, otherwise the word itself.
+ */
+export function getHelpTopicAt(document: TextDocument, position: Position, parsed: ParseResult, signatures: SignatureDatabase, helpIndex: HelpIndex): string | null {
+	const offset = document.offsetAt(position);
+	const path = getNodePath(parsed.program, offset);
+	const node = path[path.length - 1];
+	if (node?.type === 'ClassName') {
+		return helpIndex.findTopic(node.name) ?? node.name;
+	}
+	if (node?.type === 'Call' && node.selectorStart <= offset && offset <= node.selectorEnd && node.selector) {
+		const owner = resolveSignatures(node, signatures).find(signature => helpIndex.hasTopic(`Classes/${signature.className}`));
+		if (owner) {
+			return `Classes/${owner.className}`;
+		}
+	}
+
+	const text = document.getText();
+	let start = offset;
+	while (start > 0 && isIdentifierChar(text.charAt(start - 1))) {
+		start--;
+	}
+	let end = offset;
+	while (end < text.length && isIdentifierChar(text.charAt(end))) {
+		end++;
+	}
+	const word = text.substring(start, end);
+	return word ? helpIndex.findTopic(word) ?? word : null;
+}
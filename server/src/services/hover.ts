@@ -0,0 +1,143 @@
+/*---------------------------------------------------------------------------------------------
+ *  Hover documentation for classes, methods and keywords, and the controls of SynthDefs.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Hover, MarkupKind, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CLASS_DOCS, KEYWORD_DOCS, METHOD_DOCS } from '../data/builtins';
+import { ClassIndex } from '../data/classIndex';
+import { HelpIndex } from '../data/helpIndex';
+import { formatSignature, SignatureDatabase } from '../data/signatures';
+import { WorkspaceIndex } from '../data/workspaceIndex';
+import { Call, getNodePath } from '../parser/ast';
+import { isInCommentOrString, ParseResult } from '../parser/parser';
+import { ScopeAnalysis } from '../parser/scope';
+import { getClassHelp, getMethodHelp } from './help';
+import { getNavigationTarget } from './navigation';
+import { resolveSignatures } from './signatureHelp';
+import { findSynthDefs, SynthDefInfo } from './synthDefs';
+
+function getWordAtPosition(document: TextDocument, position: Position): { word: string; start: number; end: number } {
+	const text = document.getText();
+	const offset = document.offsetAt(position);
+
+	let start = offset;
+	while (start > 0 && /[a-zA-Z0-9_~]/.test(text.charAt(start - 1))) {
+		start--;
+	}
+
+	let end = offset;
+	while (end < text.length && /[a-zA-Z0-9_]/.test(text.charAt(end))) {
+		end++;
+	}
+
+	const word = text.substring(start, end);
+	return { word, start, end };
+}
+
+function codeBlock(code: string): string {
+	return '```supercollider\n' + code + '\n```';
+}
+
+function getClassDocumentation(name: string, classIndex: ClassIndex, helpIndex: HelpIndex): string | undefined {
+	const chain = classIndex.getClassChain(name);
+	const help = getClassHelp(helpIndex, name);
+	if (chain.length === 0) {
+		return help ?? CLASS_DOCS[name];
+	}
+	const sections = [codeBlock(chain[0].superclass ? `${name} : ${chain[0].superclass}` : name)];
+	const documentation = help ?? CLASS_DOCS[name];
+	if (documentation) {
+		sections.push(documentation);
+	}
+	if (chain.length > 2) {
+		sections.push(`Inherits from: ${chain.slice(1).map(entry => entry.name).join(' → ')}`);
+	}
+	return sections.join('\n\n');
+}
+
+function getMethodDocumentation(call: Call, signatures: SignatureDatabase, helpIndex: HelpIndex): string | undefined {
+	// Several classes may implement a selector, show a few of them
+	const candidates = resolveSignatures(call, signatures).slice(0, 5);
+	const sections: string[] = [];
+	if (candidates.length > 0) {
+		sections.push(codeBlock(candidates.map(signature => formatSignature(signature).label).join('\n')));
+	}
+	const help = candidates
+		.map(signature => getMethodHelp(helpIndex, signature.className, signature.selector, signature.isClassMethod))
+		.find(text => text);
+	const documentation = help ?? METHOD_DOCS[call.selector];
+	if (documentation) {
+		sections.push(documentation);
+	}
+	return sections.length > 0 ? sections.join('\n\n') : undefined;
+}
+
+function getSynthDefDocumentation(synthDefs: SynthDefInfo[]): string {
+	const [synthDef] = synthDefs;
+	const sections = [codeBlock(`SynthDef(\\${synthDef.name})`)];
+	if (synthDef.controls.length > 0) {
+		const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+		sections.push([
+			'| Control | Default | Rate |',
+			'| --- | --- | --- |',
+			...synthDef.controls.map(control => `| \`${control.name}\` | ${control.defaultValue !== undefined ? `\`${cell(control.defaultValue)}\`` : ''} | ${control.rate} |`)
+		].join('\n'));
+	} else {
+		sections.push('No controls.');
+	}
+	if (!synthDef.complete) {
+		sections.push('_Some controls are only known when the SynthDef is built._');
+	}
+	if (synthDefs.length > 1) {
+		sections.push(`Defined ${synthDefs.length} times in the workspace.`);
+	}
+	return sections.join('\n\n');
+}
+
+export function doHover(document: TextDocument, position: Position, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex, helpIndex: HelpIndex, signatures: SignatureDatabase, workspaceIndex: WorkspaceIndex): Hover | null {
+	const offset = document.offsetAt(position);
+	// SynthDef names may be strings, which have no other hover
+	const target = getNavigationTarget(offset, parsed, scopes);
+	const synthDefs = target?.kind === 'symbol' && target.className === 'SynthDef' ? findSynthDefs(document, parsed, workspaceIndex, target.name) : [];
+	if (isInCommentOrString(parsed, offset) && synthDefs.length === 0) {
+		return null;
+	}
+
+	const path = getNodePath(parsed.program, offset);
+	const node = path[path.length - 1];
+	let value: string | undefined;
+	let start: number | undefined;
+	let end: number | undefined;
+	if (target && synthDefs.length > 0) {
+		value = getSynthDefDocumentation(synthDefs);
+		({ start, end } = target);
+	} else if (node?.type === 'ClassName') {
+		value = getClassDocumentation(node.name, classIndex, helpIndex);
+		({ start, end } = node);
+	} else if (node?.type === 'Call' && node.selectorStart <= offset && offset <= node.selectorEnd && node.selector) {
+		value = getMethodDocumentation(node, signatures, helpIndex);
+		start = node.selectorStart;
+		end = node.selectorEnd;
+	}
+
+	if (value === undefined) {
+		const word = getWordAtPosition(document, position);
+		value = KEYWORD_DOCS[word.word] ?? CLASS_DOCS[word.word] ?? METHOD_DOCS[word.word];
+		({ start, end } = word);
+	}
+
+	if (!value || start === undefined || end === undefined) {
+		return null;
+	}
+	return {
+		contents: {
+			kind: MarkupKind.Markdown,
+			value
+		},
+		range: {
+			start: document.positionAt(start),
+			end: document.positionAt(end)
+		}
+	};
+}
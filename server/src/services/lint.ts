@@ -0,0 +1,245 @@
+/*---------------------------------------------------------------------------------------------
+ *  Semantic lints: misplaced `var` declarations, undeclared variables, unknown classes, unused
+ *  variables and arguments, undefined SynthDefs, SynthDefs without an output and keys that are
+ *  not controls of their SynthDef.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Diagnostic, DiagnosticSeverity, DiagnosticTag } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SC_CLASSES } from '../data/builtins';
+import { ClassIndex } from '../data/classIndex';
+import { WorkspaceIndex } from '../data/workspaceIndex';
+import { Block, ClassDef, ClassExtension, FunctionNode, Node, Program, walk } from '../parser/ast';
+import { ParseResult } from '../parser/parser';
+import { Declaration, isInterpreterVariable, ScopeAnalysis } from '../parser/scope';
+import { findOccurrences } from './navigation';
+import { getDefinitionName } from './symbols';
+import { findSynthDefs, getControlLists, getInstrumentNames, getSynthDefName, isUnknownControl } from './synthDefs';
+
+export type LintSeverity = 'off' | 'error' | 'warning' | 'information' | 'hint';
+
+/** Severity of each lint, by its `supercollider.lint.*` setting name. */
+export interface LintSettings {
+	varAfterStatement: LintSeverity;
+	undeclaredVariable: LintSeverity;
+	unknownClass: LintSeverity;
+	unusedVariable: LintSeverity;
+	unusedArgument: LintSeverity;
+	undefinedSynthDef: LintSeverity;
+	missingOutput: LintSeverity;
+	unknownControl: LintSeverity;
+}
+
+export const defaultLintSettings: LintSettings = {
+	varAfterStatement: 'error',
+	undeclaredVariable: 'warning',
+	unknownClass: 'warning',
+	unusedVariable: 'hint',
+	unusedArgument: 'hint',
+	undefinedSynthDef: 'warning',
+	missingOutput: 'warning',
+	unknownControl: 'warning'
+};
+
+/** Diagnostic codes, also used by suppression comments. */
+const LINT_CODES: Record<keyof LintSettings, string> = {
+	varAfterStatement: 'var-after-statement',
+	undeclaredVariable: 'undeclared-variable',
+	unknownClass: 'unknown-class',
+	unusedVariable: 'unused-variable',
+	unusedArgument: 'unused-argument',
+	undefinedSynthDef: 'undefined-synthdef',
+	missingOutput: 'missing-output',
+	unknownControl: 'unknown-control'
+};
+
+const SEVERITIES: Record<Exclude<LintSeverity, 'off'>, DiagnosticSeverity> = {
+	error: DiagnosticSeverity.Error,
+	warning: DiagnosticSeverity.Warning,
+	information: DiagnosticSeverity.Information,
+	hint: DiagnosticSeverity.Hint
+};
+
+/** Unit generators that write a SynthDef's signal somewhere. */
+const OUTPUT_CLASSES = new Set(['Out', 'OffsetOut', 'ReplaceOut', 'XOut', 'LocalOut']);
+
+/** SynthDefs the server always has. */
+const BUILTIN_SYNTHDEFS = new Set(['default']);
+
+const SUPPRESSION = /\bsc-lint-disable(-next-line|-line)?\b([^\n]*)/;
+
+type Lint = keyof LintSettings;
+
+interface Suppressions {
+	file: Set<string>;
+	lines: Map<number, Set<string>>;
+}
+
+/**
+ * Reads `// sc-lint-disable-line code`, `// sc-lint-disable-next-line code` and file-wide
+ * `// sc-lint-disable code` comments. Without codes, every lint is disabled.
+ */
+function getSuppressions(document: TextDocument, parsed: ParseResult): Suppressions {
+	const suppressions: Suppressions = { file: new Set(), lines: new Map() };
+	for (const comment of parsed.comments) {
+		const match = SUPPRESSION.exec(comment.text.replace(/\*\/$/, ''));
+		if (!match) {
+			continue;
+		}
+		const codes = match[2].split(/[\s,]+/).filter(code => code);
+		const all = codes.length === 0 ? ['*'] : codes;
+		if (!match[1]) {
+			all.forEach(code => suppressions.file.add(code));
+			continue;
+		}
+		const line = document.positionAt(comment.start).line + (match[1] === '-next-line' ? 1 : 0);
+		const lineCodes = suppressions.lines.get(line) ?? new Set();
+		all.forEach(code => lineCodes.add(code));
+		suppressions.lines.set(line, lineCodes);
+	}
+	return suppressions;
+}
+
+function isSuppressed(suppressions: Suppressions, line: number, code: string): boolean {
+	const lineCodes = suppressions.lines.get(line);
+	return suppressions.file.has('*') || suppressions.file.has(code) || !!lineCodes && (lineCodes.has('*') || lineCodes.has(code));
+}
+
+/** Statement lists in which `var` declarations must come first. */
+function getBodies(program: Program): (FunctionNode | Block)[] {
+	const bodies: (FunctionNode | Block)[] = [];
+	walk(program, node => {
+		if (node.type === 'Function' || node.type === 'Block') {
+			bodies.push(node);
+		}
+	});
+	return bodies;
+}
+
+/** Instance and class variables of the class a class file node belongs to, inherited ones included. */
+function getClassVariables(classIndex: ClassIndex, node: ClassDef | ClassExtension): Set<string> | undefined {
+	const chain = classIndex.getClassChain(node.name.name);
+	if (chain.length === 0) {
+		return undefined;
+	}
+	return new Set(chain.flatMap(entry => [...entry.instanceVars, ...entry.classVars]));
+}
+
+/** Arguments after the last one in use, earlier ones hold their position. */
+function getUnusedArguments(declarations: Declaration[]): Declaration[] {
+	const args = declarations.filter(declaration => declaration.kind === 'arg');
+	const lastUsed = args.map(declaration => declaration.references.length > 0).lastIndexOf(true);
+	return args.slice(lastUsed + 1);
+}
+
+export function doLint(document: TextDocument, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex, workspaceIndex: WorkspaceIndex, settings: LintSettings): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const suppressions = getSuppressions(document, parsed);
+	const report = (lint: Lint, node: { start: number; end: number }, message: string, tags?: DiagnosticTag[]) => {
+		const severity = settings[lint];
+		const range = { start: document.positionAt(node.start), end: document.positionAt(node.end) };
+		if (severity === 'off' || !SEVERITIES[severity] || isSuppressed(suppressions, range.start.line, LINT_CODES[lint])) {
+			return;
+		}
+		diagnostics.push({ severity: SEVERITIES[severity], range, message, code: LINT_CODES[lint], source: 'supercollider', tags });
+	};
+
+	for (const body of getBodies(parsed.program)) {
+		let seenStatement = false;
+		for (const statement of body.body) {
+			if (statement.type !== 'VarDecl') {
+				seenStatement ||= statement.type !== 'Error';
+			} else if (seenStatement) {
+				report('varAfterStatement', { start: statement.start, end: statement.start + statement.kind.length },
+					'Variable declarations must come before any other statement');
+			}
+		}
+	}
+
+	const classes = parsed.program.body.filter((node): node is ClassDef | ClassExtension => node.type === 'ClassDef' || node.type === 'ClassExtension');
+	for (const identifier of scopes.unresolved) {
+		// Class file methods see the variables of their class and its superclasses, not those of the interpreter
+		const owner = classes.find(node => node.start <= identifier.start && identifier.end <= node.end);
+		if (!owner && isInterpreterVariable(identifier.name)) {
+			continue;
+		}
+		if (owner) {
+			const variables = getClassVariables(classIndex, owner);
+			if (!variables || variables.has(identifier.name)) {
+				continue;
+			}
+		}
+		report('undeclaredVariable', identifier, `Variable '${identifier.name}' is not declared`);
+	}
+
+	// Without a class library every class would be unknown
+	if (classIndex.getClassNames().length > 0) {
+		const known = new Set([...SC_CLASSES, ...classes.map(node => node.name.name)]);
+		walk(parsed.program, node => {
+			if (node.type === 'ClassName' && !known.has(node.name) && !classIndex.getClass(node.name)) {
+				report('unknownClass', node, `Class '${node.name}' is not defined`);
+			}
+		});
+	}
+
+	const methodFunctions = new Set<Node>();
+	walk(parsed.program, node => {
+		if (node.type === 'Method') {
+			methodFunctions.add(node.body);
+		}
+	});
+	for (const declaration of scopes.declarations) {
+		if (declaration.kind === 'var' && declaration.references.length === 0) {
+			report('unusedVariable', declaration.identifier, `Variable '${declaration.name}' is never used`, [DiagnosticTag.Unnecessary]);
+		}
+	}
+	const scopesWithArguments = new Set(scopes.declarations.filter(declaration => declaration.kind === 'arg').map(declaration => declaration.scope));
+	for (const scope of scopesWithArguments) {
+		// Methods keep the arguments of the methods they override
+		if (methodFunctions.has(scope.node)) {
+			continue;
+		}
+		for (const declaration of getUnusedArguments([...scope.declarations.values()])) {
+			report('unusedArgument', declaration.identifier, `Argument '${declaration.name}' is never used`, [DiagnosticTag.Unnecessary]);
+		}
+	}
+
+	const isSynthDefDefined = (name: string) => BUILTIN_SYNTHDEFS.has(name) ||
+		findOccurrences(document, parsed, workspaceIndex, 'definition', name).some(definition => definition.className === 'SynthDef');
+	walk(parsed.program, node => {
+		for (const synthDef of [getSynthDefName(node), ...getInstrumentNames(node)]) {
+			if (synthDef && !isSynthDefDefined(synthDef.name)) {
+				report('undefinedSynthDef', synthDef.node, `SynthDef '${synthDef.name}' is not defined in the workspace`);
+			}
+		}
+		if (node.type !== 'Call') {
+			return;
+		}
+		const definition = getDefinitionName(node);
+		const graph = node.args[1];
+		if (definition?.className === 'SynthDef' && graph?.type === 'Function' && graph.body.length > 0) {
+			let hasOutput = false;
+			walk(graph, child => {
+				hasOutput ||= child.type === 'ClassName' && OUTPUT_CLASSES.has(child.name);
+			});
+			if (!hasOutput) {
+				report('missingOutput', definition.node, `SynthDef '${definition.name}' has no Out.ar, it will not be heard`);
+			}
+		}
+	});
+
+	// SynthDefs whose controls are not all known cannot tell a misspelled key
+	for (const list of getControlLists(parsed, scopes)) {
+		const synthDefs = findSynthDefs(document, parsed, workspaceIndex, list.instrument.name);
+		if (synthDefs.length === 0 || synthDefs.some(synthDef => !synthDef.complete)) {
+			continue;
+		}
+		for (const key of list.keys) {
+			if (key.name && isUnknownControl(list, key.name, synthDefs)) {
+				report('unknownControl', key.node, `'${key.name}' is not a control of SynthDef '${list.instrument.name}'`);
+			}
+		}
+	}
+
+	return diagnostics;
+}
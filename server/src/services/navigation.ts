@@ -0,0 +1,177 @@
+/*---------------------------------------------------------------------------------------------
+ *  Go to definition and find references for locals, environment variables, SynthDef style
+ *  definition names, classes and methods.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Location, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ClassIndex } from '../data/classIndex';
+import { collectOccurrences, Occurrence, OccurrenceKind, WorkspaceIndex } from '../data/workspaceIndex';
+import { Call, getNodePath, Identifier, Literal, Node } from '../parser/ast';
+import { ParseResult } from '../parser/parser';
+import { Declaration, ScopeAnalysis } from '../parser/scope';
+import { DEFINITION_CLASSES } from './symbols';
+
+/** Classes whose first argument names an existing definition: `Synth(\name)` plays a SynthDef. */
+const DEFINITION_USERS: Record<string, string> = {
+	Synth: 'SynthDef'
+};
+
+/**
+ * The name under the cursor, with the offsets of its source text. A symbol's `className` is the
+ * kind of definition it names, when its context tells.
+ */
+export type NavigationTarget =
+	| { kind: 'local'; name: string; start: number; end: number; declaration: Declaration }
+	| { kind: 'environmentVariable'; name: string; start: number; end: number }
+	| { kind: 'symbol'; name: string; start: number; end: number; className?: string }
+	| { kind: 'class'; name: string; start: number; end: number }
+	| { kind: 'selector'; name: string; start: number; end: number; call?: Call; isClassMethod?: boolean };
+
+/** The definition class a symbol argument refers to: `SynthDef` for `Synth(\name)` or `\instrument, \name`. */
+function getSymbolContext(symbol: Literal, parent: Node | undefined): string | undefined {
+	if (parent?.type === 'Call' && parent.args[0] === symbol && parent.receiver?.type === 'ClassName') {
+		const className = parent.receiver.name;
+		return DEFINITION_CLASSES.has(className) ? className : DEFINITION_USERS[className];
+	}
+	if (parent?.type === 'KeywordArg' && parent.value === symbol && parent.name.name === 'instrument') {
+		return 'SynthDef';
+	}
+	const siblings = parent?.type === 'Call' ? parent.args : parent?.type === 'Array' ? parent.elements : [];
+	const previous = siblings[siblings.indexOf(symbol) - 1];
+	if (previous?.type === 'Literal' && previous.kind === 'symbol' && previous.value === 'instrument') {
+		return 'SynthDef';
+	}
+	return undefined;
+}
+
+export function getNavigationTarget(offset: number, parsed: ParseResult, scopes: ScopeAnalysis): NavigationTarget | undefined {
+	const path = getNodePath(parsed.program, offset);
+	const node = path[path.length - 1];
+	const parent = path[path.length - 2];
+	switch (node?.type) {
+		case 'Identifier': {
+			const declaration = scopes.bindings.get(node);
+			return declaration ? { kind: 'local', name: node.name, start: node.start, end: node.end, declaration } : undefined;
+		}
+		case 'EnvironmentVariable':
+			return { kind: 'environmentVariable', name: node.name, start: node.start, end: node.end };
+		case 'Literal':
+			if (node.kind === 'symbol' && typeof node.value === 'string' && node.value) {
+				return { kind: 'symbol', name: node.value, start: node.start, end: node.end, className: getSymbolContext(node, parent) };
+			}
+			// `SynthDef("name", ...)` names definitions with strings too
+			if (node.kind === 'string' && typeof node.value === 'string' && parent?.type === 'Call' && parent.args[0] === node) {
+				const className = getSymbolContext(node, parent);
+				if (className) {
+					return { kind: 'symbol', name: node.value, start: node.start, end: node.end, className };
+				}
+			}
+			return undefined;
+		case 'ClassName':
+			return { kind: 'class', name: node.name, start: node.start, end: node.end };
+		case 'Method':
+			if (node.nameStart <= offset && offset <= node.nameEnd) {
+				return { kind: 'selector', name: node.name, start: node.nameStart, end: node.nameEnd, isClassMethod: node.isClassMethod };
+			}
+			return undefined;
+		case 'Call':
+			if ((node.style === 'method' || node.style === 'function') && node.selector && node.selectorStart <= offset && offset <= node.selectorEnd) {
+				return { kind: 'selector', name: node.selector, start: node.selectorStart, end: node.selectorEnd, call: node };
+			}
+			return undefined;
+	}
+	return undefined;
+}
+
+function toLocation(document: TextDocument, node: Identifier): Location {
+	return { uri: document.uri, range: { start: document.positionAt(node.start), end: document.positionAt(node.end) } };
+}
+
+/** Occurrences across the workspace, including the current document when it is not a workspace file. */
+export function findOccurrences(document: TextDocument, parsed: ParseResult, workspaceIndex: WorkspaceIndex, kind: OccurrenceKind, name: string): Occurrence[] {
+	const occurrences = workspaceIndex.findOccurrences(kind, name);
+	if (!workspaceIndex.hasFile(document.uri)) {
+		occurrences.unshift(...collectOccurrences(document, parsed).filter(occurrence => occurrence.kind === kind && occurrence.name === name));
+	}
+	return occurrences;
+}
+
+export function sameLocation(a: Location, b: Location): boolean {
+	return a.uri === b.uri && a.range.start.line === b.range.start.line && a.range.start.character === b.range.start.character;
+}
+
+/** Definitions named `name`, those of `className` when there are any. */
+export function findDefinitions(document: TextDocument, parsed: ParseResult, workspaceIndex: WorkspaceIndex, name: string, className?: string): Occurrence[] {
+	const definitions = findOccurrences(document, parsed, workspaceIndex, 'definition', name);
+	const matching = definitions.filter(definition => definition.className === className);
+	return matching.length > 0 ? matching : definitions;
+}
+
+function findMethodDefinitions(target: Extract<NavigationTarget, { kind: 'selector' }>, classIndex: ClassIndex): Location[] {
+	const receiver = target.call?.receiver;
+	if (receiver?.type === 'ClassName') {
+		const method = classIndex.findMethod(receiver.name, target.name, true);
+		return method ? [method.location] : [];
+	}
+	if (target.isClassMethod) {
+		return classIndex.getClassNames()
+			.map(name => classIndex.getClass(name)!.classMethods.get(target.name)?.location)
+			.filter((location): location is Location => !!location);
+	}
+	return classIndex.findInstanceMethods(target.name).map(method => method.location);
+}
+
+export function findDefinition(document: TextDocument, position: Position, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex, workspaceIndex: WorkspaceIndex): Location[] {
+	const target = getNavigationTarget(document.offsetAt(position), parsed, scopes);
+	switch (target?.kind) {
+		case 'local':
+			return [toLocation(document, target.declaration.identifier)];
+		case 'environmentVariable':
+			return findOccurrences(document, parsed, workspaceIndex, 'environmentVariable', target.name)
+				.filter(occurrence => occurrence.declaration)
+				.map(occurrence => occurrence.location);
+		case 'symbol':
+			return findDefinitions(document, parsed, workspaceIndex, target.name, target.className).map(definition => definition.location);
+		case 'class': {
+			const location = classIndex.getClass(target.name)?.location;
+			return location ? [location] : [];
+		}
+		case 'selector':
+			return findMethodDefinitions(target, classIndex);
+	}
+	return [];
+}
+
+export function findReferences(document: TextDocument, position: Position, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex, workspaceIndex: WorkspaceIndex, includeDeclaration: boolean): Location[] {
+	const target = getNavigationTarget(document.offsetAt(position), parsed, scopes);
+	switch (target?.kind) {
+		case 'local': {
+			const { identifier, references } = target.declaration;
+			return (includeDeclaration ? [identifier, ...references] : references).map(node => toLocation(document, node));
+		}
+		case 'environmentVariable':
+			// Every assignment is as much a use as a read, there is no single declaration to leave out
+			return findOccurrences(document, parsed, workspaceIndex, 'environmentVariable', target.name).map(occurrence => occurrence.location);
+		case 'symbol': {
+			const definitions = findDefinitions(document, parsed, workspaceIndex, target.name, target.className).map(definition => definition.location);
+			const uses = findOccurrences(document, parsed, workspaceIndex, 'symbol', target.name)
+				.map(occurrence => occurrence.location)
+				.filter(location => !definitions.some(definition => sameLocation(definition, location)));
+			return includeDeclaration ? [...definitions, ...uses] : uses;
+		}
+		case 'class':
+		case 'selector': {
+			const occurrences = findOccurrences(document, parsed, workspaceIndex, target.kind, target.name)
+				.filter(occurrence => includeDeclaration || !occurrence.declaration)
+				.map(occurrence => occurrence.location);
+			if (includeDeclaration) {
+				// Declarations in the class library, outside the workspace
+				const declarations = target.kind === 'class' ? findDefinition(document, position, parsed, scopes, classIndex, workspaceIndex) : findMethodDefinitions(target, classIndex);
+				occurrences.unshift(...declarations.filter(declaration => !occurrences.some(location => sameLocation(location, declaration))));
+			}
+			return occurrences;
+		}
+	}
+	return [];
+}
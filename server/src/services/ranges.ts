@@ -0,0 +1,164 @@
+/*---------------------------------------------------------------------------------------------
+ *  Folding ranges for regions, functions, collections, argument lists and comments, and
+ *  selection ranges that grow along the syntax tree.
+ *--------------------------------------------------------------------------------------------*/
+
+import { FoldingRange, FoldingRangeKind, Position, SelectionRange } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getNodePath, Node, walk } from '../parser/ast';
+import { ParseResult } from '../parser/parser';
+
+const REGION_START = /^\/\/\s*#?region\b/;
+const REGION_END = /^\/\/\s*#?endregion\b/;
+
+interface Span {
+	start: number;
+	end: number;
+}
+
+/** The span inside the brackets of a node: statements, elements or arguments. */
+function getContents(node: Node): Span | undefined {
+	let first: Span | undefined;
+	let last: Span | undefined;
+	switch (node.type) {
+		case 'Function':
+			first = node.params ?? node.body[0];
+			last = node.body[node.body.length - 1] ?? node.params;
+			break;
+		case 'Block':
+			[first, last] = [node.body[0], node.body[node.body.length - 1]];
+			break;
+		case 'Array':
+			[first, last] = [node.elements[0], node.elements[node.elements.length - 1]];
+			break;
+		case 'Event':
+			[first, last] = [node.entries[0], node.entries[node.entries.length - 1]];
+			break;
+		case 'Call':
+			// Trailing function arguments are outside the parentheses
+			[first, last] = [node.args[0], node.args[node.args.length - 1]];
+			break;
+	}
+	return first && last ? { start: first.start, end: last.end } : undefined;
+}
+
+/**
+ * Folds brackets spanning several lines, leaving the line of the closing bracket visible, block
+ * comments, runs of line comments and `// region` markers. Only the first range starting on a
+ * line folds, the outermost one.
+ */
+export function getFoldingRanges(document: TextDocument, parsed: ParseResult): FoldingRange[] {
+	const ranges: FoldingRange[] = [];
+	const startLines = new Set<number>();
+	const add = (start: number, endLine: number, kind?: FoldingRangeKind) => {
+		const startLine = document.positionAt(start).line;
+		if (endLine > startLine && !startLines.has(startLine)) {
+			startLines.add(startLine);
+			ranges.push({ startLine, endLine, kind });
+		}
+	};
+	const addBrackets = (open: number, close: number, kind?: FoldingRangeKind) => {
+		add(open, document.positionAt(close).line - 1, kind);
+	};
+
+	walk(parsed.program, (node, parent) => {
+		switch (node.type) {
+			case 'Block':
+				// Top-level parentheses are the regions evaluated as a whole
+				addBrackets(node.start, node.end - 1, parent?.type === 'Program' ? FoldingRangeKind.Region : undefined);
+				break;
+			case 'Function':
+			case 'Array':
+			case 'Event':
+			case 'ClassDef':
+			case 'ClassExtension':
+			case 'Method':
+				addBrackets(node.start, node.end - 1);
+				break;
+			case 'Call':
+				if (node.openParen !== undefined && node.closeParen !== undefined) {
+					addBrackets(node.openParen, node.closeParen);
+				}
+				break;
+		}
+	});
+
+	// `// region` and `// endregion` markers, as in the language configuration
+	const markers: number[] = [];
+	let run: { start: number; line: number } | undefined;
+	const endRun = () => {
+		if (run) {
+			add(run.start, run.line, FoldingRangeKind.Comment);
+		}
+		run = undefined;
+	};
+	for (const comment of parsed.comments) {
+		if (comment.kind === 'block') {
+			endRun();
+			add(comment.start, document.positionAt(comment.end).line, FoldingRangeKind.Comment);
+			continue;
+		}
+		// Line comments on lines of their own fold together when each is on the line after the previous one
+		const position = document.positionAt(comment.start);
+		const line = position.line;
+		if (document.getText({ start: { line, character: 0 }, end: position }).trim()) {
+			endRun();
+		} else if (REGION_START.test(comment.text)) {
+			endRun();
+			markers.push(comment.start);
+		} else if (REGION_END.test(comment.text)) {
+			endRun();
+			const start = markers.pop();
+			if (start !== undefined) {
+				add(start, line, FoldingRangeKind.Region);
+			}
+		} else if (run && line === run.line + 1) {
+			run.line = line;
+		} else {
+			endRun();
+			run = { start: comment.start, line };
+		}
+	}
+	endRun();
+
+	return ranges.sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Selection ranges from the token at each position outwards: the argument, the argument list,
+ * the call, the statement, the function body, the function and the region, as the tree nests.
+ */
+export function getSelectionRanges(document: TextDocument, positions: Position[], parsed: ParseResult): SelectionRange[] {
+	return positions.map(position => {
+		const offset = document.offsetAt(position);
+		// Outermost first
+		const spans: Span[] = [{ start: 0, end: document.getText().length }];
+		for (const node of getNodePath(parsed.program, offset)) {
+			spans.push(node);
+			const contents = getContents(node);
+			if (contents) {
+				spans.push(contents);
+			}
+			if (node.type === 'Call' && node.selector) {
+				spans.push({ start: node.selectorStart, end: node.selectorEnd });
+			} else if (node.type === 'Method') {
+				spans.push({ start: node.nameStart, end: node.nameEnd });
+			}
+		}
+		const comment = parsed.comments.find(comment => comment.start <= offset && offset <= comment.end);
+		if (comment) {
+			spans.push(comment);
+		}
+
+		let range: SelectionRange | undefined;
+		let outer: Span | undefined;
+		for (const span of spans) {
+			const nested = !outer || outer.start <= span.start && span.end <= outer.end && (outer.start !== span.start || outer.end !== span.end);
+			if (span.start <= offset && offset <= span.end && span.end > span.start && nested) {
+				range = { range: { start: document.positionAt(span.start), end: document.positionAt(span.end) }, parent: range };
+				outer = span;
+			}
+		}
+		return range!;
+	});
+}
@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Rename for locals within their function, environment variables across the workspace and
+ *  SynthDef/Pdef/Ndef names wherever they are used as symbols.
+ *--------------------------------------------------------------------------------------------*/
+
+import { ErrorCodes, Position, Range, ResponseError, TextEdit, WorkspaceEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { WorkspaceIndex } from '../data/workspaceIndex';
+import { walk } from '../parser/ast';
+import { KEYWORDS, PSEUDO_VARIABLES } from '../parser/lexer';
+import { ParseResult } from '../parser/parser';
+import { Declaration, ScopeAnalysis } from '../parser/scope';
+import { findDefinitions, findOccurrences, getNavigationTarget, NavigationTarget, sameLocation } from './navigation';
+
+type RenameTarget = Extract<NavigationTarget, { kind: 'local' | 'environmentVariable' | 'symbol' }>;
+
+function getRenameTarget(document: TextDocument, position: Position, parsed: ParseResult, scopes: ScopeAnalysis, workspaceIndex: WorkspaceIndex): RenameTarget | undefined {
+	const target = getNavigationTarget(document.offsetAt(position), parsed, scopes);
+	switch (target?.kind) {
+		case 'local':
+		case 'environmentVariable':
+			return target;
+		case 'symbol':
+			// Only definition names, renaming every `\freq` of the workspace is not what anyone wants
+			return findDefinitions(document, parsed, workspaceIndex, target.name, target.className).length > 0 ? target : undefined;
+	}
+	return undefined;
+}
+
+function isVariableName(name: string): boolean {
+	return /^[a-z]\w*$/.test(name) && !KEYWORDS.has(name) && !PSEUDO_VARIABLES.has(name);
+}
+
+/** Writes `name` in the style of the literal `raw`, quoting it when it cannot be written bare. */
+function formatSymbol(raw: string, name: string): string {
+	const quote = (ch: string) => ch + name.replace(/\\/g, '\\\\').split(ch).join('\\' + ch) + ch;
+	if (raw.startsWith('"')) {
+		return quote('"');
+	}
+	if (raw.startsWith('\\') && /^\w+$/.test(name)) {
+		return '\\' + name;
+	}
+	// Bare names in `#[ ]` literal arrays
+	if (!raw.startsWith('\'') && !raw.startsWith('\\') && /^[a-zA-Z]\w*$/.test(name)) {
+		return name;
+	}
+	return quote('\'');
+}
+
+/** Fails when renaming `declaration` to `newName` would capture or shadow another variable. */
+function checkLocalConflicts(declaration: Declaration, newName: string): void {
+	let conflict = false;
+	walk(declaration.scope.node, node => {
+		conflict ||= node.type === 'Identifier' && node.name === newName;
+		return !conflict;
+	});
+	if (conflict) {
+		throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is already used in this scope`);
+	}
+}
+
+function addEdit(edits: WorkspaceEdit, uri: string, edit: TextEdit): void {
+	edits.changes![uri] ??= [];
+	edits.changes![uri].push(edit);
+}
+
+export function prepareRename(document: TextDocument, position: Position, parsed: ParseResult, scopes: ScopeAnalysis, workspaceIndex: WorkspaceIndex): { range: Range; placeholder: string } | null {
+	const target = getRenameTarget(document, position, parsed, scopes, workspaceIndex);
+	if (!target) {
+		return null;
+	}
+	// The `~` of environment variables stays out of the edited name
+	const start = target.kind === 'environmentVariable' ? target.start + 1 : target.start;
+	return {
+		range: { start: document.positionAt(start), end: document.positionAt(target.end) },
+		placeholder: target.name
+	};
+}
+
+export function doRename(document: TextDocument, position: Position, newName: string, parsed: ParseResult, scopes: ScopeAnalysis, workspaceIndex: WorkspaceIndex): WorkspaceEdit | null {
+	const target = getRenameTarget(document, position, parsed, scopes, workspaceIndex);
+	if (!target) {
+		return null;
+	}
+	const edits: WorkspaceEdit = { changes: {} };
+	switch (target.kind) {
+		case 'local': {
+			if (!isVariableName(newName)) {
+				throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not a valid variable name`);
+			}
+			checkLocalConflicts(target.declaration, newName);
+			for (const identifier of [target.declaration.identifier, ...target.declaration.references]) {
+				addEdit(edits, document.uri, TextEdit.replace({ start: document.positionAt(identifier.start), end: document.positionAt(identifier.end) }, newName));
+			}
+			break;
+		}
+		case 'environmentVariable': {
+			const name = newName.replace(/^~/, '');
+			if (!isVariableName(name)) {
+				throw new ResponseError(ErrorCodes.InvalidParams, `'~${name}' is not a valid environment variable name`);
+			}
+			for (const { location } of findOccurrences(document, parsed, workspaceIndex, 'environmentVariable', target.name)) {
+				const start = { line: location.range.start.line, character: location.range.start.character + 1 };
+				addEdit(edits, location.uri, TextEdit.replace({ start, end: location.range.end }, name));
+			}
+			break;
+		}
+		case 'symbol': {
+			const name = newName.replace(/^\\/, '');
+			if (!name) {
+				throw new ResponseError(ErrorCodes.InvalidParams, 'The new name is empty');
+			}
+			const definitions = findOccurrences(document, parsed, workspaceIndex, 'definition', target.name);
+			const symbols = findOccurrences(document, parsed, workspaceIndex, 'symbol', target.name)
+				.filter(symbol => !definitions.some(definition => sameLocation(definition.location, symbol.location)));
+			for (const { location, raw } of [...definitions, ...symbols]) {
+				addEdit(edits, location.uri, TextEdit.replace(location.range, formatSymbol(raw ?? '\\', name)));
+			}
+			break;
+		}
+	}
+	return edits;
+}
@@ -0,0 +1,149 @@
+/*---------------------------------------------------------------------------------------------
+ *  Semantic tokens: variables by their declaration, known and unknown classes, class and
+ *  instance method calls, SynthDef names and UGen rates.
+ *--------------------------------------------------------------------------------------------*/
+
+import { SemanticTokensLegend } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SC_CLASSES } from '../data/builtins';
+import { ClassIndex } from '../data/classIndex';
+import { ClassDef, ClassExtension, walk } from '../parser/ast';
+import { ParseResult } from '../parser/parser';
+import { isInterpreterVariable, ScopeAnalysis } from '../parser/scope';
+import { getDefinitionName } from './symbols';
+import { getInstrumentNames, getSynthDefName } from './synthDefs';
+
+/**
+ * Standard token types and modifiers, with `environmentVariable`, `synthDef`, `unknown` and
+ * `rate` declared by the extension. Interpreter variables `a`-`z` are `defaultLibrary` variables.
+ */
+const TOKEN_TYPES = ['class', 'method', 'parameter', 'variable', 'property', 'environmentVariable', 'synthDef'] as const;
+const TOKEN_MODIFIERS = ['declaration', 'readonly', 'static', 'defaultLibrary', 'unknown', 'rate'] as const;
+
+type TokenType = typeof TOKEN_TYPES[number];
+type TokenModifier = typeof TOKEN_MODIFIERS[number];
+
+export const semanticTokensLegend: SemanticTokensLegend = {
+	tokenTypes: [...TOKEN_TYPES],
+	tokenModifiers: [...TOKEN_MODIFIERS]
+};
+
+/** A token in the encoding of the legend, in document order. */
+export interface SemanticToken {
+	line: number;
+	character: number;
+	length: number;
+	tokenType: number;
+	tokenModifiers: number;
+}
+
+/** Rate selectors of unit generators. */
+const RATES = new Set(['ar', 'kr', 'ir', 'dr']);
+
+export function getSemanticTokens(document: TextDocument, parsed: ParseResult, scopes: ScopeAnalysis, classIndex: ClassIndex): SemanticToken[] {
+	const found: { start: number; end: number; type: TokenType; modifiers: TokenModifier[] }[] = [];
+	const add = (node: { start: number; end: number }, type: TokenType, ...modifiers: TokenModifier[]) => {
+		found.push({ start: node.start, end: node.end, type, modifiers });
+	};
+
+	const classes = parsed.program.body.filter((node): node is ClassDef | ClassExtension => node.type === 'ClassDef' || node.type === 'ClassExtension');
+	const known = new Set([...SC_CLASSES, ...classes.map(node => node.name.name)]);
+	// Without a class library every class would be unknown
+	const isUnknownClass = (name: string) => classIndex.getClassNames().length > 0 && !known.has(name) && !classIndex.getClass(name);
+
+	for (const [identifier, declaration] of scopes.bindings) {
+		const modifiers: TokenModifier[] = declaration.identifier === identifier ? ['declaration'] : [];
+		switch (declaration.kind) {
+			case 'arg':
+				add(identifier, 'parameter', ...modifiers);
+				break;
+			case 'var':
+				add(identifier, 'variable', ...modifiers);
+				break;
+			case 'instvar':
+				add(identifier, 'property', ...modifiers);
+				break;
+			case 'classvar':
+				add(identifier, 'property', 'static', ...modifiers);
+				break;
+			case 'const':
+				add(identifier, 'property', 'static', 'readonly', ...modifiers);
+				break;
+		}
+	}
+	for (const identifier of scopes.unresolved) {
+		// Class file methods also see the variables their class inherits
+		if (classes.some(node => node.start <= identifier.start && identifier.end <= node.end)) {
+			add(identifier, 'property');
+		} else if (isInterpreterVariable(identifier.name)) {
+			add(identifier, 'variable', 'defaultLibrary');
+		} else {
+			add(identifier, 'variable', 'unknown');
+		}
+	}
+
+	walk(parsed.program, node => {
+		switch (node.type) {
+			case 'ClassName':
+				if (isUnknownClass(node.name)) {
+					add(node, 'class', 'unknown');
+				} else {
+					add(node, 'class');
+				}
+				break;
+			case 'ClassDef':
+				add(node.name, 'class', 'declaration');
+				break;
+			case 'Method':
+				add({ start: node.nameStart, end: node.nameEnd }, 'method', 'declaration', ...(node.isClassMethod ? ['static' as const] : []));
+				break;
+			case 'EnvironmentVariable':
+				add(node, 'environmentVariable');
+				break;
+			case 'Call': {
+				if (node.style === 'method' || node.style === 'function') {
+					const selector = { start: node.selectorStart, end: node.selectorEnd };
+					if (node.receiver?.type === 'ClassName' && node.style === 'method') {
+						add(selector, 'method', 'static', ...(RATES.has(node.selector) ? ['rate' as const] : []));
+					} else {
+						add(selector, 'method');
+					}
+				}
+				const definition = getDefinitionName(node);
+				if (definition?.className === 'SynthDef') {
+					add(definition.node, 'synthDef', 'declaration');
+				}
+				break;
+			}
+		}
+		const synthDef = getSynthDefName(node);
+		if (synthDef) {
+			add(synthDef.node, 'synthDef');
+		}
+		getInstrumentNames(node).forEach(instrument => add(instrument.node, 'synthDef'));
+	});
+
+	// In document order, without overlaps such as a class declaration also seen as a class name
+	found.sort((a, b) => a.start - b.start);
+	const tokens: SemanticToken[] = [];
+	let end = 0;
+	for (const token of found) {
+		if (token.start < end || token.end <= token.start) {
+			continue;
+		}
+		const start = document.positionAt(token.start);
+		// Tokens cannot span lines
+		if (document.positionAt(token.end).line !== start.line) {
+			continue;
+		}
+		tokens.push({
+			line: start.line,
+			character: start.character,
+			length: token.end - token.start,
+			tokenType: TOKEN_TYPES.indexOf(token.type),
+			tokenModifiers: token.modifiers.reduce((bits, modifier) => bits | 1 << TOKEN_MODIFIERS.indexOf(modifier), 0)
+		});
+		end = token.end;
+	}
+	return tokens;
+}
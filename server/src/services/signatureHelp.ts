@@ -0,0 +1,182 @@
+/*---------------------------------------------------------------------------------------------
+ *  Signature help and argument name inlay hints for method calls.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	InlayHint,
+	InlayHintKind,
+	MarkupKind,
+	Position,
+	Range,
+	SignatureHelp,
+	SignatureInformation
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CLASS_DOCS, METHOD_DOCS } from '../data/builtins';
+import { formatSignature, MethodSignature, SignatureDatabase } from '../data/signatures';
+import { Call, Expression, walk } from '../parser/ast';
+import { isInCommentOrString, ParseResult } from '../parser/parser';
+
+/** Best guess at the class of a receiver that is written as a literal. */
+function getLiteralClass(receiver: Expression): string | undefined {
+	switch (receiver.type) {
+		case 'Literal':
+			return receiver.kind === 'number' ? 'SimpleNumber' : undefined;
+		case 'Function':
+			return 'Function';
+		case 'Array':
+			return 'Collection';
+	}
+	return undefined;
+}
+
+/**
+ * The signatures a call may resolve to. `Foo(...)` and `Foo.bar(...)` are class methods of `Foo`;
+ * other sends are matched by selector, narrowed to the receiver's class when it is evident.
+ */
+export function resolveSignatures(call: Call, signatures: SignatureDatabase): MethodSignature[] {
+	if (call.receiver?.type === 'ClassName') {
+		const signature = signatures.lookup(call.receiver.name, call.selector, true);
+		return signature ? [signature] : [];
+	}
+	if (call.style === 'function' || call.style === 'method') {
+		const literalClass = call.receiver && getLiteralClass(call.receiver);
+		const signature = literalClass && signatures.lookup(literalClass, call.selector, false);
+		return signature ? [signature] : signatures.findInstanceMethods(call.selector);
+	}
+	return [];
+}
+
+/** Drops signatures whose arguments repeat an earlier one's, as with a selector overridden in subclasses. */
+function withDistinctArguments(candidates: MethodSignature[]): MethodSignature[] {
+	const seen = new Set<string>();
+	return candidates.filter(signature => {
+		const key = signature.args.map(arg => `${arg.rest ? '...' : ''}${arg.name}=${arg.defaultValue ?? ''}`).join(',');
+		if (seen.has(key)) {
+			return false;
+		}
+		seen.add(key);
+		return true;
+	});
+}
+
+/** Maps an argument index to its parameter, `foo(a, b)` passing `a` as the receiver. */
+export function getParameterIndex(call: Call, argIndex: number): number {
+	return call.style === 'function' ? argIndex - 1 : argIndex;
+}
+
+/** The parameters of a call, when its candidate signatures agree on their names. Overrides may differ in defaults. */
+export function getCallParameters(call: Call, signatures: SignatureDatabase): MethodSignature['args'] | undefined {
+	const candidates = resolveSignatures(call, signatures);
+	if (new Set(candidates.map(signature => signature.args.map(arg => arg.name).join(','))).size !== 1) {
+		return undefined;
+	}
+	return candidates[0].args;
+}
+
+function findEnclosingCall(parsed: ParseResult, offset: number): Call | undefined {
+	let found: Call | undefined;
+	walk(parsed.program, node => {
+		if (node.start > offset) {
+			return false;
+		}
+		if (node.type === 'Call' && node.openParen !== undefined && node.openParen < offset &&
+			(node.closeParen === undefined || offset <= node.closeParen) &&
+			(!found || node.openParen > found.openParen!)) {
+			found = node;
+		}
+	});
+	return found;
+}
+
+function getActiveParameter(call: Call, signature: MethodSignature, offset: number): number {
+	const argIndex = call.separators.filter(separator => separator < offset).length;
+	const arg = call.args[argIndex];
+	if (arg?.type === 'KeywordArg') {
+		const index = signature.args.findIndex(param => param.name === arg.name.name);
+		if (index >= 0) {
+			return index;
+		}
+	}
+	const index = getParameterIndex(call, argIndex);
+	const last = signature.args.length - 1;
+	return last >= 0 && signature.args[last].rest && index > last ? last : index;
+}
+
+function toSignatureInformation(call: Call, signature: MethodSignature): SignatureInformation {
+	// Function call syntax passes the receiver first: `linlin(x, 0, 1, 0, 100)`
+	const { label, ranges } = call.style === 'function'
+		? formatSignature({ ...signature, args: [{ name: 'receiver' }, ...signature.args] }, signature.selector)
+		: formatSignature(signature);
+	const documentation = METHOD_DOCS[signature.selector] ?? CLASS_DOCS[signature.className];
+	return {
+		label,
+		parameters: ranges.map(range => ({ label: range })),
+		documentation: documentation && { kind: MarkupKind.Markdown, value: documentation }
+	};
+}
+
+export function doSignatureHelp(document: TextDocument, position: Position, parsed: ParseResult, signatures: SignatureDatabase): SignatureHelp | null {
+	const offset = document.offsetAt(position);
+	if (isInCommentOrString(parsed, offset)) {
+		return null;
+	}
+	const call = findEnclosingCall(parsed, offset);
+	if (!call) {
+		return null;
+	}
+	const candidates = withDistinctArguments(resolveSignatures(call, signatures));
+	if (candidates.length === 0) {
+		return null;
+	}
+	const information = candidates.map(signature => toSignatureInformation(call, signature));
+	const activeSignature = 0;
+	let activeParameter = getActiveParameter(call, candidates[activeSignature], offset);
+	if (call.style === 'function') {
+		activeParameter++;
+	}
+	return { signatures: information, activeSignature, activeParameter };
+}
+
+/**
+ * Labels positional arguments with their parameter names. Arguments that already read as the
+ * parameter name, calls with several candidate signatures and arguments after the first keyword
+ * argument are left alone.
+ */
+export function getInlayHints(document: TextDocument, range: Range, parsed: ParseResult, signatures: SignatureDatabase): InlayHint[] {
+	const start = document.offsetAt(range.start);
+	const end = document.offsetAt(range.end);
+	const hints: InlayHint[] = [];
+	walk(parsed.program, node => {
+		if (node.end < start || node.start > end) {
+			return false;
+		}
+		if (node.type !== 'Call' || node.openParen === undefined) {
+			return;
+		}
+		const params = getCallParameters(node, signatures);
+		if (!params) {
+			return;
+		}
+		const given = new Set(node.args.map(arg => arg.type === 'KeywordArg' ? arg.name.name : undefined));
+		for (let i = 0; i < node.args.length; i++) {
+			const arg = node.args[i];
+			// `*args` fills the remaining parameters
+			if (arg.type === 'KeywordArg' || arg.type === 'UnaryOp' && arg.operator === '*') {
+				break;
+			}
+			const param = params[getParameterIndex(node, i)];
+			if (!param || param.rest || given.has(param.name) || arg.type === 'Error' ||
+				(arg.type === 'Identifier' && arg.name === param.name) || arg.start < start || arg.start > end) {
+				continue;
+			}
+			hints.push({
+				position: document.positionAt(arg.start),
+				label: `${param.name}:`,
+				kind: InlayHintKind.Parameter,
+				paddingRight: true
+			});
+		}
+	});
+	return hints;
+}
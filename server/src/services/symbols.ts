@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+ *  Document outline: code regions, SynthDef and Pdef style definitions, environment variables
+ *  and the classes and methods of class files.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Block, Call, ClassDef, ClassExtension, Expression, getChildren, MethodDef, Node } from '../parser/ast';
+import { Comment } from '../parser/lexer';
+import { ParseResult } from '../parser/parser';
+
+/** Classes whose `Foo(\name, ...)` instances are named definitions. */
+export const DEFINITION_CLASSES = new Set([
+	'SynthDef', 'Pdef', 'Ndef', 'Tdef', 'Pbindef', 'OSCdef', 'MIDIdef', 'HIDdef', 'Fdef'
+]);
+
+const MAX_NAME_LENGTH = 60;
+
+/** The `\name` a definition such as `SynthDef(\name, { })` or `Pdef(\name, ...)` declares. */
+export function getDefinitionName(call: Call): { className: string; name: string; node: Expression } | undefined {
+	if (call.receiver?.type !== 'ClassName' || !DEFINITION_CLASSES.has(call.receiver.name) || call.selector !== 'new') {
+		return undefined;
+	}
+	// A lone `Pdef(\name)` refers to an existing definition
+	const [name, value] = call.args;
+	if (!value || name?.type !== 'Literal' || (name.kind !== 'symbol' && name.kind !== 'string') || typeof name.value !== 'string') {
+		return undefined;
+	}
+	return { className: call.receiver.name, name: name.value, node: name };
+}
+
+function commentText(comment: Comment): string {
+	const lines = comment.text
+		.replace(/^\/\/+|^\/\*+|\*+\/$/g, '')
+		.split('\n')
+		.map(line => line.replace(/^\s*\*?\s*/, '').trim())
+		.filter(line => line);
+	return lines[0] ?? '';
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_NAME_LENGTH ? text.substring(0, MAX_NAME_LENGTH - 1) + '…' : text;
+}
+
+/**
+ * Names a region after its first comment, looking inside the parentheses before any code and
+ * then at the line comment just above them. Uncommented regions show their first line of code.
+ */
+function getRegionName(document: TextDocument, parsed: ParseResult, region: Block): string {
+	const text = document.getText();
+	const codeStart = region.body[0]?.start ?? region.end;
+	const inside = parsed.comments.find(comment => comment.start > region.start && comment.start < codeStart && commentText(comment));
+	if (inside) {
+		return truncate(commentText(inside));
+	}
+	const above = parsed.comments.filter(comment => comment.end <= region.start && !text.substring(comment.end, region.start).trim()).pop();
+	if (above && commentText(above)) {
+		return truncate(commentText(above));
+	}
+	const codeEnd = region.body[region.body.length - 1]?.end ?? codeStart;
+	const firstLine = text.substring(codeStart, codeEnd).split('\n')[0].trim();
+	return truncate(firstLine || '( )');
+}
+
+function symbol(document: TextDocument, name: string, detail: string | undefined, kind: SymbolKind, node: Node, selection: { start: number; end: number }): DocumentSymbol {
+	return {
+		name,
+		detail,
+		kind,
+		range: { start: document.positionAt(node.start), end: document.positionAt(node.end) },
+		selectionRange: { start: document.positionAt(selection.start), end: document.positionAt(selection.end) },
+		children: []
+	};
+}
+
+/** A short description of an assigned value: its class or `function`. */
+function describeValue(value: Expression): string | undefined {
+	switch (value.type) {
+		case 'Function':
+			return 'function';
+		case 'Call': {
+			let receiver: Expression | undefined = value;
+			while (receiver?.type === 'Call') {
+				receiver = receiver.receiver;
+			}
+			return receiver?.type === 'ClassName' ? receiver.name : undefined;
+		}
+		case 'Literal':
+			return value.kind;
+		case 'Array':
+			return 'array';
+	}
+	return undefined;
+}
+
+function methodSymbol(document: TextDocument, method: MethodDef): DocumentSymbol {
+	return symbol(
+		document,
+		method.isClassMethod ? `*${method.name}` : method.name,
+		method.isClassMethod ? 'class method' : undefined,
+		method.name.startsWith('new') ? SymbolKind.Constructor : SymbolKind.Method,
+		method,
+		{ start: method.nameStart, end: method.nameEnd }
+	);
+}
+
+function classSymbol(document: TextDocument, node: ClassDef | ClassExtension): DocumentSymbol {
+	if (node.type === 'ClassExtension') {
+		const extension = symbol(document, `+ ${node.name.name}`, 'extension', SymbolKind.Class, node, node.name);
+		extension.children = node.methods.map(method => methodSymbol(document, method));
+		return extension;
+	}
+	const result = symbol(document, node.name.name, node.superclass?.name, SymbolKind.Class, node, node.name);
+	for (const decl of node.vars) {
+		for (const declarator of decl.declarators) {
+			const accessors = `${declarator.getter ? '<' : ''}${declarator.setter ? '>' : ''}`;
+			result.children!.push(symbol(
+				document,
+				declarator.name.name,
+				`${decl.kind}${accessors ? ' ' + accessors : ''}`,
+				decl.kind === 'const' ? SymbolKind.Constant : SymbolKind.Field,
+				declarator,
+				declarator.name
+			));
+		}
+	}
+	result.children!.push(...node.methods.map(method => methodSymbol(document, method)));
+	return result;
+}
+
+export function findDocumentSymbols(document: TextDocument, parsed: ParseResult): DocumentSymbol[] {
+	const symbols: DocumentSymbol[] = [];
+
+	// `inFunction` leaves out environment variables assigned while a function runs, such as loop counters
+	const visit = (node: Node, container: DocumentSymbol[], inFunction: boolean): void => {
+		let children = container;
+		if (node.type === 'ClassDef' || node.type === 'ClassExtension') {
+			container.push(classSymbol(document, node));
+			return;
+		}
+		if (node.type === 'Block' && container === symbols) {
+			const region = symbol(document, getRegionName(document, parsed, node), undefined, SymbolKind.Namespace, node, { start: node.start, end: node.start + 1 });
+			container.push(region);
+			children = region.children!;
+		} else if (node.type === 'Call') {
+			const definition = getDefinitionName(node);
+			if (definition) {
+				const kind = definition.className === 'SynthDef' ? SymbolKind.Function : SymbolKind.Object;
+				const result = symbol(document, definition.name, definition.className, kind, node, definition.node);
+				container.push(result);
+				children = result.children!;
+			}
+		} else if (node.type === 'Assignment' && node.target.type === 'EnvironmentVariable' && !inFunction) {
+			const name = `~${node.target.name}`;
+			if (!container.some(existing => existing.name === name)) {
+				const kind = node.value.type === 'Function' ? SymbolKind.Function : SymbolKind.Variable;
+				const result = symbol(document, name, describeValue(node.value), kind, node, node.target);
+				container.push(result);
+				children = result.children!;
+			}
+		}
+		const nowInFunction = inFunction || node.type === 'Function';
+		for (const child of getChildren(node)) {
+			visit(child, children, nowInFunction);
+		}
+	};
+
+	for (const statement of parsed.program.body) {
+		visit(statement, symbols, false);
+	}
+	return symbols;
+}
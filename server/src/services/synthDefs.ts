@@ -0,0 +1,254 @@
+/*---------------------------------------------------------------------------------------------
+ *  SynthDef controls: the names and defaults of the controls each SynthDef declares, and the
+ *  control keys set by `Synth(\name, [...])`, `.set(...)` and `Pbind(\instrument, \name, ...)`.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { WorkspaceIndex } from '../data/workspaceIndex';
+import { Expression, KeywordArg, Node, walk } from '../parser/ast';
+import { ParseResult } from '../parser/parser';
+import { Declaration, isInterpreterVariable, ScopeAnalysis } from '../parser/scope';
+import { getDefinitionName } from './symbols';
+
+export interface SynthDefControl {
+	name: string;
+	/** Source text of the default value. */
+	defaultValue?: string;
+	rate: string;
+}
+
+export interface SynthDefInfo {
+	name: string;
+	controls: SynthDefControl[];
+	location: Location;
+	/**
+	 * False when some controls are only known once the SynthDef is built: names computed at run
+	 * time, `Control.names`, `SynthDef.wrap` or a graph function that is not written in place.
+	 */
+	complete: boolean;
+}
+
+/** Keys and values setting the controls of a SynthDef. */
+export interface ControlList {
+	/** The SynthDef name, as written in the code. */
+	instrument: { name: string; node: Node };
+	/** The keys, each a symbol or the name of a `key: value` pair. */
+	keys: { name: string; node: Node }[];
+	/** Patterns and events also take the keys of the default event, such as `\dur` and `\degree`. */
+	event: boolean;
+}
+
+/** `Synth` creation methods, with the position of the SynthDef name among their arguments. */
+const SYNTH_METHODS: Record<string, number> = {
+	new: 0,
+	grain: 0,
+	newPaused: 0,
+	head: 1,
+	tail: 1,
+	before: 1,
+	after: 1,
+	replace: 1
+};
+
+/** Selectors of `\name.kr(default)` and `NamedControl.kr(\name, default)`. */
+const NAMED_CONTROL_RATES = new Set(['ar', 'kr', 'ir', 'tr']);
+
+/** Classes building controls from arrays of names. */
+const CONTROL_CLASSES = new Set(['Control', 'AudioControl', 'TrigControl', 'LagControl']);
+
+/** Keys the default event uses for itself, besides the controls of its instrument. */
+const EVENT_KEYS = new Set([
+	'instrument', 'type', 'dur', 'delta', 'stretch', 'legato', 'sustain', 'lag', 'timingOffset', 'strum', 'strumEndsTogether',
+	'degree', 'note', 'midinote', 'freq', 'detune', 'harmonic', 'octave', 'root', 'scale', 'tuning', 'mtranspose',
+	'gtranspose', 'ctranspose', 'stepsPerOctave', 'octaveRatio', 'amp', 'db', 'velocity', 'pan', 'out', 'group',
+	'addAction', 'server', 'id', 'args', 'hasGate', 'sendGate', 'variant', 'tempo', 'latency', 'finish', 'callback',
+	'isRest', 'chan', 'midicmd', 'midiout', 'ctlNum', 'control', 'bend', 'polyTouch', 'hold'
+]);
+
+/** The rate of an argument control, which names starting `a_`, `i_` and `t_` change. */
+function getArgumentRate(name: string): string {
+	return { a_: 'ar', i_: 'ir', t_: 'tr' }[name.substring(0, 2)] ?? 'kr';
+}
+
+/** The SynthDef name of `Synth(\name)` and the other `Synth` creation methods. */
+export function getSynthDefName(call: Node): { name: string; node: Node } | undefined {
+	if (call.type !== 'Call' || call.receiver?.type !== 'ClassName' || call.receiver.name !== 'Synth') {
+		return undefined;
+	}
+	const index = SYNTH_METHODS[call.selector];
+	const name = index === undefined ? undefined : call.args[index];
+	if (name?.type !== 'Literal' || name.kind !== 'symbol' || typeof name.value !== 'string') {
+		return undefined;
+	}
+	return { name: name.value, node: name };
+}
+
+/** `\instrument, \name` pairs of patterns and `instrument: \name` events. */
+export function getInstrumentNames(node: Node): { name: string; node: Node }[] {
+	const elements = node.type === 'Call' ? node.args : node.type === 'Array' ? node.elements : node.type === 'Event' ? node.entries : [];
+	const names: { name: string; node: Node }[] = [];
+	elements.forEach((element, index) => {
+		const value = element.type === 'KeywordArg' && element.name.name === 'instrument' ? element.value : undefined;
+		const previous = elements[index - 1];
+		const paired = previous?.type === 'Literal' && previous.kind === 'symbol' && previous.value === 'instrument' ? element : undefined;
+		const name = value ?? paired;
+		if (name?.type === 'Literal' && name.kind === 'symbol' && typeof name.value === 'string') {
+			names.push({ name: name.value, node: name });
+		}
+	});
+	return names;
+}
+
+/** The SynthDefs a parsed file defines, with their controls in the order of declaration. */
+export function collectSynthDefs(document: TextDocument, parsed: ParseResult): SynthDefInfo[] {
+	const text = document.getText();
+	const source = (node: Node | undefined) => node && node.type !== 'KeywordArg' ? text.substring(node.start, node.end) : undefined;
+	const synthDefs: SynthDefInfo[] = [];
+	walk(parsed.program, node => {
+		const definition = node.type === 'Call' ? getDefinitionName(node) : undefined;
+		if (node.type !== 'Call' || definition?.className !== 'SynthDef') {
+			return;
+		}
+		const controls: SynthDefControl[] = [];
+		const add = (control: SynthDefControl) => {
+			if (!controls.some(existing => existing.name === control.name)) {
+				controls.push(control);
+			}
+		};
+		const graph = node.args[1];
+		let complete = graph?.type === 'Function';
+		if (graph?.type === 'Function') {
+			for (const param of graph.params?.params ?? []) {
+				add({ name: param.name.name, defaultValue: source(param.defaultValue), rate: getArgumentRate(param.name.name) });
+			}
+			walk(graph, child => {
+				if (child.type !== 'Call') {
+					return;
+				}
+				const receiver = child.receiver;
+				if (receiver?.type === 'Literal' && receiver.kind === 'symbol' && child.style === 'method' && NAMED_CONTROL_RATES.has(child.selector)) {
+					add({ name: String(receiver.value), defaultValue: source(child.args[0]), rate: child.selector });
+				} else if (receiver?.type === 'ClassName' && receiver.name === 'NamedControl') {
+					const [name, defaultValue] = child.args;
+					if (name?.type === 'Literal' && (name.kind === 'symbol' || name.kind === 'string')) {
+						add({ name: String(name.value), defaultValue: source(defaultValue), rate: NAMED_CONTROL_RATES.has(child.selector) ? child.selector : 'kr' });
+					} else {
+						complete = false;
+					}
+				} else if (receiver?.type === 'ClassName' && (CONTROL_CLASSES.has(receiver.name) && child.selector === 'names' || receiver.name === 'SynthDef' && child.selector === 'wrap')) {
+					complete = false;
+				}
+			});
+		}
+		synthDefs.push({
+			name: definition.name,
+			controls,
+			location: { uri: document.uri, range: { start: document.positionAt(definition.node.start), end: document.positionAt(definition.node.end) } },
+			complete
+		});
+	});
+	return synthDefs;
+}
+
+/** SynthDefs named `name` across the workspace, including the current document when it is not a workspace file. */
+export function findSynthDefs(document: TextDocument, parsed: ParseResult, workspaceIndex: WorkspaceIndex, name: string): SynthDefInfo[] {
+	const synthDefs = workspaceIndex.findSynthDefs(name);
+	if (!workspaceIndex.hasFile(document.uri)) {
+		synthDefs.unshift(...collectSynthDefs(document, parsed).filter(synthDef => synthDef.name === name));
+	}
+	return synthDefs;
+}
+
+/** Whether a key a list sets is neither a control of its SynthDefs nor, for events, an event key. */
+export function isUnknownControl(list: ControlList, key: string, synthDefs: SynthDefInfo[]): boolean {
+	return !synthDefs.some(synthDef => synthDef.controls.some(control => control.name === key)) && !(list.event && EVENT_KEYS.has(key));
+}
+
+/** Keys at even positions from `first`, `key: value` pairs count as keys wherever they are. */
+function getKeys(elements: (Expression | KeywordArg)[], first: number): ControlList['keys'] {
+	const keys: ControlList['keys'] = [];
+	let position = 0;
+	for (const element of elements.slice(first)) {
+		if (element.type === 'KeywordArg') {
+			keys.push({ name: element.name.name, node: element.name });
+			continue;
+		}
+		if (position % 2 === 0 && element.type === 'Literal' && element.kind === 'symbol' && typeof element.value === 'string') {
+			keys.push({ name: element.value, node: element });
+		}
+		position++;
+	}
+	return keys;
+}
+
+/** The lists of control keys in a document, for the SynthDefs their context names. */
+export function getControlLists(parsed: ParseResult, scopes: ScopeAnalysis): ControlList[] {
+	// Variables holding the synths created with `x = Synth(\name)` or `var x = Synth(\name)`, by
+	// declaration, or by name for `~env` and the interpreter variables `a` to `z`
+	const synths = new Map<Declaration | string, Set<string>>();
+	const getVariable = (node: Node | undefined): Declaration | string | undefined => {
+		if (node?.type === 'EnvironmentVariable') {
+			return `~${node.name}`;
+		}
+		if (node?.type !== 'Identifier') {
+			return undefined;
+		}
+		return scopes.bindings.get(node) ?? (isInterpreterVariable(node.name) ? node.name : undefined);
+	};
+	const assign = (variable: Declaration | string | undefined, value: Node | undefined) => {
+		const synthDef = value && getSynthDefName(value);
+		if (variable && synthDef) {
+			synths.set(variable, new Set([...synths.get(variable) ?? [], synthDef.name]));
+		}
+	};
+	walk(parsed.program, node => {
+		if (node.type === 'VarDeclarator') {
+			assign(scopes.bindings.get(node.name), node.init);
+		} else if (node.type === 'Assignment') {
+			assign(getVariable(node.target), node.value);
+		}
+	});
+	// A variable assigned synths of several SynthDefs could hold any of them
+	const getSynthInstrument = (receiver: Expression | undefined): ControlList['instrument'] | undefined => {
+		const synthDef = receiver && getSynthDefName(receiver);
+		if (synthDef) {
+			return synthDef;
+		}
+		const variable = getVariable(receiver);
+		const names = variable ? synths.get(variable) : undefined;
+		return names?.size === 1 ? { name: [...names][0], node: receiver! } : undefined;
+	};
+
+	const lists: ControlList[] = [];
+	walk(parsed.program, (node, parent) => {
+		if (node.type === 'Array' && parent?.type === 'Call') {
+			const synthDef = getSynthDefName(parent);
+			if (synthDef && parent.args[parent.args.indexOf(synthDef.node as Expression) + 1] === node) {
+				lists.push({ instrument: synthDef, keys: getKeys(node.elements, 0), event: false });
+			}
+		} else if (node.type === 'Event') {
+			const [instrument] = getInstrumentNames(node);
+			if (instrument) {
+				lists.push({ instrument, keys: getKeys(node.entries, 0), event: true });
+			}
+		} else if (node.type === 'Call' && node.style === 'method' && node.selector === 'set') {
+			const instrument = getSynthInstrument(node.receiver);
+			if (instrument) {
+				lists.push({ instrument, keys: getKeys(node.args, 0), event: false });
+			}
+		} else if (node.type === 'Call' && node.selector === 'new' && node.receiver?.type === 'ClassName') {
+			const className = node.receiver.name;
+			const first = node.args[0];
+			if (className === 'Pbind' || className === 'Pbindef') {
+				const [instrument] = getInstrumentNames(node);
+				if (instrument) {
+					lists.push({ instrument, keys: getKeys(node.args, className === 'Pbindef' ? 1 : 0), event: true });
+				}
+			} else if ((className === 'Pmono' || className === 'PmonoArtic') && first?.type === 'Literal' && first.kind === 'symbol' && typeof first.value === 'string') {
+				lists.push({ instrument: { name: first.value, node: first }, keys: getKeys(node.args, 1), event: true });
+			}
+		}
+	});
+	return lists;
+}
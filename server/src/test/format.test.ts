@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parse } from '../parser/parser';
+import { defaultFormatSettings, format, FormatSettings } from '../services/format';
+
+function formatText(text: string, settings: Partial<FormatSettings> = {}): string {
+	const document = TextDocument.create('file:///test.scd', 'supercollider', 1, text);
+	const edits = format(document, undefined, parse(text), { tabSize: 4, insertSpaces: false }, { ...defaultFormatSettings, ...settings });
+	return TextDocument.applyEdits(document, edits);
+}
+
+describe('format', () => {
+	it('spaces binary operators, commas and function braces', () => {
+		assert.strictEqual(formatText('x=1+2;\nf={|a,b|a*b};'), 'x = 1 + 2;\nf = { |a, b| a * b };');
+	});
+
+	it('puts one Pbind pair per line', () => {
+		assert.strictEqual(
+			formatText('Pbind(\\instrument, \\default, \\freq, 440, \\dur, 0.25).play;'),
+			'Pbind(\n\t\\instrument, \\default,\n\t\\freq, 440,\n\t\\dur, 0.25\n).play;'
+		);
+	});
+
+	it('rewrites argument declarations in the configured style', () => {
+		assert.strictEqual(formatText('f = { arg a, b; a + b };', { argStyle: 'pipe' }), 'f = { |a, b| a + b };');
+	});
+
+	it('breaks the outermost over-long argument list first', () => {
+		const text = 'f.value(1, 2, {|x| x.postln}, SinOsc.ar(LFNoise1.kr(0.3).range(200, 800), 0, Line.kr(0, 1, 10)) * 0.1, 5)';
+		assert.strictEqual(formatText(text, { maxLineWidth: 60 }), [
+			'f.value(',
+			'\t1,',
+			'\t2,',
+			'\t{ |x| x.postln },',
+			'\tSinOsc.ar(',
+			'\t\tLFNoise1.kr(0.3).range(200, 800),',
+			'\t\t0,',
+			'\t\tLine.kr(0, 1, 10)',
+			'\t) * 0.1,',
+			'\t5',
+			')'
+		].join('\n'));
+	});
+
+	it('leaves lists that fit alone, even when the line is too long', () => {
+		const text = 'Synth(\\default, [\\freq, 440, \\amp, 0.1, \\pan, 0]).set(\\freq, SinOsc.kr(0.25, 0, 100, 440), \\amp, 0.2);';
+		assert.ok(formatText(text, { maxLineWidth: 60 }).startsWith('Synth(\\default, [\\freq, 440, \\amp, 0.1, \\pan, 0]).set(\n'));
+	});
+
+	it('changes nothing the second time', () => {
+		const samples = [
+			readFileSync(path.join(__dirname, '../../../test.scd'), 'utf8'),
+			'(\nvar x;\nx = [1,2,[3,4]]; // list\n/* block */\n)\n',
+			'f.value(1, 2, {|x| x.postln}, SinOsc.ar(LFNoise1.kr(0.3).range(200, 800), 0, Line.kr(0, 1, 10)) * 0.1, 5)'
+		];
+		for (const sample of samples) {
+			const once = formatText(sample, { maxLineWidth: 60 });
+			assert.strictEqual(formatText(once, { maxLineWidth: 60 }), once);
+		}
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { createClassIndex } from '../data/classIndex';
+import { createWorkspaceIndex } from '../data/workspaceIndex';
+import { parse } from '../parser/parser';
+import { analyzeScopes } from '../parser/scope';
+import { defaultLintSettings, doLint, LintSettings } from '../services/lint';
+
+const SYNTHDEFS = 'SynthDef(\\ping, { |freq = 440, amp = 0.1| Out.ar(0, SinOsc.ar(freq) * amp) }).add;';
+
+/** The code of each diagnostic with the text it covers, in a workspace defining `\ping`. */
+function lint(text: string, settings: Partial<LintSettings> = {}): [string, string][] {
+	const document = TextDocument.create('file:///test.scd', 'supercollider', 1, text);
+	const parsed = parse(text);
+	const classIndex = createClassIndex();
+	classIndex.updateFile('file:///Object.sc', 'Object { }');
+	const workspaceIndex = createWorkspaceIndex();
+	workspaceIndex.updateFile('file:///synthDefs.scd', SYNTHDEFS);
+	return doLint(document, parsed, analyzeScopes(parsed.program), classIndex, workspaceIndex, { ...defaultLintSettings, ...settings })
+		.map(diagnostic => [String(diagnostic.code), document.getText(diagnostic.range)]);
+}
+
+describe('doLint', () => {
+	it('reports var declarations after a statement', () => {
+		assert.deepStrictEqual(lint('(\nvar a = 1;\na.postln;\nvar b = 2;\nb\n)'), [['var-after-statement', 'var']]);
+		assert.deepStrictEqual(lint('(\nvar a = 1, b = 2;\na + b\n)'), []);
+	});
+
+	it('reports undeclared variables, not interpreter variables', () => {
+		assert.deepStrictEqual(lint('(\nvar x = 1;\nx + freq\n)'), [['undeclared-variable', 'freq']]);
+		assert.deepStrictEqual(lint('a = 1;\na + ~freq'), []);
+	});
+
+	it('reports unknown classes', () => {
+		assert.deepStrictEqual(lint('SinOsc.ar(440); Nonsense.new; Object.new'), [['unknown-class', 'Nonsense']]);
+	});
+
+	it('reports unused variables and the arguments after the last one in use', () => {
+		assert.deepStrictEqual(lint('(\nvar unused = 1;\nf = { |a, b| a };\n)'), [['unused-variable', 'unused'], ['unused-argument', 'b']]);
+		assert.deepStrictEqual(lint('f = { |a, b| b };'), []);
+	});
+
+	it('reports SynthDefs defined nowhere in the workspace', () => {
+		assert.deepStrictEqual(lint('Synth(\\ping); Synth(\\nope); Synth(\\default)'), [['undefined-synthdef', '\\nope']]);
+	});
+
+	it('reports SynthDefs without an output', () => {
+		assert.deepStrictEqual(lint('SynthDef(\\quiet, { SinOsc.ar(440) }).add;'), [['missing-output', '\\quiet']]);
+		assert.deepStrictEqual(lint(SYNTHDEFS), []);
+	});
+
+	it('reports keys that are not controls of the SynthDef', () => {
+		assert.deepStrictEqual(lint('Synth(\\ping, [\\frq, 300, \\amp, 0.2])'), [['unknown-control', '\\frq']]);
+	});
+
+	it('leaves out lints turned off or suppressed by a comment', () => {
+		const text = 'foo.postln; // sc-lint-disable-line undeclared-variable\n// sc-lint-disable-next-line\nbar.postln;\nbaz.postln;';
+		assert.deepStrictEqual(lint(text), [['undeclared-variable', 'baz']]);
+		assert.deepStrictEqual(lint(text, { undeclaredVariable: 'off' }), []);
+		assert.deepStrictEqual(lint(`// sc-lint-disable undeclared-variable\n${text}`), []);
+	});
+});
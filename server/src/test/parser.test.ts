@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { Expression } from '../parser/ast';
+import { tokenize } from '../parser/lexer';
+import { parse } from '../parser/parser';
+
+function parseExpression(text: string): Expression {
+	const { program, errors } = parse(text);
+	assert.deepStrictEqual(errors, []);
+	return program.body[0] as Expression;
+}
+
+describe('tokenize', () => {
+	it('ends an operator at the end of the text', () => {
+		assert.deepStrictEqual(tokenize('+').tokens.map(token => [token.type, token.value]), [['binop', '+'], ['eof', '']]);
+	});
+
+	it('reads adjacent operator characters as one operator', () => {
+		assert.deepStrictEqual(tokenize('a <= b').tokens.map(token => token.value), ['a', '<=', 'b', '']);
+	});
+
+	it('stops an operator before a comment', () => {
+		const { tokens, comments } = tokenize('a +// sum');
+		assert.deepStrictEqual(tokens.map(token => token.value), ['a', '+', '']);
+		assert.strictEqual(comments[0].text, '// sum');
+	});
+});
+
+describe('parse', () => {
+	it('reports a missing operand at the end of the text', () => {
+		for (const text of ['1 +', 'x = 1 *']) {
+			assert.deepStrictEqual(parse(text).errors.map(error => error.message), ['Expected an expression but found end of file']);
+		}
+	});
+
+	it('reads _ as the placeholder of partial application', () => {
+		const expression = parseExpression('_ * 2');
+		assert.strictEqual(expression.type === 'BinaryOp' && expression.left.type, 'Placeholder');
+	});
+
+	it('reads *args in a call as a splat', () => {
+		const expression = parseExpression('f.(1, *args)');
+		assert.ok(expression.type === 'Call');
+		assert.deepStrictEqual(expression.args.map(arg => arg.type === 'UnaryOp' ? arg.operator : arg.type), ['Literal', '*']);
+	});
+
+	it('wants keyword arguments after a splat', () => {
+		assert.deepStrictEqual(parse('f.(*args, 1)').errors.map(error => error.message), ["Expected a keyword argument after '*' but found '1'"]);
+	});
+});